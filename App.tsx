@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Ticket, TicketStatus, CommsChannel, BranchConfig, ServiceCategory, Metrics, StatusTransition } from './types';
+import { Ticket, TicketStatus, CommsChannel, BranchConfig, ServiceCategory, Metrics, ConnectionStatus, Room, StaffMember, Dependent } from './types';
 import CustomerJoin from './components/CustomerJoin';
 import CustomerStatus from './components/CustomerStatus';
 import ReceptionDashboard from './components/ReceptionDashboard';
@@ -8,257 +8,262 @@ import ManagerDashboard from './components/ManagerDashboard';
 import ProductTour from './components/ProductTour';
 import { Layout } from './components/Layout';
 import { TWILIO_FUNCTION_URL } from './config';
-import { 
-  loadTicketsFromSupabase, 
-  saveTicketToSupabase, 
-  updateTicketInSupabase, 
-  saveAllTicketsToSupabase,
-  deleteTicketFromSupabase
-} from './supabase';
-
-// DocQline Medical Centre — Clinic Queue Configuration
-const BRANCHES: BranchConfig[] = [
-  {
-    id: 'main-clinic',
-    name: 'Main Clinic',
-    address: '1 Health Avenue, DocQline Medical Centre',
-    service: 'General Practice & Walk-in Care',
-    avgTransactionTime: 15, // Consultations average 15 minutes
-    gracePeriodMinutes: 10,
-    isPaused: false,
-    maxInBuilding: 10,
-    excludeInServiceFromCapacity: false
-  }
-];
+import { IllegalTransitionError, normalizeTicket } from './utils/ticketStateMachine';
+import { createTwilioNotifier } from './utils/notifier';
+import {
+  QueueCapacityError,
+  QueueChange,
+  ReinstatePlacement,
+  TransferPolicy,
+  applyQueueChanges,
+  createQueueEngine,
+} from './utils/queueEngine';
+import { systemClock } from './utils/clock';
+import { branchRepository, roomRepository, staffRepository, ticketOutbox, ticketRepository } from './supabase';
+import { BranchClosedError } from './utils/branchHours';
+import { QueueNumberUnavailableError } from './utils/ticketRepository';
+import { hasRoomFor, partySize } from './utils/party';
+import { endPause, startPause, waitExcludingPauses } from './utils/queuePause';
+import {
+  BranchConfigPatch,
+  DEFAULT_BRANCHES,
+  InvalidBranchConfigError,
+  StaleBranchError,
+  applyBranchChange,
+  updateBranchWithRetry,
+  withSettingsHistory,
+} from './utils/branchRepository';
+import {
+  DEFAULT_ROOMS,
+  InvalidRoomError,
+  applyRoomChange,
+  assignClinicianToRoom,
+  roomForClinician,
+} from './utils/roomRepository';
+import { DEFAULT_STAFF, InvalidStaffMemberError, applyStaffChange } from './utils/staffRepository';
+import { TicketConflict } from './utils/ticketOutbox';
+import { createTicketSync } from './utils/ticketSync';
+
+// Every ticket write goes through the sync layer: only changed tickets are
+// upserted, in batches, and nothing is deleted unless removed explicitly.
+const ticketSync = createTicketSync(ticketRepository);
+
+const queueEngine = createQueueEngine({
+  clock: systemClock,
+  storage: ticketSync,
+  notifier: createTwilioNotifier(TWILIO_FUNCTION_URL),
+});
 
 const App: React.FC = () => {
   const [tickets, setTickets] = useState<Ticket[]>([]);
-  // Ref that always mirrors the latest tickets state — used in addTicket to avoid
-  // stale-closure bugs when the function is called rapidly (e.g. from the tour).
+  // Ref that always mirrors the latest tickets state — queue operations read
+  // from it to avoid stale-closure bugs when they are called rapidly (e.g. from the tour).
   const ticketsRef = useRef<Ticket[]>([]);
   useEffect(() => { ticketsRef.current = tickets; }, [tickets]);
 
   const [currentCustomerId, setCurrentCustomerId] = useState<string | null>(null);
   const [view, setView] = useState<'customer' | 'receptionist' | 'teller' | 'manager'>('customer');
-  const [selectedBranchId] = useState<string>('main-clinic');
+  const [branches, setBranches] = useState<BranchConfig[]>(DEFAULT_BRANCHES);
+  const [branchesLoaded, setBranchesLoaded] = useState(false);
+  const [selectedBranchId, setSelectedBranchId] = useState<string>(
+    () => localStorage.getItem('queue_branch_id') || DEFAULT_BRANCHES[0].id,
+  );
   const [userRole, setUserRole] = useState<'customer' | 'receptionist' | 'teller' | 'manager' | undefined>(undefined);
-  const [tellerId, setTellerId] = useState<string>('Doctor-1');
-
-  const selectedBranch = BRANCHES.find(b => b.id === selectedBranchId) || BRANCHES[0];
-
-  // Helper: Add audit log entry to ticket
-  const addStatusTransition = (ticket: Ticket, fromStatus: TicketStatus, toStatus: TicketStatus, triggeredBy: 'system' | 'reception' | 'teller' | 'customer', reason?: string): StatusTransition[] => {
-    const transition: StatusTransition = {
-      ticketId: ticket.id,
-      fromStatus,
-      toStatus,
-      timestamp: Date.now(),
-      triggeredBy,
-      reason
-    };
-    return [...(ticket.statusHistory || []), transition];
+  // The clinician signed in on this device, picked from the staff directory
+  const [tellerId, setTellerId] = useState<string>(
+    () => localStorage.getItem('queue_staff_id') || DEFAULT_STAFF[0].id,
+  );
+  // The manager signed in to the dashboard on this device, who settings edits are logged against
+  const [managerId, setManagerId] = useState<string>(() => localStorage.getItem('queue_manager_id') || '');
+  const [staff, setStaff] = useState<StaffMember[]>(DEFAULT_STAFF);
+  const [rooms, setRooms] = useState<Room[]>(DEFAULT_ROOMS);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('connecting');
+  const [syncConflicts, setSyncConflicts] = useState<TicketConflict[]>(() => ticketOutbox?.conflicts() ?? []);
+
+  const activeBranches = branches.filter(b => b.isActive !== false);
+  const getBranch = (branchId: string) =>
+    branches.find(b => b.id === branchId) || activeBranches[0] || DEFAULT_BRANCHES[0];
+  const selectedBranch = getBranch(selectedBranchId);
+
+  // Fold engine changes into state. The ref is updated immediately so the
+  // next rapid call sees them before React re-renders.
+  const applyChanges = (changes: QueueChange[]) => {
+    if (changes.length === 0) return;
+    ticketsRef.current = applyQueueChanges(ticketsRef.current, changes);
+    setTickets(prev => applyQueueChanges(prev, changes));
   };
 
-  // Helper: Count current in-building capacity
-  const getInBuildingCount = (branchId: string): number => {
-    const branchTickets = tickets.filter(t => t.branchId === branchId);
-    const inBuilding = branchTickets.filter(t => 
-      t.status === TicketStatus.IN_BUILDING
-    );
-    const inService = selectedBranch.excludeInServiceFromCapacity 
-      ? [] 
-      : branchTickets.filter(t => t.status === TicketStatus.IN_SERVICE || t.status === TicketStatus.IN_TRANSACTION);
-    return inBuilding.length + inService.length;
+  // Run an engine operation, surfacing rule violations as warnings
+  const runQueueOperation = async (operation: () => Promise<QueueChange[]>): Promise<QueueChange[]> => {
+    try {
+      const changes = await operation();
+      applyChanges(changes);
+      return changes;
+    } catch (error) {
+      if (
+        error instanceof IllegalTransitionError ||
+        error instanceof QueueCapacityError ||
+        error instanceof BranchClosedError ||
+        error instanceof QueueNumberUnavailableError
+      ) {
+        console.warn(`⚠️ ${error.message}`);
+        return [];
+      }
+      throw error;
+    }
   };
 
-  // Helper: Send notification via Twilio WhatsApp / SMS
-  const sendNotification = async (ticket: Ticket, message: string) => {
-    console.log(`📱 Notification → ${ticket.name} (${ticket.phone}) via ${ticket.channel}: ${message}`);
+  const getInBuildingCount = (branchId: string): number =>
+    queueEngine.getInBuildingCount(tickets, getBranch(branchId));
+
+  // Load tickets from Supabase (with localStorage fallback)
+  useEffect(() => {
+    const loadTickets = async () => {
+      const loadedTickets = await ticketSync.load();
+      setTickets(loadedTickets);
+    };
+    loadTickets();
+    
+    // Load current customer ID from localStorage
+    const customer = localStorage.getItem('queue_customer_id');
+    if (customer) setCurrentCustomerId(customer);
+
+    // Don't lose a pending batch when the tab is closed or backgrounded
+    const flushPending = () => { ticketSync.flush(); };
+    window.addEventListener('pagehide', flushPending);
+    return () => window.removeEventListener('pagehide', flushPending);
+  }, []);
+
+  // Realtime: fold changes made on other devices into local state
+  useEffect(() => {
+    return ticketRepository.subscribe(event => {
+      const next = ticketSync.receive(ticketsRef.current, event);
+      ticketsRef.current = next;
+      setTickets(next);
+    }, setConnectionStatus);
+  }, []);
+
+  // Branch configuration: load it, then follow edits made on any screen
+  useEffect(() => {
+    branchRepository.list()
+      .then(loaded => { if (loaded.length > 0) setBranches(loaded); })
+      .catch(error => console.error('✗ Failed to load branches, using defaults:', error))
+      .finally(() => setBranchesLoaded(true));
+    return branchRepository.subscribe(event => setBranches(prev => applyBranchChange(prev, event)));
+  }, []);
 
-    if (!ticket.phone) return;
+  // Keep the selection valid if the selected branch is removed or deactivated
+  useEffect(() => {
+    if (!branchesLoaded || activeBranches.length === 0) return;
+    if (!activeBranches.some(b => b.id === selectedBranchId)) setSelectedBranchId(activeBranches[0].id);
+  }, [branches, branchesLoaded, selectedBranchId]);
 
+  // Every settings edit is logged on the branch with who made it. The edit is
+  // rebuilt from the stored branch if another screen saved first.
+  const updateBranch = async (id: string, edit: (branch: BranchConfig) => BranchConfigPatch, changedBy: string) => {
     try {
-      const res = await fetch(TWILIO_FUNCTION_URL, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          to:      ticket.phone,
-          message,
-          channel: ticket.channel, // 'SMS' or 'WHATSAPP'
-        }),
-      });
-      if (!res.ok) {
-        const err = await res.json().catch(() => ({}));
-        console.error('📱 Notification failed:', err);
-      } else {
-        console.log('📱 Notification sent ✓');
+      const { branch: updated, patch } = await updateBranchWithRetry(
+        branchRepository,
+        getBranch(id),
+        branch => withSettingsHistory(branch, edit(branch), changedBy, Date.now()),
+      );
+      if (!updated) return;
+      setBranches(prev => applyBranchChange(prev, { type: 'upsert', branch: updated }));
+      // New limits apply straight away rather than at the next queue event
+      if ('maxInBuilding' in patch || 'excludeInServiceFromCapacity' in patch) {
+        await runQueueOperation(() => queueEngine.fillFreeSeats(ticketsRef.current, updated));
+      }
+      if ('gracePeriodMinutes' in patch) {
+        await runQueueOperation(() => queueEngine.checkGracePeriodExpiry(ticketsRef.current, updated));
+      }
+      // Patients waiting outside hear about pauses; resuming calls people in to any free seats
+      if ('isPaused' in patch) {
+        await runQueueOperation(() => updated.isPaused
+          ? queueEngine.announcePause(ticketsRef.current, updated)
+          : queueEngine.announceResume(ticketsRef.current, updated));
+      }
+    } catch (error) {
+      if (error instanceof InvalidBranchConfigError) {
+        console.warn(`⚠️ ${error.message}`);
+        return;
+      }
+      if (error instanceof StaleBranchError) {
+        console.warn(`⚠️ ${error.message} and kept changing; edit not saved`);
+        return;
       }
-    } catch (err) {
-      console.error('📱 Notification error:', err);
+      console.error('✗ Failed to save branch config:', error);
     }
   };
 
-  // Helper: Reorder queue numbers for a branch (used when bumping customers)
-  const reorderQueueNumbers = async (branchId: string) => {
-    const branchTickets = tickets
-      .filter(t => t.branchId === branchId)
-      .sort((a, b) => a.joinedAt - b.joinedAt); // Sort by join time, not queue number
-    
-    // Update queue numbers sequentially based on join order
-    const updates = branchTickets.map((ticket, index) => ({
-      id: ticket.id,
-      queueNumber: index + 1
-    }));
-    
-    // Save all updates
-    for (const update of updates) {
-      await updateTicketInSupabase(update.id, { queueNumber: update.queueNumber });
+  // Staff directory: load it, then follow edits (breaks, rosters) made on any screen
+  useEffect(() => {
+    staffRepository.list()
+      .then(loaded => { if (loaded.length > 0) setStaff(loaded); })
+      .catch(error => console.error('✗ Failed to load staff directory, using defaults:', error));
+    return staffRepository.subscribe(event => setStaff(prev => applyStaffChange(prev, event)));
+  }, []);
+
+  const saveStaffMember = async (member: StaffMember) => {
+    try {
+      const saved = await staffRepository.save(member);
+      setStaff(prev => applyStaffChange(prev, { type: 'upsert', member: saved }));
+    } catch (error) {
+      if (error instanceof InvalidStaffMemberError) {
+        console.warn(`⚠️ ${error.message}`);
+        return;
+      }
+      console.error('✗ Failed to save staff member:', error);
     }
-    
-    setTickets(prev => prev.map(t => {
-      const update = updates.find(u => u.id === t.id);
-      return update ? { ...t, queueNumber: update.queueNumber } : t;
-    }));
   };
 
-  // Helper: Bump customer down 4 spaces if they don't confirm entry within grace period
-  const checkGracePeriodExpiry = async (branchId: string) => {
-    const branch = BRANCHES.find(b => b.id === branchId) || BRANCHES[0];
-    const branchTickets = tickets.filter(t => t.branchId === branchId);
-    const eligibleCustomers = branchTickets.filter(t => 
-      t.status === TicketStatus.ELIGIBLE_FOR_ENTRY && t.eligibleForEntryAt
-    );
-    
-    const gracePeriodMs = branch.gracePeriodMinutes * 60 * 1000;
-    const now = Date.now();
-    
-    for (const customer of eligibleCustomers) {
-      if (customer.eligibleForEntryAt && (now - customer.eligibleForEntryAt) > gracePeriodMs) {
-        // Grace period expired - bump down 4 spaces
-        const currentQueueNum = customer.queueNumber;
-        const newQueueNum = currentQueueNum + 4;
-        
-        // Find the ticket that should be at newQueueNum and swap
-        const targetTicket = branchTickets.find(t => t.queueNumber === newQueueNum);
-        
-        if (targetTicket) {
-          // Swap queue numbers
-          await updateTicketInSupabase(customer.id, { queueNumber: newQueueNum });
-          await updateTicketInSupabase(targetTicket.id, { queueNumber: currentQueueNum });
-          
-          // Move customer back to REMOTE_WAITING
-          await updateTicketInSupabase(customer.id, {
-            status: TicketStatus.REMOTE_WAITING,
-            eligibleForEntryAt: undefined,
-            statusHistory: addStatusTransition(
-              customer,
-              TicketStatus.ELIGIBLE_FOR_ENTRY,
-              TicketStatus.REMOTE_WAITING,
-              'system',
-              'Grace period expired - bumped down 4 spaces'
-            )
-          });
-          
-          setTickets(prev => prev.map(t => {
-            if (t.id === customer.id) {
-              return { ...t, queueNumber: newQueueNum, status: TicketStatus.REMOTE_WAITING, eligibleForEntryAt: undefined };
-            }
-            if (t.id === targetTicket.id) {
-              return { ...t, queueNumber: currentQueueNum };
-            }
-            return t;
-          }));
-        } else {
-          // No ticket at target position, just move to end
-          const maxQueueNum = Math.max(...branchTickets.map(t => t.queueNumber));
-          await updateTicketInSupabase(customer.id, {
-            queueNumber: maxQueueNum + 1,
-            status: TicketStatus.REMOTE_WAITING,
-            eligibleForEntryAt: undefined,
-            statusHistory: addStatusTransition(
-              customer,
-              TicketStatus.ELIGIBLE_FOR_ENTRY,
-              TicketStatus.REMOTE_WAITING,
-              'system',
-              'Grace period expired - moved to end of queue'
-            )
-          });
-          
-          setTickets(prev => prev.map(t => 
-            t.id === customer.id 
-              ? { ...t, queueNumber: maxQueueNum + 1, status: TicketStatus.REMOTE_WAITING, eligibleForEntryAt: undefined }
-              : t
-          ));
-        }
-        
-        // Reorder all queue numbers to be sequential
-        await reorderQueueNumbers(branchId);
+  // Consultation rooms: load them, then follow edits made on any screen
+  useEffect(() => {
+    roomRepository.list()
+      .then(setRooms)
+      .catch(error => console.error('✗ Failed to load rooms, using defaults:', error));
+    return roomRepository.subscribe(event => setRooms(prev => applyRoomChange(prev, event)));
+  }, []);
+
+  const saveRooms = async (changed: Room[]) => {
+    try {
+      for (const room of changed) {
+        const saved = await roomRepository.save(room);
+        setRooms(prev => applyRoomChange(prev, { type: 'upsert', room: saved }));
+      }
+    } catch (error) {
+      if (error instanceof InvalidRoomError) {
+        console.warn(`⚠️ ${error.message}`);
+        return;
       }
+      console.error('✗ Failed to save room:', error);
     }
   };
 
-  // Helper: Promote next remote customer to eligible for entry
-  const promoteNextRemoteCustomer = async (branchId: string) => {
-    const branchTickets = tickets.filter(t => t.branchId === branchId);
-    const remoteWaiting = branchTickets
-      .filter(t => t.status === TicketStatus.REMOTE_WAITING || t.status === TicketStatus.WAITING)
-      .sort((a, b) => a.queueNumber - b.queueNumber);
-    
-    if (remoteWaiting.length > 0) {
-      const nextCustomer = remoteWaiting[0];
-      const currentCount = getInBuildingCount(branchId);
-      const maxCapacity = selectedBranch.maxInBuilding; // Should be 10
-      
-      // Only promote if there's space (when someone moves from position #10 to #9, or leaves)
-      // The customer being promoted will become position #10 in the building
-      if (currentCount < maxCapacity) {
-        // Update status to ELIGIBLE_FOR_ENTRY
-        const updates: Partial<Ticket> = {
-          status: TicketStatus.ELIGIBLE_FOR_ENTRY,
-          eligibleForEntryAt: Date.now(),
-          statusHistory: addStatusTransition(
-            nextCustomer,
-            nextCustomer.status,
-            TicketStatus.ELIGIBLE_FOR_ENTRY,
-            'system',
-            'Promoted to position #10 - eligible for entry'
-          )
-        };
-        
-        await updateTicketInSupabase(nextCustomer.id, updates);
-        
-        setTickets(prev => prev.map(t => 
-          t.id === nextCustomer.id ? { ...t, ...updates } : t
-        ));
-        
-        // ── Trigger 2: Patient promoted — please enter the clinic ──
-        await sendNotification(
-          nextCustomer,
-          `🏥 ${nextCustomer.name}, it's almost your turn!\n\nPlease come to DocQline Medical reception to check in. Your number is *#${nextCustomer.queueNumber}*.\n\nYou have *${selectedBranch.gracePeriodMinutes} minutes* to arrive or your spot will be given to the next patient.`,
-        );
-      }
+  const saveRoom = (room: Room) => saveRooms([room]);
+
+  // The doctor on this device takes a room, leaving any other they held
+  const takeRoom = (roomId: string) => saveRooms(assignClinicianToRoom(rooms, roomId, tellerId));
+
+  const removeRoom = async (id: string) => {
+    try {
+      await roomRepository.remove(id);
+      setRooms(prev => applyRoomChange(prev, { type: 'delete', id }));
+    } catch (error) {
+      console.error('✗ Failed to remove room:', error);
     }
   };
 
-  // Load tickets from Supabase (with localStorage fallback)
+  // Offline edits that clashed with another device's, waiting for reception
   useEffect(() => {
-    const loadTickets = async () => {
-      const loadedTickets = await loadTicketsFromSupabase();
-      setTickets(loadedTickets);
-    };
-    loadTickets();
-    
-    // Load current customer ID from localStorage
-    const customer = localStorage.getItem('queue_customer_id');
-    if (customer) setCurrentCustomerId(customer);
+    if (!ticketOutbox) return;
+    return ticketOutbox.onChange(() => setSyncConflicts([...ticketOutbox.conflicts()]));
   }, []);
 
-  // Save tickets to Supabase when they change
+  const resolveSyncConflict = async (id: string, keep: 'local' | 'remote') => {
+    await ticketOutbox?.resolveConflict(id, keep);
+  };
+
   useEffect(() => {
-    if (tickets.length > 0) {
-      saveAllTicketsToSupabase(tickets);
-    }
-    
     // Always save customer ID to localStorage for quick access
     if (currentCustomerId) {
       localStorage.setItem('queue_customer_id', currentCustomerId);
@@ -267,16 +272,24 @@ const App: React.FC = () => {
     }
     
     localStorage.setItem('queue_user_role', userRole || '');
-  }, [tickets, currentCustomerId, userRole, selectedBranchId]);
-
-  // Check grace period expiry every 30 seconds
+    // Each device remembers which site it is working at and who is signed in
+    localStorage.setItem('queue_branch_id', selectedBranchId);
+    localStorage.setItem('queue_staff_id', tellerId);
+    localStorage.setItem('queue_manager_id', managerId);
+  }, [currentCustomerId, userRole, selectedBranchId, tellerId, managerId]);
+
+  // Reception and clinician screens check their own branch's grace periods every
+  // 30 seconds; patients' phones never do. Expiry writes are conditional, so
+  // two staff screens at the same branch still act only once per missed window.
   useEffect(() => {
+    if (view !== 'receptionist' && view !== 'teller') return;
     const interval = setInterval(() => {
-      checkGracePeriodExpiry(selectedBranchId);
+      runQueueOperation(() => queueEngine.checkGracePeriodExpiry(ticketsRef.current, selectedBranch))
+        .catch(error => console.error('✗ Grace period check failed:', error));
     }, 30000); // Check every 30 seconds
-    
+
     return () => clearInterval(interval);
-  }, [tickets, selectedBranchId]);
+  }, [view, selectedBranchId, branches]);
 
   const addTicket = async (
     name: string, 
@@ -284,188 +297,72 @@ const App: React.FC = () => {
     channel: CommsChannel, 
     branchId: string,
     memberId?: string,
-    serviceCategory?: ServiceCategory
+    serviceCategory?: ServiceCategory,
+    preferredClinicianId?: string,
+    dependents?: Dependent[],
   ) => {
-    // Use the ref (not the closure-captured state) so rapid successive calls
-    // each see the tickets added by earlier calls within the same batch.
-    // Scope to TODAY only — mock/historical analytics data must not inflate the live queue number.
-    const todayStart = new Date();
-    todayStart.setHours(0, 0, 0, 0);
-    const todayStartMs = todayStart.getTime();
-
-    const todayBranchTickets = ticketsRef.current.filter(
-      t => t.branchId === branchId && t.joinedAt >= todayStartMs,
-    );
-    const nextNum = todayBranchTickets.length > 0
-      ? Math.max(...todayBranchTickets.map(t => t.queueNumber)) + 1
-      : 1;
-    
-    // Add small random delay to ensure unique timestamps when creating multiple tickets quickly
-    const joinedAt = Date.now() + Math.random() * 10; // Add 0-10ms random offset
-
-    // If there is capacity in the waiting room right now, the patient walks straight in.
-    // Use ticketsRef to avoid stale closures during rapid batch additions (e.g. tour).
-    const branch = BRANCHES.find(b => b.id === branchId) || BRANCHES[0];
-    const currentInBuilding = ticketsRef.current.filter(
-      t => t.branchId === branchId &&
-        (t.status === TicketStatus.IN_BUILDING ||
-         t.status === TicketStatus.ARRIVED ||
-         t.status === TicketStatus.IN_SERVICE ||
-         t.status === TicketStatus.IN_TRANSACTION),
-    ).length;
-    const hasCapacity = currentInBuilding < branch.maxInBuilding;
-    const initialStatus = hasCapacity ? TicketStatus.IN_BUILDING : TicketStatus.REMOTE_WAITING;
-
-    const newTicket: Ticket = {
-      id: Math.random().toString(36).substr(2, 9),
-      queueNumber: nextNum,
-      name,
-      phone,
-      memberId,
-      channel,
-      status: initialStatus,
-      branchId,
-      serviceCategory,
-      joinedAt: Math.floor(joinedAt), // Ensure integer timestamp
-      statusHistory: [{
-        ticketId: '',
-        fromStatus: initialStatus,
-        toStatus: initialStatus,
-        timestamp: Date.now(),
-        triggeredBy: 'customer',
-        reason: hasCapacity ? 'Joined queue — checked into waiting room' : 'Joined queue — pre-arrival'
-      }]
-    };
-    // Fix the ticketId in statusHistory
-    newTicket.statusHistory![0].ticketId = newTicket.id;
-    
-    // Save to Supabase (with localStorage fallback)
-    await saveTicketToSupabase(newTicket);
-
-    // Update the ref immediately so the next rapid addTicket call sees this ticket
-    ticketsRef.current = [...ticketsRef.current, newTicket];
-    setTickets(prev => [...prev, newTicket]);
-    setCurrentCustomerId(newTicket.id);
-
-    // ── Trigger 1: Notify patient they have joined the queue ──
-    await sendNotification(
-      newTicket,
-      `Hi ${name}! ✅ You've joined the queue at DocQline Medical.\n\nYour number: *#${nextNum}*\n\nWe'll message you when it's almost your turn. Stay nearby!`,
+    const changes = await runQueueOperation(() =>
+      queueEngine.addTicket(ticketsRef.current, getBranch(branchId), {
+        name, phone, channel, memberId, serviceCategory, preferredClinicianId, dependents,
+      }, staff).catch(error => {
+        // Offline joins are refused rather than given a number that may already be taken
+        if (error instanceof QueueNumberUnavailableError) {
+          alert("⚠️ We couldn't issue a queue number just now. Please check your connection and try again.");
+        }
+        throw error;
+      }),
     );
+    const created = changes.find(c => c.type === 'created');
+    if (created?.type === 'created') setCurrentCustomerId(created.ticket.id);
   };
 
   const updateTicketStatus = async (id: string, status: TicketStatus, triggeredBy: 'system' | 'reception' | 'teller' | 'customer' = 'reception', reason?: string) => {
-    const ticket = tickets.find(t => t.id === id);
+    const ticket = ticketsRef.current.find(t => t.id === id);
     if (!ticket) return;
-    
-    const fromStatus = ticket.status;
-    let updates: Partial<Ticket> = { 
-      status,
-      statusHistory: addStatusTransition(ticket, fromStatus, status, triggeredBy, reason)
-    };
-    
-    // Handle status-specific timestamps
-    if (status === TicketStatus.CALLED || status === TicketStatus.ELIGIBLE_FOR_ENTRY) {
-      updates.calledAt = Date.now();
-      updates.eligibleForEntryAt = Date.now();
-    }
-    if (status === TicketStatus.IN_BUILDING) {
-      updates.enteredBuildingAt = Date.now();
-    }
-    if (status === TicketStatus.REMOTE_WAITING && fromStatus === TicketStatus.IN_BUILDING) {
-      updates.leftBuildingAt = Date.now();
-    }
-    if (status === TicketStatus.IN_TRANSACTION || status === TicketStatus.IN_SERVICE) {
-      updates.transactionStartedAt = Date.now();
-      updates.tellerId = tellerId;
-      // ── Trigger 3: Notify patient the doctor is ready for them ──
-      await sendNotification(
-        ticket,
-        `🩺 ${ticket.name}, the doctor is ready for you now!\n\nPlease come through to the consultation room. Your number is *#${ticket.queueNumber}*.`,
-      );
-    }
-    if (status === TicketStatus.SERVED || status === TicketStatus.COMPLETED) {
-      updates.transactionEndedAt = Date.now();
-      // Calculate wait time
-      if (ticket.enteredBuildingAt) {
-        const waitTime = Math.round((Date.now() - ticket.enteredBuildingAt) / 60000);
-        updates.waitTimeMinutes = waitTime;
-      }
-    }
-    if (status === TicketStatus.NOT_HERE) updates.bumpedAt = Date.now();
-    
-    // Capacity Gate Logic: Check if marking as IN_BUILDING
-    if (status === TicketStatus.IN_BUILDING) {
-      const currentCount = getInBuildingCount(ticket.branchId);
-      const maxCapacity = selectedBranch.maxInBuilding;
-      
-      if (currentCount >= maxCapacity) {
-        // Cannot enter - at capacity
-        console.warn(`⚠️ Capacity limit reached (${currentCount}/${maxCapacity}). Cannot mark ${ticket.name} as IN_BUILDING.`);
-        return; // Don't update status
-      }
-    }
-    
-    // Update in Supabase (with localStorage fallback)
-    await updateTicketInSupabase(id, updates);
-    
-    // Update local state
-    setTickets(prev => {
-      const updated = prev.map(t => {
-        if (t.id !== id) return t;
-        return { ...t, ...updates };
-      });
-      
-      // Check if capacity opened up (someone left building or moved to service)
-      const wasInBuilding = fromStatus === TicketStatus.IN_BUILDING;
-      const isLeavingBuilding = status === TicketStatus.REMOTE_WAITING || 
-                                status === TicketStatus.IN_SERVICE || 
-                                status === TicketStatus.IN_TRANSACTION ||
-                                status === TicketStatus.SERVED ||
-                                status === TicketStatus.COMPLETED ||
-                                status === TicketStatus.REMOVED;
-      
-      if (wasInBuilding && isLeavingBuilding) {
-        // Capacity opened - promote next customer
-        setTimeout(() => promoteNextRemoteCustomer(ticket.branchId), 100);
-      }
-      
-      return updated;
-    });
+    await runQueueOperation(() =>
+      queueEngine.updateStatus(ticketsRef.current, getBranch(ticket.branchId), id, status, {
+        triggeredBy, reason, tellerId,
+        room: roomForClinician(rooms, ticket.branchId, tellerId),
+      }),
+    );
+  };
+
+  // Finishing a station sends multi-stage visits back to the waiting room for the next one
+  const completeStage = async (id: string) => {
+    const ticket = ticketsRef.current.find(t => t.id === id);
+    if (!ticket) return;
+    await runQueueOperation(() =>
+      queueEngine.completeStage(ticketsRef.current, getBranch(ticket.branchId), id, {
+        triggeredBy: 'teller', tellerId,
+      }),
+    );
+  };
+
+  // Reception moves a waiting patient to another branch, keeping the ticket and its history
+  const transferTicket = async (id: string, toBranchId: string, policy: TransferPolicy, reason?: string) => {
+    const ticket = ticketsRef.current.find(t => t.id === id);
+    if (!ticket) return;
+    await runQueueOperation(() =>
+      queueEngine.transferTicket(ticketsRef.current, getBranch(ticket.branchId), getBranch(toBranchId), id, {
+        policy, reason, staff,
+      }),
+    );
+  };
+
+  const reinstateTicket = async (id: string, placement: ReinstatePlacement) => {
+    const ticket = ticketsRef.current.find(t => t.id === id);
+    if (!ticket) return;
+    await runQueueOperation(() =>
+      queueEngine.reinstateTicket(ticketsRef.current, getBranch(ticket.branchId), id, { placement }),
+    );
   };
 
   const updateTicket = async (id: string, updates: Partial<Ticket>) => {
-    const ticket = tickets.find(t => t.id === id);
+    const ticket = ticketsRef.current.find(t => t.id === id);
     if (!ticket) return;
-    
-    // If status is being updated, add to audit log
-    if (updates.status && updates.status !== ticket.status) {
-      updates.statusHistory = addStatusTransition(
-        ticket,
-        ticket.status,
-        updates.status,
-        'reception',
-        updates.auditNotes ? `Manual update: ${updates.auditNotes}` : 'Manual status update'
-      );
-    }
-    
-    // Update in Supabase (with localStorage fallback)
-    await updateTicketInSupabase(id, updates);
-    
-    setTickets(prev => {
-      const updated = prev.map(t => {
-      if (t.id !== id) return t;
-      return { ...t, ...updates };
-      });
-      
-      // Check if capacity opened (if status changed from IN_BUILDING)
-      if (updates.status && ticket.status === TicketStatus.IN_BUILDING && 
-          updates.status !== TicketStatus.IN_BUILDING) {
-        setTimeout(() => promoteNextRemoteCustomer(ticket.branchId), 100);
-      }
-      
-      return updated;
-    });
+    await runQueueOperation(() =>
+      queueEngine.updateTicket(ticketsRef.current, getBranch(ticket.branchId), id, updates),
+    );
   };
 
   const handleConfirmInBuilding = async (id: string) => {
@@ -473,9 +370,10 @@ const App: React.FC = () => {
     if (!ticket || ticket.status !== TicketStatus.ELIGIBLE_FOR_ENTRY) return;
     
     // Check capacity before confirming
+    const ticketBranch = getBranch(ticket.branchId);
     const currentCount = getInBuildingCount(ticket.branchId);
-    if (currentCount >= selectedBranch.maxInBuilding) {
-      alert(`⚠️ Waiting room is at full capacity (${currentCount}/${selectedBranch.maxInBuilding}). Please wait.`);
+    if (!hasRoomFor(currentCount, partySize(ticket), ticketBranch.maxInBuilding)) {
+      alert(`⚠️ Waiting room is at full capacity (${currentCount}/${ticketBranch.maxInBuilding}). Please wait.`);
       return;
     }
     
@@ -484,34 +382,42 @@ const App: React.FC = () => {
   };
 
   const handleAddMockData = async (mockTickets: Ticket[]) => {
-    // Save mock tickets to Supabase (with localStorage fallback)
+    // Queue mock tickets for a batched upsert
     for (const ticket of mockTickets) {
-      await saveTicketToSupabase(ticket);
+      await ticketSync.insert(normalizeTicket(ticket));
     }
     
     // Update local state
     setTickets(prev => {
       // Combine existing tickets with mock tickets, avoiding duplicates
       const existingIds = new Set(prev.map(t => t.id));
-      const newTickets = mockTickets.filter(t => !existingIds.has(t.id));
+      const newTickets = mockTickets.filter(t => !existingIds.has(t.id)).map(normalizeTicket);
       return [...prev, ...newTickets];
     });
   };
 
   const submitFeedback = async (id: string, stars: number) => {
-    // Update in Supabase (with localStorage fallback)
-    await updateTicketInSupabase(id, { feedbackStars: stars });
+    await ticketSync.update(id, { feedbackStars: stars });
 
     setTickets(prev => prev.map(t => t.id === id ? { ...t, feedbackStars: stars } : t));
   };
 
-  const pauseQueue = () => {
-    const branch = BRANCHES.find(b => b.id === selectedBranchId);
-    if (branch) {
-      // In a real app, this would update the branch config in the database
-      branch.isPaused = !branch.isPaused;
-      setSelectedBranchId(selectedBranchId); // Trigger re-render
+  // Toggle the pause, recording the interval with why and for how long. Like
+  // settings edits it is logged against the manager signed in on this device.
+  const pauseQueue = async (reason?: string, expectedResumeAt?: number) => {
+    if (!managerId) {
+      alert('⚠️ Pausing the queue is logged against a manager. Sign in on the manager dashboard first.');
+      return;
     }
+    const now = Date.now();
+    const pausing = !selectedBranch.isPaused;
+    // Built from the stored branch so a pause logged on another screen is kept
+    await updateBranch(selectedBranchId, branch => {
+      if (branch.isPaused === pausing) return {};
+      return pausing
+        ? startPause(branch, now, { reason, expectedResumeAt, pausedBy: managerId })
+        : endPause(branch, now);
+    }, managerId);
   };
 
   const flagNoShow = async (id: string) => {
@@ -527,7 +433,7 @@ const App: React.FC = () => {
     const totalServed = relevantTickets.length;
     const waitTimes = relevantTickets
       .filter(t => t.waitTimeMinutes !== undefined)
-      .map(t => t.waitTimeMinutes!);
+      .map(t => waitExcludingPauses(t, getBranch(t.branchId))!);
     const avgWaitTime = waitTimes.length > 0
       ? Math.round(waitTimes.reduce((a, b) => a + b, 0) / waitTimes.length)
       : 0;
@@ -579,7 +485,7 @@ const App: React.FC = () => {
   };
 
   const removeTicket = async (id: string) => {
-    await deleteTicketFromSupabase(id);
+    await ticketSync.remove(id);
     setTickets(prev => prev.filter(t => t.id !== id));
     // Clear current customer if it was the removed ticket
     if (currentCustomerId === id) {
@@ -591,7 +497,7 @@ const App: React.FC = () => {
     // Remove all tickets from Supabase/localStorage
     const allTicketIds = tickets.map(t => t.id);
     for (const id of allTicketIds) {
-      await deleteTicketFromSupabase(id);
+      await ticketSync.remove(id);
     }
     setTickets([]);
     setCurrentCustomerId(null);
@@ -604,7 +510,9 @@ const App: React.FC = () => {
   };
 
   const currentTicket = tickets.find(t => t.id === currentCustomerId);
-  const currentBranchTickets = tickets.filter(t => t.branchId === selectedBranchId);
+  // A patient's status page follows their own ticket's branch, not the staff selection
+  const currentTicketBranch = currentTicket ? getBranch(currentTicket.branchId) : selectedBranch;
+  const currentBranchTickets = tickets.filter(t => t.branchId === currentTicketBranch.id);
   const metrics = calculateMetrics(selectedBranchId);
 
   return (
@@ -618,19 +526,36 @@ const App: React.FC = () => {
         onSetCurrentCustomer={setCurrentCustomerId}
         onRemoveTicket={removeTicket}
         onClearAllTickets={clearAllTickets}
-        onReorderQueueNumbers={reorderQueueNumbers}
         tickets={tickets}
         branchId={selectedBranchId}
       />
-      <Layout view={view} setView={setView} resetAll={resetAll} userRole={userRole} branchName={selectedBranch.name}>
+      <Layout
+        view={view}
+        setView={setView}
+        resetAll={resetAll}
+        userRole={userRole}
+        branchName={view === 'customer' ? currentTicketBranch.name : selectedBranch.name}
+        connectionStatus={connectionStatus}
+        branches={activeBranches}
+        selectedBranchId={selectedBranchId}
+        onSelectBranch={setSelectedBranchId}
+      >
         {view === 'customer' && (
         !currentTicket ? (
-            <CustomerJoin branches={BRANCHES.filter(b => !b.isPaused)} onJoin={addTicket} />
+            <CustomerJoin
+              branches={activeBranches}
+              tickets={tickets}
+              staff={staff}
+              defaultBranchId={selectedBranchId}
+              onJoin={addTicket}
+            />
         ) : (
             <CustomerStatus 
             ticket={currentTicket} 
               allTickets={currentBranchTickets} 
-              branch={selectedBranch} 
+              branch={currentTicketBranch} 
+              rooms={rooms}
+              staff={staff}
               onCancel={() => setCurrentCustomerId(null)}
             onSubmitFeedback={submitFeedback}
               onConfirmInBuilding={handleConfirmInBuilding}
@@ -643,36 +568,51 @@ const App: React.FC = () => {
           tickets={tickets} 
           updateStatus={updateTicketStatus} 
             updateTicket={updateTicket}
+            onTransfer={transferTicket}
+            onReinstate={reinstateTicket}
             branch={selectedBranch}
+            branches={activeBranches}
+            rooms={rooms}
+            staff={staff}
             inBuildingCount={getInBuildingCount(selectedBranchId)}
             maxInBuilding={selectedBranch.maxInBuilding}
+            syncConflicts={syncConflicts}
+            resolveSyncConflict={resolveSyncConflict}
           />
         )}
 
         {view === 'teller' && (
-          <div className="space-y-6">
-            <div className="flex items-center gap-4 mb-4">
-              <input
-                type="text"
-                value={tellerId}
-                onChange={(e) => setTellerId(e.target.value)}
-                placeholder="Staff / Doctor ID"
-                className="px-4 py-2 border border-slate-200 rounded-lg"
-              />
-            </div>
-            <TellerUI 
-          tickets={tickets} 
-          updateStatus={updateTicketStatus}
-              branch={selectedBranch}
-              tellerId={tellerId}
-              onPauseQueue={pauseQueue}
-              onFlagNoShow={flagNoShow}
-        />
-          </div>
+          <TellerUI
+            tickets={tickets}
+            updateStatus={updateTicketStatus}
+            onCompleteStage={completeStage}
+            branch={selectedBranch}
+            tellerId={tellerId}
+            staff={staff}
+            onSelectClinician={setTellerId}
+            onSaveStaffMember={saveStaffMember}
+            rooms={rooms}
+            onTakeRoom={takeRoom}
+            onSaveRoom={saveRoom}
+            onPauseQueue={pauseQueue}
+            onFlagNoShow={flagNoShow}
+          />
         )}
 
         {view === 'manager' && (
-          <ManagerDashboard tickets={tickets} branch={selectedBranch} onAddMockData={handleAddMockData} />
+          <ManagerDashboard
+            tickets={tickets}
+            branch={selectedBranch}
+            rooms={rooms}
+            onSaveRoom={saveRoom}
+            onRemoveRoom={removeRoom}
+            staff={staff}
+            onSaveStaffMember={saveStaffMember}
+            managerId={managerId}
+            onSelectManager={setManagerId}
+            onUpdateBranch={patch => updateBranch(selectedBranchId, () => patch, managerId)}
+            onAddMockData={handleAddMockData}
+          />
       )}
     </Layout>
     </>
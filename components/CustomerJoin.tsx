@@ -1,9 +1,17 @@
 import React, { useState } from 'react';
-import { BranchConfig, CommsChannel, ServiceCategory } from '../types';
-import { MessageCircle, Send, HeartPulse } from 'lucide-react';
+import { BranchConfig, CommsChannel, Dependent, ServiceCategory, StaffMember, Ticket } from '../types';
+import { MessageCircle, Send, HeartPulse, MapPin, UserPlus, X } from 'lucide-react';
+import { summarizeBranchQueue } from '../utils/eta';
+import { MAX_DEPENDENTS } from '../utils/party';
+import { isClinician } from '../utils/staffRepository';
+import { JoinAvailability, describeOpening, joinAvailability } from '../utils/branchHours';
+import { currentPause, describePause } from '../utils/queuePause';
 
 interface CustomerJoinProps {
   branches: BranchConfig[];
+  tickets: Ticket[];            // for each branch's live queue length and wait
+  staff?: StaffMember[];        // the roster, for how many clinicians are on duty
+  defaultBranchId?: string;
   onJoin: (
     name: string,
     phone: string,
@@ -11,6 +19,8 @@ interface CustomerJoinProps {
     branchId: string,
     patientId?: string,
     visitReason?: ServiceCategory,
+    preferredClinicianId?: string,
+    dependents?: Dependent[],
   ) => void;
 }
 
@@ -24,30 +34,62 @@ const VISIT_REASONS: { value: ServiceCategory; label: string }[] = [
   { value: ServiceCategory.OTHER,           label: 'Other' },
 ];
 
-const CustomerJoin: React.FC<CustomerJoinProps> = ({ branches, onJoin }) => {
+const CustomerJoin: React.FC<CustomerJoinProps> = ({ branches, tickets, staff = [], defaultBranchId, onJoin }) => {
   const [name,                setName]                = useState('');
   const [phone,               setPhone]               = useState('');
   const [consent,             setConsent]             = useState(false);
   const [visitReason,         setVisitReason]         = useState<ServiceCategory | ''>('');
   const [channel,             setChannel]             = useState<CommsChannel>(CommsChannel.SMS);
   const [isSimulatingFailure, setIsSimulatingFailure] = useState(false);
+  const [chosenBranchId,      setChosenBranchId]      = useState(defaultBranchId ?? '');
+  const [preferredId,         setPreferredId]         = useState('');
+  const [dependents,          setDependents]          = useState<Dependent[]>([]);
 
+  const now = Date.now();
+  const availability = new Map<string, JoinAvailability>(
+    branches.map(b => [b.id, joinAvailability(tickets, b, staff, now)]),
+  );
+  const isTakingPatients = (branch: BranchConfig) => availability.get(branch.id)!.open;
+  // Why a branch isn't taking patients, e.g. "Closed · opens tomorrow at 07:30"
+  const closedLabel = (branch: BranchConfig): string => {
+    if (branch.isPaused) {
+      const pause = currentPause(branch);
+      return pause ? ['Paused', describePause(pause)].filter(Boolean).join(' · ') : 'Paused';
+    }
+    const status = availability.get(branch.id)!;
+    if (status.open !== false) return 'Open';
+    const label = status.reason === 'holiday' ? 'Holiday' : status.reason === 'cutoff' ? 'Full today' : 'Closed';
+    return `${label} · ${describeOpening(status.opensAt, now)}`;
+  };
+
+  const openBranches = branches.filter(isTakingPatients);
+  // Fall back to the first open branch if the chosen one paused meanwhile
   const selectedBranchId =
-    branches.find(b => !b.isPaused)?.id ?? branches[0]?.id ?? '';
+    openBranches.find(b => b.id === chosenBranchId)?.id ?? openBranches[0]?.id ?? '';
+  // Clinicians rostered at the chosen branch, for patients who want to see someone in particular
+  const branchClinicians = staff.filter(m =>
+    m.isActive !== false && isClinician(m) && m.shifts.some(shift => shift.branchId === selectedBranchId),
+  );
+  const preferredClinicianId = branchClinicians.find(m => m.id === preferredId)?.id;
+
+  const updateDependent = (index: number, changes: Partial<Dependent>) =>
+    setDependents(dependents.map((d, i) => (i === index ? { ...d, ...changes } : d)));
 
   const isValid =
     name.trim().length > 2 &&
+    dependents.every(d => d.name.trim().length > 0) &&
     /^\+?[1-9]\d{1,14}$/.test(phone) &&
     consent &&
     !!selectedBranchId;
 
   const handleJoin = () => {
     const reason = (visitReason || undefined) as ServiceCategory | undefined;
+    const party = dependents.map(d => ({ ...d, name: d.name.trim() }));
     if (channel === CommsChannel.WHATSAPP && isSimulatingFailure) {
       alert('WhatsApp delivery failed. Switching to SMS fallback…');
-      onJoin(name, phone, CommsChannel.SMS, selectedBranchId, undefined, reason);
+      onJoin(name, phone, CommsChannel.SMS, selectedBranchId, undefined, reason, preferredClinicianId, party);
     } else {
-      onJoin(name, phone, channel, selectedBranchId, undefined, reason);
+      onJoin(name, phone, channel, selectedBranchId, undefined, reason, preferredClinicianId, party);
     }
   };
 
@@ -63,7 +105,13 @@ const CustomerJoin: React.FC<CustomerJoinProps> = ({ branches, onJoin }) => {
           <HeartPulse size={26} className="text-white" strokeWidth={2} />
         </div>
         <h1 className="text-[22px] font-semibold text-[#1D1D1F] tracking-tight">DocQline Medical</h1>
-        <p className="text-[14px] text-[#8E8E93] mt-1">Walk-ins welcome · Open today</p>
+        <p className="text-[14px] text-[#8E8E93] mt-1">
+          {openBranches.length > 0
+            ? 'Walk-ins welcome · Open today'
+            : branches.length === 1
+              ? closedLabel(branches[0])
+              : 'Not accepting new patients right now'}
+        </p>
       </div>
 
       {/* ── Form card ────────────────────────────────────── */}
@@ -73,6 +121,57 @@ const CustomerJoin: React.FC<CustomerJoinProps> = ({ branches, onJoin }) => {
       >
         <div className="p-6 space-y-5">
 
+          {/* Location */}
+          {branches.length > 0 && (
+            <div>
+              <label className="block text-[13px] font-medium text-[#3C3C43] mb-1.5">
+                Location
+              </label>
+              <div className="space-y-1.5">
+                {branches.map(branch => {
+                  const active = branch.id === selectedBranchId;
+                  const { waiting, estimatedWaitMinutes } = summarizeBranchQueue(tickets, branch, staff);
+                  const closed = !isTakingPatients(branch);
+                  return (
+                    <button
+                      key={branch.id}
+                      disabled={closed}
+                      onClick={() => setChosenBranchId(branch.id)}
+                      className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-[10px] text-left transition-all ${
+                        closed
+                          ? 'bg-[#F5F5F7] opacity-50 cursor-not-allowed'
+                          : active
+                            ? 'bg-[#EBF5FF]'
+                            : 'bg-[#F5F5F7] hover:bg-[#EBEBF0]'
+                      }`}
+                      style={active ? { border: '1px solid rgba(0,113,227,0.30)' } : { border: '1px solid transparent' }}
+                    >
+                      <MapPin size={15} className={active ? 'text-[#0071E3]' : 'text-[#AEAEB2]'} />
+                      <span className="flex-1 min-w-0">
+                        <span className={`block text-[13px] font-medium truncate ${active ? 'text-[#0071E3]' : 'text-[#1D1D1F]'}`}>
+                          {branch.name}
+                        </span>
+                        <span className="block text-[11px] text-[#8E8E93] truncate">{branch.address}</span>
+                      </span>
+                      <span className="text-right flex-shrink-0">
+                        {closed ? (
+                          <span className="block text-[11px] font-medium text-[#8E8E93]">{closedLabel(branch)}</span>
+                        ) : (
+                          <>
+                            <span className="block text-[12px] font-semibold text-[#1D1D1F] tabular-nums">
+                              ~{estimatedWaitMinutes} min
+                            </span>
+                            <span className="block text-[11px] text-[#8E8E93] tabular-nums">{waiting} waiting</span>
+                          </>
+                        )}
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           {/* Full Name */}
           <div>
             <label className="block text-[13px] font-medium text-[#3C3C43] mb-1.5">
@@ -126,8 +225,84 @@ const CustomerJoin: React.FC<CustomerJoinProps> = ({ branches, onJoin }) => {
                 );
               })}
             </div>
+            {visitReason === ServiceCategory.EMERGENCY && (
+              <p className="text-[12px] text-[#8E8E93] mt-1.5">
+                You'll be seen as a priority until reception assesses you. If it's life-threatening, call emergency services.
+              </p>
+            )}
           </div>
 
+          {/* Family members seen on the same ticket */}
+          <div>
+            <label className="block text-[13px] font-medium text-[#3C3C43] mb-1.5">
+              Family Members{' '}
+              <span className="text-[#AEAEB2] font-normal">— optional</span>
+            </label>
+            <div className="space-y-1.5">
+              {dependents.map((dependent, index) => (
+                <div key={index} className="flex items-center gap-1.5">
+                  <input
+                    type="text"
+                    value={dependent.name}
+                    onChange={e => updateDependent(index, { name: e.target.value })}
+                    placeholder="Name"
+                    className="flex-1 min-w-0 px-3 py-2 text-[14px] rounded-xl bg-[#F5F5F7] border border-transparent text-[#1D1D1F] placeholder:text-[#AEAEB2] outline-none focus:bg-white focus:border-[#0071E3]/60"
+                  />
+                  <select
+                    value={dependent.serviceCategory ?? ''}
+                    onChange={e => updateDependent(index, { serviceCategory: (e.target.value || undefined) as ServiceCategory | undefined })}
+                    className="w-[130px] px-2 py-2 rounded-xl bg-[#F5F5F7] text-[13px] text-[#1D1D1F] outline-none"
+                  >
+                    <option value="">Reason…</option>
+                    {VISIT_REASONS.map(({ value, label }) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => setDependents(dependents.filter((_, i) => i !== index))}
+                    className="p-2 rounded-lg text-[#8E8E93] hover:bg-[#F5F5F7]"
+                    aria-label="Remove family member"
+                  >
+                    <X size={14} />
+                  </button>
+                </div>
+              ))}
+              {dependents.length < MAX_DEPENDENTS && (
+                <button
+                  onClick={() => setDependents([...dependents, { name: '' }])}
+                  className="flex items-center gap-1.5 text-[13px] font-medium text-[#0071E3] py-1"
+                >
+                  <UserPlus size={14} /> Add someone to this visit
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* Preferred clinician */}
+          {branchClinicians.length > 0 && (
+            <div>
+              <label className="block text-[13px] font-medium text-[#3C3C43] mb-1.5">
+                Preferred Clinician{' '}
+                <span className="text-[#AEAEB2] font-normal">— optional</span>
+              </label>
+              <select
+                value={preferredClinicianId ?? ''}
+                onChange={e => setPreferredId(e.target.value)}
+                className="w-full px-3.5 py-2.5 rounded-xl bg-[#F5F5F7] text-[14px] text-[#1D1D1F] outline-none"
+              >
+                <option value="">No preference</option>
+                {branchClinicians.map(member => (
+                  <option key={member.id} value={member.id}>{member.name}</option>
+                ))}
+              </select>
+              {preferredClinicianId && (
+                <p className="text-[12px] text-[#8E8E93] mt-1.5">
+                  We'll hold your place for them, then offer you the next available clinician if the wait runs long.
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Notification Channel */}
           <div>
             <label className="block text-[13px] font-medium text-[#3C3C43] mb-1.5">
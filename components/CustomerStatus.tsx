@@ -1,28 +1,29 @@
 import React, { useState, useEffect } from 'react';
-import { Ticket, TicketStatus, BranchConfig, ServiceCategory, CommsChannel } from '../types';
+import { Ticket, TicketStatus, BranchConfig, CommsChannel, Room, StaffMember } from '../types';
 import { Users, Clock, Bell, ChevronLeft, Star, HeartPulse, MessageCircle } from 'lucide-react';
+import { estimateWaitForClinician, estimateWaitMinutes, waitingTickets } from '../utils/eta';
+import { SERVICE_CATEGORY_LABELS, heldFor, preferenceContext } from '../utils/routing';
+import { STAGE_LABELS, STAGE_PATIENT_LABELS, currentStage } from '../utils/pathways';
+import { headcount } from '../utils/party';
+import { describePriority, isFlagged, priorityPolicyFor } from '../utils/priorityFlags';
+import { currentPause, describePause } from '../utils/queuePause';
+import { movedAheadOf } from '../utils/triage';
 
-const VISIT_REASON_LABELS: Record<ServiceCategory, string> = {
-  [ServiceCategory.GENERAL_CHECKUP]: 'General Check-up',
-  [ServiceCategory.FOLLOW_UP]:       'Follow-up Visit',
-  [ServiceCategory.CONSULTATION]:    'Consultation',
-  [ServiceCategory.VACCINATION]:     'Vaccination',
-  [ServiceCategory.EMERGENCY]:       'Emergency / Urgent',
-  [ServiceCategory.LAB_RESULTS]:     'Lab Results',
-  [ServiceCategory.OTHER]:           'Other',
-};
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
 
 interface CustomerStatusProps {
   ticket: Ticket;
   allTickets: Ticket[];
   branch: BranchConfig;
+  rooms?: Room[];
+  staff?: StaffMember[];
   onCancel: () => void;
   onSubmitFeedback: (id: string, stars: number) => void;
   onConfirmInBuilding?: (id: string) => void;
 }
 
 const CustomerStatus: React.FC<CustomerStatusProps> = ({
-  ticket, allTickets, branch, onCancel, onSubmitFeedback, onConfirmInBuilding,
+  ticket, allTickets, branch, rooms = [], staff = [], onCancel, onSubmitFeedback, onConfirmInBuilding,
 }) => {
   const gracePeriodSeconds = branch.gracePeriodMinutes * 60;
   const [timeLeft, setTimeLeft]       = useState(gracePeriodSeconds);
@@ -31,18 +32,22 @@ const CustomerStatus: React.FC<CustomerStatusProps> = ({
   const OPTIN_KEY = `wa_optin_${ticket.id}`;
   const [waOptedIn, setWaOptedIn]     = useState(() => localStorage.getItem(OPTIN_KEY) === '1');
 
-  const activeTickets = allTickets.filter(t =>
-    t.branchId === ticket.branchId &&
-    (t.status === TicketStatus.WAITING ||
-     t.status === TicketStatus.REMOTE_WAITING ||
-     t.status === TicketStatus.CALLED ||
-     t.status === TicketStatus.ELIGIBLE_FOR_ENTRY ||
-     t.status === TicketStatus.ARRIVED ||
-     t.status === TicketStatus.IN_BUILDING),
-  );
-  const sortedTickets = [...activeTickets].sort((a, b) => a.queueNumber - b.queueNumber);
-  const peopleAhead   = sortedTickets.findIndex(t => t.id === ticket.id);
-  const eta           = (peopleAhead + 1) * branch.avgTransactionTime;
+  const policy        = priorityPolicyFor(branch);
+  const sortedTickets = waitingTickets(allTickets, ticket.branchId, policy);
+  // Families ahead count once per member
+  const peopleAhead   = headcount(sortedTickets.slice(0, Math.max(0, sortedTickets.findIndex(t => t.id === ticket.id))));
+  // Why anyone with a later number is ahead, and what priority access does for this patient
+  const movedAhead    = movedAheadOf(ticket, sortedTickets);
+  const urgentAhead   = movedAhead.filter(m => m.reason === 'triage').length;
+  const priorityAhead = movedAhead.length - urgentAhead;
+  const priorityNote  = describePriority(ticket, policy);
+  const placeHeld     = isFlagged(ticket) && policy.graceExempt;
+  const pause         = currentPause(branch);
+  // Patients held for the clinician they asked for wait on that clinician's own queue
+  const heldForClinician = heldFor(ticket, preferenceContext(branch, staff, Date.now()));
+  const eta = heldForClinician
+    ? estimateWaitForClinician(allTickets, branch, ticket, heldForClinician.id, staff)
+    : estimateWaitMinutes(allTickets, branch, peopleAhead, staff);
 
   useEffect(() => {
     let timer: ReturnType<typeof setInterval>;
@@ -72,6 +77,11 @@ const CustomerStatus: React.FC<CustomerStatusProps> = ({
   const isCalled     = ticket.status === TicketStatus.CALLED || ticket.status === TicketStatus.ELIGIBLE_FOR_ENTRY;
   const isInBuilding = ticket.status === TicketStatus.IN_BUILDING || ticket.status === TicketStatus.ARRIVED;
   const isInService  = ticket.status === TicketStatus.IN_SERVICE  || ticket.status === TicketStatus.IN_TRANSACTION;
+  const room = ticket.counterId ? rooms.find(r => r.id === ticket.counterId) : undefined;
+  const stage = currentStage(ticket);
+  const stageIndex = ticket.stageIndex ?? 0;
+  // Only visits with more than one station show where they are on the way
+  const isMultiStage = !!ticket.pathway && ticket.pathway.length > 1;
   const isCompleted  = ticket.status === TicketStatus.COMPLETED   || ticket.status === TicketStatus.SERVED;
 
   const formatTime = (seconds: number) => {
@@ -230,6 +240,12 @@ const CustomerStatus: React.FC<CustomerStatusProps> = ({
             >
               #{ticket.queueNumber}
             </span>
+            {ticket.checkInCode && (
+              <p className="text-[12px] mt-1.5" style={{ color: statusTheme.text }}>
+                Check-in code <span className="font-mono font-semibold tracking-wider">{ticket.checkInCode}</span>
+                {' '}— read this out at reception
+              </p>
+            )}
           </div>
 
           {/* Status block */}
@@ -249,7 +265,9 @@ const CustomerStatus: React.FC<CustomerStatusProps> = ({
               </p>
               {ticket.status === TicketStatus.ELIGIBLE_FOR_ENTRY && (
                 <p className="text-[12px] mt-1.5" style={{ color: statusTheme.accent, opacity: 0.7 }}>
-                  {branch.gracePeriodMinutes} minutes to confirm your arrival
+                  {placeHeld && timeLeft === 0
+                    ? 'Your place is held — check in when you arrive'
+                    : `${branch.gracePeriodMinutes} minutes to confirm your arrival`}
                 </p>
               )}
             </div>
@@ -262,7 +280,9 @@ const CustomerStatus: React.FC<CustomerStatusProps> = ({
                 You are in the waiting room
               </p>
               <p className="text-[13px] mt-0.5" style={{ color: statusTheme.accent, opacity: 0.8 }}>
-                A doctor or nurse will call you shortly.
+                {isMultiStage && stage
+                  ? `Next: ${STAGE_LABELS[stage]}. We'll call you shortly.`
+                  : 'A doctor or nurse will call you shortly.'}
               </p>
             </div>
           ) : isInService ? (
@@ -271,10 +291,12 @@ const CustomerStatus: React.FC<CustomerStatusProps> = ({
               style={{ background: statusTheme.badge }}
             >
               <p className="text-[13px] font-semibold" style={{ color: statusTheme.text }}>
-                Consultation in progress
+                {room ? `Please go to ${room.name}` : 'Consultation in progress'}
               </p>
               <p className="text-[13px] mt-0.5" style={{ color: statusTheme.accent, opacity: 0.8 }}>
-                You are currently with the doctor.
+                {room
+                  ? `${capitalize(stage ? STAGE_PATIENT_LABELS[stage] : 'the doctor')} is ready for you.`
+                  : `You are currently with ${stage ? STAGE_PATIENT_LABELS[stage] : 'the doctor'}.`}
               </p>
             </div>
           ) : (
@@ -298,7 +320,7 @@ const CustomerStatus: React.FC<CustomerStatusProps> = ({
                 style={{ background: statusTheme.badge }}
               >
                 <p className="text-[11px] font-semibold uppercase tracking-wider mb-1.5" style={{ color: statusTheme.accent, opacity: 0.6 }}>
-                  Est. wait
+                  {heldForClinician ? `Wait for ${heldForClinician.name}` : 'Est. wait'}
                 </p>
                 <div className="flex items-center gap-2">
                   <Clock size={15} style={{ color: statusTheme.accent }} />
@@ -354,11 +376,86 @@ const CustomerStatus: React.FC<CustomerStatusProps> = ({
                 Visit reason
               </p>
               <p className="text-[14px] font-medium text-[#1D1D1F]">
-                {VISIT_REASON_LABELS[ticket.serviceCategory] ?? ticket.serviceCategory.replace(/_/g, ' ')}
+                {SERVICE_CATEGORY_LABELS[ticket.serviceCategory] ?? ticket.serviceCategory.replace(/_/g, ' ')}
               </p>
             </div>
           )}
 
+          {/* Family members on this ticket */}
+          {ticket.dependents && ticket.dependents.length > 0 && (
+            <div className="px-4 py-3 bg-[#F5F5F7] rounded-xl">
+              <p className="text-[11px] font-semibold text-[#AEAEB2] uppercase tracking-wider mb-1">
+                Also being seen
+              </p>
+              {ticket.dependents.map((dependent, index) => (
+                <p key={index} className="text-[14px] font-medium text-[#1D1D1F]">
+                  {dependent.name}
+                  {dependent.serviceCategory && (
+                    <span className="text-[#8E8E93] font-normal"> · {SERVICE_CATEGORY_LABELS[dependent.serviceCategory]}</span>
+                  )}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {/* Queue paused — patients outside keep their place */}
+          {pause && (ticket.status === TicketStatus.REMOTE_WAITING || ticket.status === TicketStatus.WAITING) && (
+            <div className="px-4 py-3 bg-[#FFF8EB] rounded-xl">
+              <p className="text-[13px] font-semibold text-[#FF9500]">The queue is paused</p>
+              <p className="text-[13px] text-[#3C3C43] mt-0.5">
+                {describePause(pause) ? `${capitalize(describePause(pause))}.` : 'The clinic has stopped calling patients in for now.'} You keep your place.
+              </p>
+            </div>
+          )}
+
+          {/* Queue order explained */}
+          {(priorityNote || movedAhead.length > 0) && (
+            <div className="px-4 py-3 bg-[#F5F5F7] rounded-xl">
+              <p className="text-[11px] font-semibold text-[#AEAEB2] uppercase tracking-wider mb-1">
+                Your place in the queue
+              </p>
+              {priorityNote && (
+                <p className="text-[13px] text-[#1D1D1F]">Priority access — {priorityNote}.</p>
+              )}
+              {movedAhead.length > 0 && (
+                <p className="text-[13px] text-[#3C3C43] mt-0.5">
+                  {movedAhead.length} {movedAhead.length === 1 ? 'patient who joined after you was' : 'patients who joined after you were'} moved ahead
+                  {urgentAhead > 0 && ` — ${urgentAhead} for clinical urgency`}
+                  {priorityAhead > 0 && `${urgentAhead > 0 ? ',' : ' —'} ${priorityAhead} under the clinic's priority access policy`}.
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Pathway stepper */}
+          {isMultiStage && (
+            <div className="px-4 py-3 bg-[#F5F5F7] rounded-xl">
+              <p className="text-[11px] font-semibold text-[#AEAEB2] uppercase tracking-wider mb-2">
+                Your visit
+              </p>
+              <div className="flex flex-wrap items-center gap-1.5">
+                {ticket.pathway!.map((step, index) => {
+                  const done = index < stageIndex || isCompleted;
+                  const current = index === stageIndex && !isCompleted;
+                  return (
+                    <React.Fragment key={`${step}-${index}`}>
+                      {index > 0 && <span className="text-[12px] text-[#D1D1D6]">→</span>}
+                      <span
+                        className="px-2.5 py-1 rounded-full text-[12px] font-medium"
+                        style={{
+                          background: current ? '#0071E3' : done ? '#E8F8ED' : '#FFFFFF',
+                          color: current ? '#FFFFFF' : done ? '#16A34A' : '#8E8E93',
+                        }}
+                      >
+                        {STAGE_LABELS[step]}
+                      </span>
+                    </React.Fragment>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           {/* Action button */}
           {ticket.status === TicketStatus.ELIGIBLE_FOR_ENTRY && onConfirmInBuilding ? (
             <button
@@ -1,6 +1,7 @@
 
 import React from 'react';
-import { User, ClipboardList, Stethoscope, RefreshCw, BarChart3, HeartPulse } from 'lucide-react';
+import { User, ClipboardList, Stethoscope, RefreshCw, BarChart3, HeartPulse, ChevronDown } from 'lucide-react';
+import { BranchConfig, ConnectionStatus } from '../types';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -9,6 +10,11 @@ interface LayoutProps {
   resetAll: () => void;
   userRole?: 'customer' | 'receptionist' | 'teller' | 'manager';
   branchName?: string;
+  connectionStatus?: ConnectionStatus;
+  // Branch switcher for staff views; hidden when there is only one branch
+  branches?: Pick<BranchConfig, 'id' | 'name'>[];
+  selectedBranchId?: string;
+  onSelectBranch?: (branchId: string) => void;
 }
 
 const NAV_ITEMS = [
@@ -18,9 +24,21 @@ const NAV_ITEMS = [
   { id: 'manager',      label: 'Analytics',    icon: BarChart3 },
 ] as const;
 
+const CONNECTION_LABELS: Record<ConnectionStatus, { label: string; color: string }> = {
+  connecting:   { label: 'Connecting…',   color: '#FF9F0A' },
+  live:         { label: 'Live',          color: '#34C759' },
+  reconnecting: { label: 'Reconnecting…', color: '#FF9F0A' },
+  offline:      { label: 'Offline',       color: '#FF3B30' },
+  local:        { label: 'Local only',    color: '#AEAEB2' },
+};
+
 export const Layout: React.FC<LayoutProps> = ({
-  children, view, setView, resetAll, branchName,
+  children, view, setView, resetAll, branchName, connectionStatus,
+  branches = [], selectedBranchId, onSelectBranch,
 }) => {
+  const connection = connectionStatus && CONNECTION_LABELS[connectionStatus];
+  const canSwitchBranch = view !== 'customer' && branches.length > 1 && !!onSelectBranch;
+
   return (
     <div className="flex flex-col" style={{ height: '100vh', background: '#F5F5F7' }}>
 
@@ -46,9 +64,33 @@ export const Layout: React.FC<LayoutProps> = ({
             </div>
             <div className="leading-none min-w-0">
               <span className="block text-[15px] font-semibold text-[#1D1D1F] tracking-tight">DocQline</span>
-              {branchName && (
+              {canSwitchBranch ? (
+                <label className="relative flex items-center gap-0.5 mt-[2px] text-[11px] text-[#0071E3] font-medium cursor-pointer">
+                  <select
+                    value={selectedBranchId}
+                    onChange={e => onSelectBranch!(e.target.value)}
+                    className="appearance-none bg-transparent outline-none cursor-pointer pr-3.5 truncate"
+                    title="Switch branch"
+                  >
+                    {branches.map(b => (
+                      <option key={b.id} value={b.id}>{b.name}</option>
+                    ))}
+                  </select>
+                  <ChevronDown size={11} className="absolute right-0 pointer-events-none" />
+                </label>
+              ) : branchName && (
                 <span className="block text-[11px] text-[#8E8E93] mt-[2px] truncate">{branchName}</span>
               )}
+              {connection && (
+                <span
+                  className="flex items-center gap-1 text-[10px] font-medium mt-[3px]"
+                  style={{ color: connection.color }}
+                  title="Queue updates from other devices"
+                >
+                  <span className="h-1.5 w-1.5 rounded-full" style={{ background: connection.color }} />
+                  {connection.label}
+                </span>
+              )}
             </div>
           </div>
 
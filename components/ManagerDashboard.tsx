@@ -1,11 +1,27 @@
 import React, { useMemo, useEffect, useState, useRef } from 'react';
-import { Ticket, BranchConfig } from '../types';
-import { BarChart3, TrendingUp, Calendar, Clock } from 'lucide-react';
+import { Ticket, BranchConfig, GraceOutcome, GracePolicy, Room, ServiceCategory, PriorityPolicy, StaffMember, TicketStatus, UserRole, VisitStage } from '../types';
+import { BarChart3, TrendingUp, Calendar, Clock, DoorOpen, History, Plus, Settings, Timer, Trash2, Users, X } from 'lucide-react';
 import { generateMockTickets } from '../utils/mockData';
+import { STAFF_ROLES, isClinician, isManager, staffName } from '../utils/staffRepository';
+import { BranchConfigPatch, InvalidBranchConfigError, validateBranchPatch } from '../utils/branchRepository';
+import { DEFAULT_PREFERENCE_HOLD_MINUTES, SERVICE_CATEGORY_LABELS } from '../utils/routing';
+import { STAGE_LABELS, stagesFor } from '../utils/pathways';
+import { DEFAULT_PRIORITY_POLICY, priorityPolicyFor } from '../utils/priorityFlags';
+import { DEFAULT_GRACE_POLICY, GRACE_OUTCOME_LABELS, gracePolicyFor, graceOutcomeCounts } from '../utils/gracePolicy';
+import { waitExcludingPauses } from '../utils/queuePause';
+import { isStatus } from '../utils/ticketStateMachine';
 
 interface ManagerDashboardProps {
   tickets: Ticket[];
   branch: BranchConfig;
+  rooms?: Room[];
+  onSaveRoom?: (room: Room) => void;
+  onRemoveRoom?: (id: string) => void;
+  staff?: StaffMember[];
+  onSaveStaffMember?: (member: StaffMember) => void;
+  managerId?: string;
+  onSelectManager?: (staffId: string) => void;
+  onUpdateBranch?: (patch: BranchConfigPatch) => void;
   onAddMockData?: (mockTickets: Ticket[]) => void;
 }
 
@@ -26,9 +42,20 @@ interface PeakAnalytics {
   };
 }
 
-const ManagerDashboard: React.FC<ManagerDashboardProps> = ({ tickets, branch, onAddMockData }) => {
+interface ClinicianStat {
+  id: string;
+  name: string;
+  inDirectory: boolean;           // false for ids typed before the staff directory existed
+  patientsSeen: number;
+  avgConsultMinutes?: number;
+}
+
+const ManagerDashboard: React.FC<ManagerDashboardProps> = ({
+  tickets, branch, rooms = [], onSaveRoom, onRemoveRoom, staff = [], onSaveStaffMember,
+  managerId, onSelectManager, onUpdateBranch, onAddMockData,
+}) => {
   const [graphView, setGraphView] = useState<'hours' | 'days' | 'months'>('hours');
-  const [activeTab, setActiveTab] = useState<'data' | 'analytics'>('analytics');
+  const [activeTab, setActiveTab] = useState<'data' | 'analytics' | 'rooms' | 'staff' | 'settings'>('analytics');
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   
   // Auto-generate mock data if no tickets exist
@@ -218,10 +245,10 @@ const ManagerDashboard: React.FC<ManagerDashboardProps> = ({ tickets, branch, on
 
     const daysDiff = Math.max(1, Math.ceil((latestDate.getTime() - earliestDate.getTime()) / (1000 * 60 * 60 * 24)) + 1);
     
-    // Calculate average wait time
+    // Calculate average wait time, leaving out time the queue was paused
     const ticketsWithWaitTime = branchTickets.filter(t => t.waitTimeMinutes !== undefined);
     const avgWaitTime = ticketsWithWaitTime.length > 0
-      ? ticketsWithWaitTime.reduce((sum, t) => sum + (t.waitTimeMinutes || 0), 0) / ticketsWithWaitTime.length
+      ? ticketsWithWaitTime.reduce((sum, t) => sum + (waitExcludingPauses(t, branch) || 0), 0) / ticketsWithWaitTime.length
       : 0;
 
     // Calculate average customers per day
@@ -249,7 +276,7 @@ const ManagerDashboard: React.FC<ManagerDashboardProps> = ({ tickets, branch, on
       peakQuarterOfYear: peakQuarterOfYearEntry,
       averages,
     } as PeakAnalytics;
-  }, [tickets, branch.id]);
+  }, [tickets, branch.id, branch.pauseHistory]);
 
   // Must be declared before any early return to satisfy Rules of Hooks
   const selectedDateData = useMemo(() => {
@@ -274,7 +301,7 @@ const ManagerDashboard: React.FC<ManagerDashboardProps> = ({ tickets, branch, on
         hourCounts[hour] = (hourCounts[hour] || 0) + 1;
       }
       if (ticket.waitTimeMinutes !== undefined) {
-        totalWaitTime += ticket.waitTimeMinutes;
+        totalWaitTime += waitExcludingPauses(ticket, branch) || 0;
       }
       if (ticket.isNoShow === true) {
         noShows++;
@@ -292,7 +319,36 @@ const ManagerDashboard: React.FC<ManagerDashboardProps> = ({ tickets, branch, on
       cumulativeWaitTime: totalWaitTime,
       totalNoShows: noShows
     };
-  }, [tickets, branch.id, selectedDate]);
+  }, [tickets, branch.id, branch.pauseHistory, selectedDate]);
+
+  // Patients seen and average consultation length per clinician, named from the staff directory
+  const clinicianStats = useMemo<ClinicianStat[]>(() => {
+    const served = tickets.filter(t =>
+      t.branchId === branch.id && t.tellerId && isStatus(t.status, TicketStatus.SERVED),
+    );
+    const ids = [...new Set<string>(served.map(t => t.tellerId!))];
+    return ids
+      .map(id => {
+        const theirs = served.filter(t => t.tellerId === id);
+        const durations = theirs
+          .filter(t => t.transactionStartedAt && t.transactionEndedAt)
+          .map(t => (t.transactionEndedAt! - t.transactionStartedAt!) / 60000);
+        return {
+          id,
+          name: staffName(staff, id),
+          inDirectory: staff.some(m => m.id === id),
+          patientsSeen: theirs.length,
+          avgConsultMinutes: durations.length > 0 ? durations.reduce((a, b) => a + b, 0) / durations.length : undefined,
+        };
+      })
+      .sort((a, b) => b.patientsSeen - a.patientsSeen);
+  }, [tickets, branch.id, staff]);
+
+  // What missed check-in windows led to, from the decisions logged on each ticket
+  const graceOutcomes = useMemo(
+    () => graceOutcomeCounts(tickets.filter(t => t.branchId === branch.id)),
+    [tickets, branch.id],
+  );
 
   if (!analytics) {
     return null; // useEffect above will auto-generate mock data and trigger re-render
@@ -340,6 +396,48 @@ const ManagerDashboard: React.FC<ManagerDashboardProps> = ({ tickets, branch, on
           >
             Analytics
           </button>
+          {onSaveRoom && (
+            <button
+              onClick={() => setActiveTab('rooms')}
+              className={`px-4 py-1.5 rounded-[8px] text-[13px] font-medium transition-all duration-200 ${
+                activeTab === 'rooms' ? 'text-[#0071E3]' : 'text-[#6E6E73] hover:text-[#1D1D1F]'
+              }`}
+              style={activeTab === 'rooms' ? {
+                background: '#FFFFFF',
+                boxShadow: '0 1px 4px rgba(0,0,0,0.10), 0 0 0 0.5px rgba(0,0,0,0.06)',
+              } : undefined}
+            >
+              Rooms
+            </button>
+          )}
+          {onSaveStaffMember && (
+            <button
+              onClick={() => setActiveTab('staff')}
+              className={`px-4 py-1.5 rounded-[8px] text-[13px] font-medium transition-all duration-200 ${
+                activeTab === 'staff' ? 'text-[#0071E3]' : 'text-[#6E6E73] hover:text-[#1D1D1F]'
+              }`}
+              style={activeTab === 'staff' ? {
+                background: '#FFFFFF',
+                boxShadow: '0 1px 4px rgba(0,0,0,0.10), 0 0 0 0.5px rgba(0,0,0,0.06)',
+              } : undefined}
+            >
+              Staff
+            </button>
+          )}
+          {onUpdateBranch && (
+            <button
+              onClick={() => setActiveTab('settings')}
+              className={`px-4 py-1.5 rounded-[8px] text-[13px] font-medium transition-all duration-200 ${
+                activeTab === 'settings' ? 'text-[#0071E3]' : 'text-[#6E6E73] hover:text-[#1D1D1F]'
+              }`}
+              style={activeTab === 'settings' ? {
+                background: '#FFFFFF',
+                boxShadow: '0 1px 4px rgba(0,0,0,0.10), 0 0 0 0.5px rgba(0,0,0,0.06)',
+              } : undefined}
+            >
+              Settings
+            </button>
+          )}
         </div>
       </div>
 
@@ -349,18 +447,366 @@ const ManagerDashboard: React.FC<ManagerDashboardProps> = ({ tickets, branch, on
           setSelectedDate={setSelectedDate}
           data={selectedDateData}
         />
+      ) : activeTab === 'settings' && onUpdateBranch ? (
+        <SettingsView
+          key={branch.id}
+          branch={branch}
+          staff={staff}
+          managerId={managerId}
+          onSelectManager={onSelectManager}
+          onUpdateBranch={onUpdateBranch}
+        />
+      ) : activeTab === 'staff' && onSaveStaffMember ? (
+        <StaffView branch={branch} staff={staff} onSaveStaffMember={onSaveStaffMember} />
+      ) : activeTab === 'rooms' && onSaveRoom ? (
+        <RoomsView
+          branch={branch}
+          rooms={rooms.filter(r => r.branchId === branch.id)}
+          staff={staff}
+          onSaveRoom={onSaveRoom}
+          onRemoveRoom={onRemoveRoom}
+        />
       ) : (
         <AnalyticsView 
           analytics={analytics}
           graphView={graphView}
           setGraphView={setGraphView}
           monthNames={monthNames}
+          clinicianStats={clinicianStats}
+          graceOutcomes={graceOutcomes}
         />
       )}
     </div>
   );
 };
 
+// Visit reasons a clinician or room handles; no list means any
+interface CategoryPickerProps {
+  value?: ServiceCategory[];
+  onChange: (value: ServiceCategory[] | undefined) => void;
+}
+
+const ALL_CATEGORIES = Object.values(ServiceCategory);
+
+const CategoryPicker: React.FC<CategoryPickerProps> = ({ value, onChange }) => {
+  const selected = value ?? ALL_CATEGORIES;
+  const toggle = (category: ServiceCategory) => {
+    const next = selected.includes(category)
+      ? selected.filter(c => c !== category)
+      : [...selected, category];
+    onChange(next.length === ALL_CATEGORIES.length ? undefined : next);
+  };
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {ALL_CATEGORIES.map(category => (
+        <button
+          key={category}
+          onClick={() => toggle(category)}
+          className={`px-2 py-0.5 rounded-md text-[11px] font-medium transition-all ${
+            selected.includes(category) ? 'bg-[#EBF5FF] text-[#0071E3]' : 'bg-white text-[#AEAEB2] line-through'
+          }`}
+        >
+          {SERVICE_CATEGORY_LABELS[category]}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+interface StagePickerProps {
+  member: StaffMember;
+  onChange: (value: VisitStage[] | undefined) => void;
+}
+
+const ALL_STAGES = Object.values(VisitStage);
+
+// Stations a clinician works; matching the role's default stores nothing
+const StagePicker: React.FC<StagePickerProps> = ({ member, onChange }) => {
+  const selected = stagesFor(member);
+  const roleDefault = stagesFor({ role: member.role });
+  const toggle = (stage: VisitStage) => {
+    const next = ALL_STAGES.filter(s => (s === stage ? !selected.includes(s) : selected.includes(s)));
+    const isDefault = next.length === roleDefault.length && next.every(s => roleDefault.includes(s));
+    onChange(isDefault ? undefined : next);
+  };
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {ALL_STAGES.map(stage => (
+        <button
+          key={stage}
+          onClick={() => toggle(stage)}
+          className={`px-2 py-0.5 rounded-md text-[11px] font-medium transition-all ${
+            selected.includes(stage) ? 'bg-[#F0FDF4] text-[#16A34A]' : 'bg-white text-[#AEAEB2] line-through'
+          }`}
+        >
+          {STAGE_LABELS[stage]}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+// Staff View Component
+interface StaffViewProps {
+  branch: BranchConfig;
+  staff: StaffMember[];
+  onSaveStaffMember: (member: StaffMember) => void;
+}
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const ROLE_LABELS: Record<(typeof STAFF_ROLES)[number], string> = {
+  [UserRole.DOCTOR]: 'Doctor',
+  [UserRole.NURSE]: 'Nurse',
+  [UserRole.RECEPTIONIST]: 'Receptionist',
+  [UserRole.MANAGER]: 'Manager',
+};
+
+const StaffView: React.FC<StaffViewProps> = ({ branch, staff, onSaveStaffMember }) => {
+  const [newName, setNewName] = useState('');
+  const [newRole, setNewRole] = useState<UserRole>(UserRole.DOCTOR);
+  const [shiftDraft, setShiftDraft] = useState({ dayOfWeek: 1, start: '08:00', end: '16:00' });
+
+  const addMember = () => {
+    const name = newName.trim();
+    if (!name) return;
+    onSaveStaffMember({
+      id: `${newRole.toLowerCase()}-${crypto.randomUUID().slice(0, 8)}`,
+      name,
+      role: newRole,
+      shifts: [],
+      onBreak: false,
+      isActive: true,
+    });
+    setNewName('');
+  };
+
+  return (
+    <div className="bg-white rounded-2xl p-6" style={{ boxShadow: '0 2px 12px rgba(0,0,0,0.06)' }}>
+      <h3 className="text-[15px] font-semibold text-[#1D1D1F] flex items-center gap-2 mb-1">
+        <Users size={17} className="text-[#0071E3]" />
+        Staff directory
+      </h3>
+      <p className="text-[12px] text-[#8E8E93] mb-4">
+        Shifts shown are at {branch.name}. Pick a day and hours below, then add them to a staff member.
+      </p>
+
+      <div className="flex gap-2 mb-4">
+        <select
+          value={shiftDraft.dayOfWeek}
+          onChange={e => setShiftDraft({ ...shiftDraft, dayOfWeek: Number(e.target.value) })}
+          className="px-3 py-2 rounded-xl bg-[#F5F5F7] text-[13px] outline-none"
+        >
+          {DAY_NAMES.map((day, index) => <option key={day} value={index}>{day}</option>)}
+        </select>
+        <input
+          type="time"
+          value={shiftDraft.start}
+          onChange={e => setShiftDraft({ ...shiftDraft, start: e.target.value })}
+          className="px-3 py-2 rounded-xl bg-[#F5F5F7] text-[13px] outline-none"
+        />
+        <input
+          type="time"
+          value={shiftDraft.end}
+          onChange={e => setShiftDraft({ ...shiftDraft, end: e.target.value })}
+          className="px-3 py-2 rounded-xl bg-[#F5F5F7] text-[13px] outline-none"
+        />
+      </div>
+
+      <div className="space-y-2">
+        {staff.map(member => {
+          const shifts = member.shifts.filter(s => s.branchId === branch.id);
+          return (
+            <div key={member.id} className={`px-3.5 py-3 bg-[#F5F5F7] rounded-xl ${member.isActive === false ? 'opacity-50' : ''}`}>
+              <div className="flex items-center gap-3">
+                <input
+                  type="text"
+                  defaultValue={member.name}
+                  onBlur={e => e.target.value.trim() !== member.name && onSaveStaffMember({ ...member, name: e.target.value.trim() })}
+                  className="flex-1 min-w-0 bg-transparent text-[14px] font-medium text-[#1D1D1F] outline-none"
+                />
+                <select
+                  value={member.role}
+                  onChange={e => onSaveStaffMember({ ...member, role: e.target.value as UserRole })}
+                  className="px-2.5 py-1.5 rounded-lg bg-white text-[13px] outline-none"
+                >
+                  {STAFF_ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                </select>
+                {member.onBreak && (
+                  <span className="px-2 py-1 rounded-lg text-[11px] font-semibold bg-[#FFF8EB] text-[#FF9500]">On break</span>
+                )}
+                <button
+                  onClick={() => onSaveStaffMember({ ...member, isActive: member.isActive === false })}
+                  className="px-3 py-1.5 rounded-lg text-[12px] font-semibold bg-white text-[#8E8E93]"
+                >
+                  {member.isActive === false ? 'Reactivate' : 'Deactivate'}
+                </button>
+              </div>
+              {isClinician(member) && (
+                <div className="mt-2 space-y-1.5">
+                  <CategoryPicker
+                    value={member.serviceCategories}
+                    onChange={serviceCategories => onSaveStaffMember({ ...member, serviceCategories })}
+                  />
+                  <StagePicker
+                    member={member}
+                    onChange={stages => onSaveStaffMember({ ...member, stages })}
+                  />
+                </div>
+              )}
+              <div className="flex flex-wrap gap-1.5 mt-2">
+                {shifts.map((shift, index) => (
+                  <span key={index} className="flex items-center gap-1 px-2 py-1 rounded-lg bg-white text-[12px] text-[#3C3C43] tabular-nums">
+                    {DAY_NAMES[shift.dayOfWeek]} {shift.start}–{shift.end}
+                    <button
+                      onClick={() => onSaveStaffMember({ ...member, shifts: member.shifts.filter(s => s !== shift) })}
+                      className="text-[#AEAEB2] hover:text-[#FF3B30]"
+                      title="Remove shift"
+                    >
+                      <X size={12} />
+                    </button>
+                  </span>
+                ))}
+                <button
+                  onClick={() => onSaveStaffMember({ ...member, shifts: [...member.shifts, { branchId: branch.id, ...shiftDraft }] })}
+                  className="flex items-center gap-1 px-2 py-1 rounded-lg text-[12px] font-medium text-[#0071E3] hover:bg-white"
+                >
+                  <Plus size={12} /> Add shift
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-2 mt-4">
+        <input
+          type="text"
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && addMember()}
+          placeholder="e.g. Dr. Maya Chen"
+          className="flex-1 px-3.5 py-2.5 text-[14px] rounded-xl bg-[#F5F5F7] text-[#1D1D1F] placeholder:text-[#AEAEB2] outline-none"
+        />
+        <select
+          value={newRole}
+          onChange={e => setNewRole(e.target.value as UserRole)}
+          className="px-3 py-2.5 rounded-xl bg-[#F5F5F7] text-[13px] outline-none"
+        >
+          {STAFF_ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+        </select>
+        <button
+          disabled={!newName.trim()}
+          onClick={addMember}
+          className="px-4 py-2.5 rounded-xl text-[13px] font-semibold flex items-center gap-1.5 bg-[#0071E3] text-white disabled:bg-[#E5E5EA] disabled:text-[#AEAEB2]"
+        >
+          <Plus size={15} /> Add staff
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Rooms View Component
+interface RoomsViewProps {
+  branch: BranchConfig;
+  rooms: Room[];
+  staff: StaffMember[];
+  onSaveRoom: (room: Room) => void;
+  onRemoveRoom?: (id: string) => void;
+}
+
+const RoomsView: React.FC<RoomsViewProps> = ({ branch, rooms, staff, onSaveRoom, onRemoveRoom }) => {
+  const [newRoomName, setNewRoomName] = useState('');
+
+  const addRoom = () => {
+    const name = newRoomName.trim();
+    if (!name) return;
+    onSaveRoom({ id: `${branch.id}-room-${crypto.randomUUID().slice(0, 8)}`, branchId: branch.id, name, isOpen: false });
+    setNewRoomName('');
+  };
+
+  return (
+    <div className="bg-white rounded-2xl p-6" style={{ boxShadow: '0 2px 12px rgba(0,0,0,0.06)' }}>
+      <h3 className="text-[15px] font-semibold text-[#1D1D1F] flex items-center gap-2 mb-4">
+        <DoorOpen size={17} className="text-[#0071E3]" />
+        Consultation rooms · {branch.name}
+      </h3>
+
+      <div className="space-y-2">
+        {rooms.map(room => (
+          <div key={room.id} className="px-3.5 py-2.5 bg-[#F5F5F7] rounded-xl">
+            <div className="flex items-center gap-3">
+              <input
+                type="text"
+                defaultValue={room.name}
+                onBlur={e => e.target.value.trim() !== room.name && onSaveRoom({ ...room, name: e.target.value.trim() })}
+                className="flex-1 min-w-0 bg-transparent text-[14px] font-medium text-[#1D1D1F] outline-none"
+              />
+              <select
+                value={room.clinicianId ?? ''}
+                onChange={e => onSaveRoom({ ...room, clinicianId: e.target.value || undefined })}
+                className="w-40 px-2.5 py-1.5 rounded-lg bg-white text-[13px] text-[#1D1D1F] outline-none"
+              >
+                <option value="">No clinician</option>
+                {staff.filter(m => m.isActive !== false && isClinician(m)).map(member => (
+                  <option key={member.id} value={member.id}>{member.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => onSaveRoom({ ...room, isOpen: !room.isOpen })}
+                className={`px-3 py-1.5 rounded-lg text-[12px] font-semibold transition-all ${
+                  room.isOpen ? 'bg-[#F0FDF4] text-[#16A34A]' : 'bg-white text-[#8E8E93]'
+                }`}
+              >
+                {room.isOpen ? 'Open' : 'Closed'}
+              </button>
+              {onRemoveRoom && (
+                <button
+                  onClick={() => onRemoveRoom(room.id)}
+                  className="p-1.5 text-[#AEAEB2] hover:text-[#FF3B30] transition-colors"
+                  title="Remove room"
+                >
+                  <Trash2 size={15} />
+                </button>
+              )}
+            </div>
+            <div className="mt-2">
+              <CategoryPicker
+                value={room.serviceCategories}
+                onChange={serviceCategories => onSaveRoom({ ...room, serviceCategories })}
+              />
+            </div>
+          </div>
+        ))}
+        {rooms.length === 0 && (
+          <p className="text-[13px] text-[#AEAEB2] py-4 text-center">No rooms set up for this branch yet.</p>
+        )}
+      </div>
+
+      <div className="flex gap-2 mt-4">
+        <input
+          type="text"
+          value={newRoomName}
+          onChange={e => setNewRoomName(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && addRoom()}
+          placeholder="e.g. Room 4"
+          className="flex-1 px-3.5 py-2.5 text-[14px] rounded-xl bg-[#F5F5F7] text-[#1D1D1F] placeholder:text-[#AEAEB2] outline-none"
+        />
+        <button
+          disabled={!newRoomName.trim()}
+          onClick={addRoom}
+          className="px-4 py-2.5 rounded-xl text-[13px] font-semibold flex items-center gap-1.5 bg-[#0071E3] text-white disabled:bg-[#E5E5EA] disabled:text-[#AEAEB2]"
+        >
+          <Plus size={15} /> Add room
+        </button>
+      </div>
+    </div>
+  );
+};
+
 // Data View Component
 interface DataViewProps {
   selectedDate: Date;
@@ -596,9 +1042,11 @@ interface AnalyticsViewProps {
   graphView: 'hours' | 'days' | 'months';
   setGraphView: (view: 'hours' | 'days' | 'months') => void;
   monthNames: string[];
+  clinicianStats: ClinicianStat[];
+  graceOutcomes: Record<GraceOutcome, number>;
 }
 
-const AnalyticsView: React.FC<AnalyticsViewProps> = ({ analytics, graphView, setGraphView, monthNames }) => {
+const AnalyticsView: React.FC<AnalyticsViewProps> = ({ analytics, graphView, setGraphView, monthNames, clinicianStats, graceOutcomes }) => {
   return (
     <>
       {/* Peak Hours/Days/Months Line Graph */}
@@ -672,6 +1120,50 @@ const AnalyticsView: React.FC<AnalyticsViewProps> = ({ analytics, graphView, set
           <p className="text-[12px] text-[#AEAEB2]">{analytics.peakQuarterOfYear.count} patients</p>
         </div>
       </div>
+
+      {/* Per-clinician breakdown */}
+      {clinicianStats.length > 0 && (
+        <div className="bg-white rounded-2xl p-6" style={{ boxShadow: '0 2px 12px rgba(0,0,0,0.06)' }}>
+          <h3 className="text-[15px] font-semibold text-[#1D1D1F] flex items-center gap-2 mb-4">
+            <Users size={16} className="text-[#0071E3]" />
+            By clinician
+          </h3>
+          <div className="space-y-1.5">
+            {clinicianStats.map(stat => (
+              <div key={stat.id} className="flex items-center gap-3 px-3.5 py-2.5 bg-[#F5F5F7] rounded-xl">
+                <span className="flex-1 min-w-0 text-[14px] font-medium text-[#1D1D1F] truncate">
+                  {stat.name}
+                  {!stat.inDirectory && <span className="text-[12px] font-normal text-[#FF9500]"> · not in staff directory</span>}
+                </span>
+                <span className="text-[13px] text-[#3C3C43] tabular-nums">{stat.patientsSeen} seen</span>
+                <span className="w-24 text-right text-[13px] text-[#8E8E93] tabular-nums">
+                  {stat.avgConsultMinutes !== undefined ? `${stat.avgConsultMinutes.toFixed(1)} min avg` : '—'}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Grace-period outcomes */}
+      <div className="bg-white rounded-2xl p-6" style={{ boxShadow: '0 2px 12px rgba(0,0,0,0.06)' }}>
+        <h3 className="text-[15px] font-semibold text-[#1D1D1F] flex items-center gap-2 mb-4">
+          <Timer size={16} className="text-[#0071E3]" />
+          Missed check-ins
+        </h3>
+        {Object.values<number>(graceOutcomes).some(count => count > 0) ? (
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {(Object.keys(GRACE_OUTCOME_LABELS) as GraceOutcome[]).map(outcome => (
+              <div key={outcome} className="px-3.5 py-2.5 bg-[#F5F5F7] rounded-xl">
+                <p className="text-[20px] font-semibold text-[#1D1D1F] tabular-nums">{graceOutcomes[outcome]}</p>
+                <p className="text-[12px] text-[#8E8E93]">{GRACE_OUTCOME_LABELS[outcome]}</p>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-[13px] text-[#AEAEB2]">No check-in windows have run out yet.</p>
+        )}
+      </div>
     </>
   );
 };
@@ -864,4 +1356,319 @@ const PeakHoursLineGraph: React.FC<PeakHoursLineGraphProps> = ({ data, type }) =
   );
 };
 
+// Settings View Component
+interface SettingsViewProps {
+  branch: BranchConfig;
+  staff: StaffMember[];
+  managerId?: string;
+  onSelectManager?: (staffId: string) => void;
+  onUpdateBranch: (patch: BranchConfigPatch) => void;
+}
+
+type NumericSetting = 'maxInBuilding' | 'gracePeriodMinutes' | 'avgTransactionTime' | 'preferenceHoldMinutes';
+
+// `min` mirrors validateBranchPatch, for the error message
+const NUMERIC_SETTINGS: { field: NumericSetting; label: string; unit: string; min: number; fallback?: number }[] = [
+  { field: 'maxInBuilding', label: 'Waiting room capacity', unit: 'patients', min: 1 },
+  { field: 'gracePeriodMinutes', label: 'Check-in grace period', unit: 'min', min: 0 },
+  { field: 'avgTransactionTime', label: 'Average consultation', unit: 'min', min: 1 },
+  { field: 'preferenceHoldMinutes', label: 'Hold for preferred clinician', unit: 'min', min: 0, fallback: DEFAULT_PREFERENCE_HOLD_MINUTES },
+];
+
+const SETTING_LABELS: Partial<Record<keyof BranchConfig, string>> = {
+  ...Object.fromEntries(NUMERIC_SETTINGS.map(({ field, label }) => [field, label])),
+  excludeInServiceFromCapacity: 'Exclude patients in consultation from capacity',
+  isPaused: 'Paused',
+  priorityPolicy: 'Priority access',
+  gracePolicy: 'Missed check-ins',
+};
+
+// "skip 2 places · early entry · grace exempt"
+const formatPolicy = (policy: PriorityPolicy) =>
+  [
+    `skip ${policy.skipPlaces} ${policy.skipPlaces === 1 ? 'place' : 'places'}`,
+    policy.earlyEntry && 'early entry',
+    policy.graceExempt && 'grace exempt',
+  ].filter(Boolean).join(' · ');
+
+// "back 4 places · not here after 3 misses · warn 2 min before"
+const formatGracePolicy = (policy: GracePolicy) =>
+  [
+    policy.action === 'bump' ? `back ${policy.bumpPlaces} places` : 'end of queue',
+    policy.notHereAfterMisses > 0 && `not here after ${policy.notHereAfterMisses} ${policy.notHereAfterMisses === 1 ? 'miss' : 'misses'}`,
+    policy.warnMinutesBefore > 0 && `warn ${policy.warnMinutesBefore} min before`,
+  ].filter(Boolean).join(' · ');
+
+const SettingsView: React.FC<SettingsViewProps> = ({ branch, staff, managerId, onSelectManager, onUpdateBranch }) => {
+  // Edits are logged against the signed-in manager, so nothing can change until one signs in
+  const managers = staff.filter(m => m.isActive !== false && isManager(m));
+  const manager = managers.find(m => m.id === managerId);
+
+  const savedValue = ({ field, fallback }: (typeof NUMERIC_SETTINGS)[number]) => String(branch[field] ?? fallback ?? '');
+
+  // Only the fields typed into here, each with the saved value it was edited
+  // from, so saves made on other screens show through rather than being undone
+  const [edits, setEdits] = useState<Partial<Record<NumericSetting, { value: string; from: string }>>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  // An edit is done once the saved value matches it, whichever screen saved it
+  useEffect(() => {
+    setEdits(prev => {
+      const pending = { ...prev };
+      for (const setting of NUMERIC_SETTINGS) {
+        if (pending[setting.field]?.value === savedValue(setting)) delete pending[setting.field];
+      }
+      return pending;
+    });
+  }, [branch]);
+
+  const patch: BranchConfigPatch = {};
+  for (const setting of NUMERIC_SETTINGS) {
+    const edit = edits[setting.field];
+    if (edit && edit.value !== savedValue(setting)) patch[setting.field] = Number(edit.value);
+  }
+  const isDirty = Object.keys(patch).length > 0;
+  const changedElsewhere = NUMERIC_SETTINGS.filter(setting => {
+    const edit = edits[setting.field];
+    return edit && edit.from !== savedValue(setting);
+  });
+
+  const save = () => {
+    try {
+      validateBranchPatch(branch.id, patch);
+    } catch (invalid) {
+      if (invalid instanceof InvalidBranchConfigError) {
+        const setting = NUMERIC_SETTINGS.find(({ field }) => field === invalid.field);
+        setError(setting ? `${setting.label} must be a whole number of at least ${setting.min}.` : invalid.message);
+        return;
+      }
+      throw invalid;
+    }
+    setError(null);
+    onUpdateBranch(patch);
+  };
+
+  const policy = priorityPolicyFor(branch);
+  const updatePolicy = (changes: Partial<PriorityPolicy>) =>
+    onUpdateBranch({ priorityPolicy: { ...policy, ...changes } });
+  const gracePolicy = gracePolicyFor(branch);
+  const updateGracePolicy = (changes: Partial<GracePolicy>) =>
+    onUpdateBranch({ gracePolicy: { ...gracePolicy, ...changes } });
+
+  const history = [...(branch.settingsHistory ?? [])].reverse();
+  const formatValue = (field: keyof BranchConfig, value: string | number | boolean | null) => {
+    if (value === null) {
+      if (field === 'priorityPolicy') return formatPolicy(DEFAULT_PRIORITY_POLICY);
+      if (field === 'gracePolicy') return formatGracePolicy(DEFAULT_GRACE_POLICY);
+      return '—';
+    }
+    if (field === 'priorityPolicy' && typeof value === 'string') return formatPolicy(JSON.parse(value));
+    if (field === 'gracePolicy' && typeof value === 'string') return formatGracePolicy(JSON.parse(value));
+    return typeof value === 'boolean' ? (value ? 'on' : 'off') : String(value);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-5">
+      <div className="bg-white rounded-2xl p-6" style={{ boxShadow: '0 2px 12px rgba(0,0,0,0.06)' }}>
+        <h3 className="text-[15px] font-semibold text-[#1D1D1F] flex items-center gap-2 mb-4">
+          <Settings size={17} className="text-[#0071E3]" />
+          Queue settings · {branch.name}
+        </h3>
+
+        <label className="flex items-center gap-3 px-3.5 py-2.5 bg-[#F5F5F7] rounded-xl mb-2">
+          <span className="flex-1 text-[14px] text-[#1D1D1F]">Signed in as</span>
+          <select
+            value={manager?.id ?? ''}
+            onChange={e => onSelectManager?.(e.target.value)}
+            className="px-2.5 py-1.5 rounded-lg bg-white text-[14px] text-[#1D1D1F] outline-none"
+          >
+            <option value="" disabled>Choose your name…</option>
+            {managers.map(member => <option key={member.id} value={member.id}>{member.name}</option>)}
+          </select>
+        </label>
+        {!manager && (
+          <p className="text-[12px] text-[#8E8E93] mb-2">
+            {managers.length > 0
+              ? 'Sign in to change settings; every change is logged under your name.'
+              : 'Add a manager in the Staff tab to change settings.'}
+          </p>
+        )}
+
+        <fieldset disabled={!manager} className={manager ? undefined : 'opacity-50'}>
+          <div className="space-y-2">
+            {NUMERIC_SETTINGS.map(setting => {
+              const { field, label, unit } = setting;
+              return (
+                <label key={field} className="flex items-center gap-3 px-3.5 py-2.5 bg-[#F5F5F7] rounded-xl">
+                  <span className="flex-1 text-[14px] text-[#1D1D1F]">{label}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={edits[field]?.value ?? savedValue(setting)}
+                    onChange={e => {
+                      const value = e.target.value;
+                      setEdits(prev => ({ ...prev, [field]: { value, from: prev[field]?.from ?? savedValue(setting) } }));
+                    }}
+                    className="w-20 px-2.5 py-1.5 rounded-lg bg-white text-[14px] text-right text-[#1D1D1F] tabular-nums outline-none"
+                  />
+                  <span className="w-16 text-[12px] text-[#8E8E93]">{unit}</span>
+                </label>
+              );
+            })}
+            <label className="flex items-center gap-3 px-3.5 py-2.5 bg-[#F5F5F7] rounded-xl cursor-pointer">
+              <span className="flex-1 text-[14px] text-[#1D1D1F]">{SETTING_LABELS.excludeInServiceFromCapacity}</span>
+              <input
+                type="checkbox"
+                checked={branch.excludeInServiceFromCapacity}
+                onChange={e => onUpdateBranch({ excludeInServiceFromCapacity: e.target.checked })}
+                className="w-4 h-4 accent-[#0071E3]"
+              />
+            </label>
+          </div>
+
+          {changedElsewhere.length > 0 && (
+            <p className="text-[12px] text-[#FF9500] mt-3">
+              Changed on another screen while you were editing:{' '}
+              {changedElsewhere.map(setting => `${setting.label.toLowerCase()} is now ${savedValue(setting)}`).join(', ')}.
+              Saving keeps your values.
+            </p>
+          )}
+          {error && <p className="text-[12px] text-[#FF3B30] mt-3">{error}</p>}
+
+          {/* What reception's priority flags (elderly, pregnant, …) do at this branch */}
+          <p className="text-[11px] font-semibold text-[#AEAEB2] uppercase tracking-wider mt-5 mb-2">
+            Priority access
+          </p>
+          <div className="space-y-2">
+            <label className="flex items-center gap-3 px-3.5 py-2.5 bg-[#F5F5F7] rounded-xl">
+              <span className="flex-1 text-[14px] text-[#1D1D1F]">Flagged patients move up</span>
+              <select
+                value={policy.skipPlaces}
+                onChange={e => updatePolicy({ skipPlaces: Number(e.target.value) })}
+                className="px-2.5 py-1.5 rounded-lg bg-white text-[14px] text-[#1D1D1F] outline-none"
+              >
+                {[0, 1, 2, 3, 4, 5].map(places => (
+                  <option key={places} value={places}>{places} {places === 1 ? 'place' : 'places'}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-3 px-3.5 py-2.5 bg-[#F5F5F7] rounded-xl cursor-pointer">
+              <span className="flex-1 text-[14px] text-[#1D1D1F]">Call flagged patients in first</span>
+              <input
+                type="checkbox"
+                checked={policy.earlyEntry}
+                onChange={e => updatePolicy({ earlyEntry: e.target.checked })}
+                className="w-4 h-4 accent-[#0071E3]"
+              />
+            </label>
+            <label className="flex items-center gap-3 px-3.5 py-2.5 bg-[#F5F5F7] rounded-xl cursor-pointer">
+              <span className="flex-1 text-[14px] text-[#1D1D1F]">No grace-period bump for flagged patients</span>
+              <input
+                type="checkbox"
+                checked={policy.graceExempt}
+                onChange={e => updatePolicy({ graceExempt: e.target.checked })}
+                className="w-4 h-4 accent-[#0071E3]"
+              />
+            </label>
+          </div>
+
+          {/* What happens when a called patient does not check in within the grace period */}
+          <p className="text-[11px] font-semibold text-[#AEAEB2] uppercase tracking-wider mt-5 mb-2">
+            Missed check-ins
+          </p>
+          <div className="space-y-2">
+            <label className="flex items-center gap-3 px-3.5 py-2.5 bg-[#F5F5F7] rounded-xl">
+              <span className="flex-1 text-[14px] text-[#1D1D1F]">Patient is moved</span>
+              <select
+                value={gracePolicy.action === 'bump' ? gracePolicy.bumpPlaces : 'end'}
+                onChange={e => updateGracePolicy(
+                  e.target.value === 'end' ? { action: 'end-of-queue' } : { action: 'bump', bumpPlaces: Number(e.target.value) },
+                )}
+                className="px-2.5 py-1.5 rounded-lg bg-white text-[14px] text-[#1D1D1F] outline-none"
+              >
+                {[1, 2, 3, 4, 5, 6].map(places => (
+                  <option key={places} value={places}>back {places} {places === 1 ? 'place' : 'places'}</option>
+                ))}
+                <option value="end">to the end of the queue</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-3 px-3.5 py-2.5 bg-[#F5F5F7] rounded-xl">
+              <span className="flex-1 text-[14px] text-[#1D1D1F]">Mark not here after</span>
+              <select
+                value={gracePolicy.notHereAfterMisses}
+                onChange={e => updateGracePolicy({ notHereAfterMisses: Number(e.target.value) })}
+                className="px-2.5 py-1.5 rounded-lg bg-white text-[14px] text-[#1D1D1F] outline-none"
+              >
+                <option value={0}>never</option>
+                {[1, 2, 3, 4, 5].map(misses => (
+                  <option key={misses} value={misses}>{misses} {misses === 1 ? 'miss' : 'misses'}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-3 px-3.5 py-2.5 bg-[#F5F5F7] rounded-xl">
+              <span className="flex-1 text-[14px] text-[#1D1D1F]">Warn the patient</span>
+              <select
+                value={gracePolicy.warnMinutesBefore}
+                onChange={e => updateGracePolicy({ warnMinutesBefore: Number(e.target.value) })}
+                className="px-2.5 py-1.5 rounded-lg bg-white text-[14px] text-[#1D1D1F] outline-none"
+              >
+                <option value={0}>no warning</option>
+                {[1, 2, 3, 5].map(minutes => (
+                  <option key={minutes} value={minutes}>{minutes} min before</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="flex gap-2 mt-4">
+            <button
+              disabled={!isDirty}
+              onClick={save}
+              className={`px-4 py-2 rounded-xl text-[13px] font-semibold transition-all ${
+                isDirty ? 'bg-[#0071E3] text-white hover:bg-[#0077ED]' : 'bg-[#F5F5F7] text-[#AEAEB2] cursor-not-allowed'
+              }`}
+            >
+              Save changes
+            </button>
+            {isDirty && (
+              <button
+                onClick={() => { setEdits({}); setError(null); }}
+                className="px-4 py-2 rounded-xl text-[13px] font-medium bg-[#F5F5F7] text-[#3C3C43] hover:bg-[#EBEBF0]"
+              >
+                Discard
+              </button>
+            )}
+          </div>
+        </fieldset>
+      </div>
+
+      <div className="bg-white rounded-2xl p-6" style={{ boxShadow: '0 2px 12px rgba(0,0,0,0.06)' }}>
+        <h3 className="text-[15px] font-semibold text-[#1D1D1F] flex items-center gap-2 mb-4">
+          <History size={17} className="text-[#0071E3]" />
+          Change history
+        </h3>
+        {history.length > 0 ? (
+          <div className="space-y-1.5 max-h-[420px] overflow-y-auto">
+            {history.map((change, index) => (
+              <div key={index} className="px-3.5 py-2.5 bg-[#F5F5F7] rounded-xl">
+                <p className="text-[13px] text-[#1D1D1F]">
+                  <span className="font-medium">{SETTING_LABELS[change.field] ?? change.field}</span>
+                  {' '}{formatValue(change.field, change.from)} → {formatValue(change.field, change.to)}
+                </p>
+                <p className="text-[11px] text-[#8E8E93] mt-0.5">
+                  {staffName(staff, change.changedBy)} · {new Date(change.changedAt).toLocaleString([], {
+                    day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit',
+                  })}
+                </p>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-[13px] text-[#AEAEB2]">No settings have been changed yet.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
 export default ManagerDashboard;
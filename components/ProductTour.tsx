@@ -74,7 +74,6 @@ interface ProductTourProps {
   onSetCurrentCustomer?: (id: string | null) => void;
   onRemoveTicket?: (id: string) => void;
   onClearAllTickets?: () => void;
-  onReorderQueueNumbers?: (branchId: string) => Promise<void>;
   tickets?: any[];
   branchId?: string;
 }
@@ -88,7 +87,6 @@ const ProductTour: React.FC<ProductTourProps> = ({
   onSetCurrentCustomer,
   onRemoveTicket,
   onClearAllTickets,
-  onReorderQueueNumbers,
   tickets = [],
   branchId = 'main-clinic'
 }) => {
@@ -239,22 +237,13 @@ const ProductTour: React.FC<ProductTourProps> = ({
             // Create the ticket
             onAddTicket(`Patient ${i}`, `+1758123456${i}`, CommsChannel.SMS, branchId);
             
-            // Wait for state to update - poll until ticket count increases
-            // We'll check by waiting and then reordering, which will fix any numbering issues
+            // Wait for state to update before the next one
             await new Promise(resolve => setTimeout(resolve, 300));
           }
           
           // Wait for all tickets to be created and state to fully update
           await new Promise(resolve => setTimeout(resolve, 1500));
           
-          // Reorder queue numbers to ensure sequential numbering based on join time
-          // This is critical - it will fix any duplicate numbers
-          if (onReorderQueueNumbers) {
-            await onReorderQueueNumbers(branchId);
-            // Wait for reordering to complete and state to update
-            await new Promise(resolve => setTimeout(resolve, 1000));
-          }
-          
           // Track for undo
           if (trackAction) {
             trackAction({
@@ -470,7 +459,7 @@ const ProductTour: React.FC<ProductTourProps> = ({
     });
 
     return steps;
-  }, [tickets, branchId, onAddTicket, onUpdateStatus, onSetView, onSetCurrentCustomer, onRemoveTicket, onClearAllTickets, onReorderQueueNumbers, currentCustomerId]);
+  }, [tickets, branchId, onAddTicket, onUpdateStatus, onSetView, onSetCurrentCustomer, onRemoveTicket, onClearAllTickets, currentCustomerId]);
 
   const startTour = async () => {
     console.log('[Tour] Starting tour');
@@ -1,6 +1,16 @@
 import React, { useState } from 'react';
-import { Ticket, TicketStatus, BranchConfig } from '../types';
-import { UserCheck, FileText, Stethoscope } from 'lucide-react';
+import { Ticket, TicketStatus, BranchConfig, PriorityFlag, Room, StaffMember } from '../types';
+import { UserCheck, FileText, Stethoscope, AlertTriangle, Search, ArrowRightLeft, RotateCcw } from 'lucide-react';
+import { TicketConflict } from '../utils/ticketOutbox';
+import { normalizeCheckInCode } from '../utils/ids';
+import { isClinician, staffName } from '../utils/staffRepository';
+import { SERVICE_CATEGORY_LABELS, unservedCategories, unstaffedStages } from '../utils/routing';
+import { STAGE_LABELS } from '../utils/pathways';
+import { isStatus } from '../utils/ticketStateMachine';
+import { ReinstatePlacement, TransferPolicy } from '../utils/queueEngine';
+import { hasRoomFor, partySize } from '../utils/party';
+import { ACUITY_COLORS, ACUITY_LABELS, ACUITY_LEVELS, DEFAULT_ACUITY, acuityOf, movedAheadOf, priorityOrder } from '../utils/triage';
+import { PRIORITY_FLAG_LABELS, describePriority, isFlagged, priorityPolicyFor } from '../utils/priorityFlags';
 
 interface ReceptionDashboardProps {
   tickets: Ticket[];
@@ -11,33 +21,111 @@ interface ReceptionDashboardProps {
     reason?: string,
   ) => void;
   updateTicket: (id: string, updates: Partial<Ticket>) => void;
+  onTransfer?: (id: string, toBranchId: string, policy: TransferPolicy, reason?: string) => void;
+  onReinstate?: (id: string, placement: ReinstatePlacement) => void;
   branch: BranchConfig;
+  branches?: BranchConfig[];
+  rooms?: Room[];
+  staff?: StaffMember[];
   inBuildingCount: number;
   maxInBuilding: number;
+  syncConflicts?: TicketConflict[];
+  resolveSyncConflict?: (id: string, keep: 'local' | 'remote') => void;
 }
 
 const ReceptionDashboard: React.FC<ReceptionDashboardProps> = ({
-  tickets, updateStatus, updateTicket, branch, inBuildingCount, maxInBuilding,
+  tickets, updateStatus, updateTicket, onTransfer, onReinstate, branch, branches = [], rooms = [], staff = [], inBuildingCount, maxInBuilding,
+  syncConflicts = [], resolveSyncConflict,
 }) => {
   const [selectedTicket, setSelectedTicket] = useState<Ticket | null>(null);
+  const clinicians = staff.filter(m => m.isActive !== false && isClinician(m));
   const [auditNote, setAuditNote]           = useState('');
+  const [lookup, setLookup]                 = useState('');
+  const [transferTo, setTransferTo]         = useState('');
+  const [transferPolicy, setTransferPolicy] = useState<TransferPolicy>('keep-join-time');
+  const [transferReason, setTransferReason] = useState('');
+  const [reinstatePlacement, setReinstatePlacement] = useState<ReinstatePlacement>('original-position');
+  const otherBranches = branches.filter(b => b.id !== branch.id);
 
   const branchTickets = tickets.filter(t => t.branchId === branch.id);
+  // Visit reasons waiting patients have that nobody on duty can see
+  const unserved = staff.length > 0 ? unservedCategories(tickets, staff, rooms, branch.id, Date.now()) : [];
+  // Stations waiting patients are queued for that nobody on duty works
+  const unstaffed = staff.length > 0 ? unstaffedStages(tickets, staff, branch.id, Date.now()) : [];
 
-  const remoteWaiting = branchTickets
-    .filter(t => t.status === TicketStatus.REMOTE_WAITING || t.status === TicketStatus.WAITING)
-    .sort((a, b) => a.queueNumber - b.queueNumber);
+  // Both queues in the order patients will be seen: urgent and flagged ones first
+  const policy = priorityPolicyFor(branch);
+  const remoteWaiting = priorityOrder(
+    branchTickets.filter(t => t.status === TicketStatus.REMOTE_WAITING || t.status === TicketStatus.WAITING),
+    policy,
+  );
+
+  const inBuilding = priorityOrder(
+    branchTickets.filter(t => t.status === TicketStatus.IN_BUILDING || t.status === TicketStatus.ARRIVED),
+    policy,
+  );
+
+  // Border colour for patients graded more urgent than standard, or flagged for priority access
+  const urgencyBorder = (ticket: Ticket) => {
+    const level = acuityOf(ticket);
+    if (level < DEFAULT_ACUITY) return { border: `1.5px solid ${ACUITY_COLORS[level]}` };
+    return isFlagged(ticket) ? { border: '1.5px solid #AF52DE' } : {};
+  };
 
-  const inBuilding = branchTickets
-    .filter(t => t.status === TicketStatus.IN_BUILDING || t.status === TicketStatus.ARRIVED)
+  // Why the selected patient is where they are in the queue
+  const selectedMoves = selectedTicket
+    ? (() => {
+        const moved = movedAheadOf(selectedTicket, priorityOrder(branchTickets.filter(t =>
+          isStatus(t.status, TicketStatus.REMOTE_WAITING, TicketStatus.ELIGIBLE_FOR_ENTRY, TicketStatus.IN_BUILDING),
+        ), policy));
+        return {
+          triage: moved.filter(m => m.reason === 'triage').length,
+          priority: moved.filter(m => m.reason === 'priority').length,
+        };
+      })()
+    : undefined;
+
+  const toggleFlag = (flag: PriorityFlag) => {
+    if (!selectedTicket) return;
+    const current = selectedTicket.priorityFlags ?? [];
+    const next = current.includes(flag) ? current.filter(f => f !== flag) : [...current, flag];
+    const priorityFlags = next.length > 0 ? next : undefined;
+    updateTicket(selectedTicket.id, { priorityFlags });
+    setSelectedTicket({ ...selectedTicket, priorityFlags });
+  };
+
+  // One seat per person: a family fills a seat for each member
+  const seats = inBuilding.flatMap(t => [t.name, ...(t.dependents ?? []).map(d => d.name)].map(name => ({ ticket: t, name })));
+
+  // Patients marked not here, kept in view so reception can reinstate them when they turn up
+  const notHere = branchTickets
+    .filter(t => isStatus(t.status, TicketStatus.NOT_HERE))
     .sort((a, b) => a.queueNumber - b.queueNumber);
 
   const inService = branchTickets.filter(
     t => t.status === TicketStatus.IN_SERVICE || t.status === TicketStatus.IN_TRANSACTION,
   );
 
+  // Find a patient by check-in code, name or phone (e.g. they lost their status page)
+  const lookupMatches = (() => {
+    const query = lookup.trim();
+    if (query.length < 2) return [];
+    const code   = normalizeCheckInCode(query);
+    const digits = query.replace(/\D/g, '');
+    return branchTickets
+      .filter(t => !isStatus(t.status, TicketStatus.SERVED, TicketStatus.REMOVED))
+      .filter(t =>
+        t.checkInCode === code ||
+        t.name.toLowerCase().includes(query.toLowerCase()) ||
+        (digits.length >= 4 && t.phone.replace(/\D/g, '').endsWith(digits)),
+      )
+      .sort((a, b) => (a.checkInCode === code ? -1 : b.checkInCode === code ? 1 : a.queueNumber - b.queueNumber))
+      .slice(0, 5);
+  })();
+
   const handleMarkEntered = async (ticketId: string) => {
-    if (inBuildingCount >= maxInBuilding) {
+    const ticket = tickets.find(t => t.id === ticketId);
+    if (ticket && !hasRoomFor(inBuildingCount, partySize(ticket), maxInBuilding)) {
       alert(`Waiting room at capacity (${inBuildingCount}/${maxInBuilding}). Cannot check patient in.`);
       return;
     }
@@ -55,11 +143,30 @@ const ReceptionDashboard: React.FC<ReceptionDashboardProps> = ({
         ? `${existing}\n[${new Date().toLocaleString()}] ${auditNote}`
         : `[${new Date().toLocaleString()}] ${auditNote}`;
       updateTicket(selectedTicket.id, { auditNotes: updated });
-      setAuditNote('');
-      setSelectedTicket(null);
+      closeTicketModal();
     }
   };
 
+  const closeTicketModal = () => {
+    setSelectedTicket(null);
+    setAuditNote('');
+    setTransferTo('');
+    setTransferReason('');
+    setReinstatePlacement('original-position');
+  };
+
+  const handleTransfer = () => {
+    if (!selectedTicket || !transferTo || !onTransfer) return;
+    onTransfer(selectedTicket.id, transferTo, transferPolicy, transferReason.trim() || undefined);
+    closeTicketModal();
+  };
+
+  const handleReinstate = () => {
+    if (!selectedTicket || !onReinstate) return;
+    onReinstate(selectedTicket.id, reinstatePlacement);
+    closeTicketModal();
+  };
+
   /* ── Helpers ── */
   const capacityPct   = maxInBuilding > 0 ? inBuildingCount / maxInBuilding : 0;
   const capacityColor = capacityPct >= 1 ? '#FF3B30' : capacityPct >= 0.8 ? '#FF9F0A' : '#34C759';
@@ -67,6 +174,149 @@ const ReceptionDashboard: React.FC<ReceptionDashboardProps> = ({
   return (
     <div className="flex flex-col gap-2 h-full overflow-hidden" data-tour="reception-dashboard">
 
+      {/* ── Coverage warnings ───────────────────────────────── */}
+      {unserved.length > 0 && (
+        <div
+          className="flex-shrink-0 flex items-center gap-2 rounded-xl px-3 py-2 text-[12px] text-[#1D1D1F]"
+          style={{ background: '#FFF8EC', border: '1px solid #FFE1A8' }}
+        >
+          <AlertTriangle size={14} className="flex-shrink-0 text-[#FF9F0A]" />
+          <span>
+            Nobody on shift can see{' '}
+            <span className="font-semibold">{unserved.map(c => SERVICE_CATEGORY_LABELS[c]).join(', ')}</span>
+            {' '}patients who are waiting.
+          </span>
+        </div>
+      )}
+      {unstaffed.length > 0 && (
+        <div
+          className="flex-shrink-0 flex items-center gap-2 rounded-xl px-3 py-2 text-[12px] text-[#1D1D1F]"
+          style={{ background: '#FFF8EC', border: '1px solid #FFE1A8' }}
+        >
+          <AlertTriangle size={14} className="flex-shrink-0 text-[#FF9F0A]" />
+          <span>
+            Nobody on shift is working{' '}
+            <span className="font-semibold">{unstaffed.map(stage => STAGE_LABELS[stage]).join(', ')}</span>
+            {' '}for the patients queued there.
+          </span>
+        </div>
+      )}
+
+      {/* ── Sync conflicts ──────────────────────────────────── */}
+      {syncConflicts.length > 0 && (
+        <div
+          className="flex-shrink-0 rounded-xl px-3 py-2 space-y-1.5"
+          style={{ background: '#FFF8EC', border: '1px solid #FFE1A8' }}
+        >
+          {syncConflicts.map(conflict => (
+            <div key={conflict.id} className="flex items-center gap-2 text-[12px] text-[#1D1D1F]">
+              <AlertTriangle size={14} className="flex-shrink-0 text-[#FF9F0A]" />
+              <span className="flex-1 min-w-0 truncate">
+                <span className="font-semibold">#{conflict.local.queueNumber} {conflict.local.name}</span>
+                {conflict.reason === 'deleted'
+                  ? ' was removed on another device while this one was offline.'
+                  : ` was changed on another device while this one was offline (${conflict.fields.join(', ')}).`}
+              </span>
+              <button
+                onClick={() => resolveSyncConflict?.(conflict.id, 'local')}
+                className="px-2 py-0.5 rounded-md text-[11px] font-semibold text-[#0071E3] hover:bg-[#0071E3]/10 transition-colors"
+              >
+                Keep this device's
+              </button>
+              <button
+                onClick={() => resolveSyncConflict?.(conflict.id, 'remote')}
+                className="px-2 py-0.5 rounded-md text-[11px] font-semibold text-[#6E6E73] hover:bg-black/5 transition-colors"
+              >
+                Keep other device's
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* ── Patient lookup ──────────────────────────────────── */}
+      <div className="flex-shrink-0 bg-white rounded-xl px-3 py-2" style={{ boxShadow: '0 1px 4px rgba(0,0,0,0.06)' }}>
+        <div className="flex items-center gap-2">
+          <Search size={14} className="text-[#AEAEB2] flex-shrink-0" />
+          <input
+            value={lookup}
+            onChange={e => setLookup(e.target.value)}
+            placeholder="Find patient by check-in code (K7Q-42), name or phone"
+            className="flex-1 text-[13px] bg-transparent outline-none text-[#1D1D1F] placeholder:text-[#AEAEB2]"
+          />
+          {lookup && (
+            <button onClick={() => setLookup('')} className="text-[11px] font-medium text-[#8E8E93] hover:text-[#1D1D1F]">
+              Clear
+            </button>
+          )}
+        </div>
+        {lookup.trim().length >= 2 && (
+          <div className="mt-2 space-y-1">
+            {lookupMatches.length === 0 && (
+              <p className="text-[12px] text-[#8E8E93]">No open ticket matches “{lookup.trim()}”.</p>
+            )}
+            {lookupMatches.map(ticket => (
+              <div key={ticket.id} className="flex items-center gap-2 text-[12px] text-[#1D1D1F]">
+                <span className="font-semibold tabular-nums w-10">#{ticket.queueNumber}</span>
+                <span className="font-mono text-[11px] text-[#6E6E73] w-14">{ticket.checkInCode ?? '—'}</span>
+                <span className="flex-1 min-w-0 truncate">{ticket.name}</span>
+                <span className="text-[11px] text-[#8E8E93]">{ticket.status.replace(/_/g, ' ').toLowerCase()}</span>
+                {isStatus(ticket.status, TicketStatus.REMOTE_WAITING, TicketStatus.ELIGIBLE_FOR_ENTRY) ||
+                  (!onReinstate && isStatus(ticket.status, TicketStatus.NOT_HERE)) ? (
+                  <button
+                    onClick={() => handleMarkEntered(ticket.id)}
+                    className="px-2 py-0.5 rounded-md text-[11px] font-semibold text-[#0071E3] hover:bg-[#0071E3]/10 transition-colors"
+                  >
+                    Check in
+                  </button>
+                ) : isStatus(ticket.status, TicketStatus.NOT_HERE) && (
+                  <button
+                    onClick={() => setSelectedTicket(ticket)}
+                    className="px-2 py-0.5 rounded-md text-[11px] font-semibold text-[#0071E3] hover:bg-[#0071E3]/10 transition-colors"
+                  >
+                    Reinstate
+                  </button>
+                )}
+                <button
+                  onClick={() => setSelectedTicket(ticket)}
+                  className="px-2 py-0.5 rounded-md text-[11px] font-semibold text-[#6E6E73] hover:bg-black/5 transition-colors"
+                >
+                  Note
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* ── Not here ────────────────────────────────────────── */}
+      {notHere.length > 0 && (
+        <div className="flex-shrink-0 bg-white rounded-xl px-3 py-2" style={{ boxShadow: '0 1px 4px rgba(0,0,0,0.06)' }}>
+          <div className="flex items-center justify-between mb-1.5">
+            <span className="text-[11px] font-semibold text-[#AEAEB2] uppercase tracking-wider">
+              Not here
+            </span>
+            <span className="text-[11px] font-semibold text-[#8E8E93]">
+              {notHere.length} marked
+            </span>
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {notHere.map(ticket => (
+              <button
+                key={ticket.id}
+                onClick={() => setSelectedTicket(ticket)}
+                className="flex items-center gap-1.5 px-2 py-1 rounded-lg text-[12px] text-[#1D1D1F] hover:opacity-80 transition-all"
+                style={{ background: '#F5F5F7', border: '1px solid #E5E5EA' }}
+              >
+                <span className="font-semibold tabular-nums">#{ticket.queueNumber}</span>
+                <span className="max-w-[120px] truncate">{ticket.name}</span>
+                {onReinstate && <span className="text-[11px] font-semibold text-[#0071E3]">Reinstate</span>}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* ── Top row ─────────────────────────────────────────── */}
       <div className="grid grid-cols-1 lg:grid-cols-12 gap-2 flex-shrink-0">
 
@@ -104,7 +354,8 @@ const ReceptionDashboard: React.FC<ReceptionDashboardProps> = ({
           >
             {Array.from({ length: 10 }).map((_, index) => {
               const spotNumber      = index + 1;
-              const patientInSpot   = inBuilding[index];
+              const seat            = seats[index];
+              const patientInSpot   = seat?.ticket;
               const isOverCapacity  = spotNumber > maxInBuilding;
 
               return (
@@ -119,7 +370,7 @@ const ReceptionDashboard: React.FC<ReceptionDashboardProps> = ({
                   style={{
                     width: '100%', height: '100%', minHeight: 0,
                     ...(patientInSpot
-                      ? { background: '#F0FDF4', border: '1px solid #86EFAC' }
+                      ? { background: '#F0FDF4', border: '1px solid #86EFAC', ...urgencyBorder(patientInSpot) }
                       : { borderColor: '#E5E5EA', background: '#FAFAFA' }),
                     ...(isOverCapacity ? { opacity: 0.35 } : {}),
                   }}
@@ -130,7 +381,7 @@ const ReceptionDashboard: React.FC<ReceptionDashboardProps> = ({
                         {patientInSpot.queueNumber}
                       </span>
                       <span className="text-[10px] font-semibold text-[#16A34A]/80 mt-0.5 leading-none truncate px-1 max-w-full">
-                        {patientInSpot.name.split(' ')[0].substring(0, 8)}
+                        {seat.name.split(' ')[0].substring(0, 8)}
                       </span>
                     </>
                   ) : (
@@ -173,7 +424,10 @@ const ReceptionDashboard: React.FC<ReceptionDashboardProps> = ({
                   <p className="text-[10px] text-white/40 mt-0.5">ID: {inService[0].memberId}</p>
                 )}
                 {inService[0].tellerId && (
-                  <p className="text-[10px] text-[#34C759]/80 mt-0.5">Dr: {inService[0].tellerId}</p>
+                  <p className="text-[10px] text-[#34C759]/80 mt-0.5">
+                    {staffName(staff, inService[0].tellerId)}
+                    {inService[0].counterId && ` · ${rooms.find(r => r.id === inService[0].counterId)?.name ?? inService[0].counterId}`}
+                  </p>
                 )}
               </>
             ) : (
@@ -236,6 +490,7 @@ const ReceptionDashboard: React.FC<ReceptionDashboardProps> = ({
                 style={{
                   background: '#F5F5F7',
                   border: '1px solid #E5E5EA',
+                  ...urgencyBorder(ticket),
                   width: '100%', height: '100%', minHeight: 0,
                 }}
               >
@@ -268,9 +523,176 @@ const ReceptionDashboard: React.FC<ReceptionDashboardProps> = ({
               Triage note
             </h3>
             <p className="text-[13px] text-[#8E8E93] mb-4">
-              Token #{selectedTicket.queueNumber} — {selectedTicket.name}
+              Token #{selectedTicket.queueNumber}
+              {selectedTicket.checkInCode && ` · ${selectedTicket.checkInCode}`} — {selectedTicket.name}
+              {selectedTicket.dependents && selectedTicket.dependents.length > 0 &&
+                ` + ${selectedTicket.dependents.map(d => d.name).join(', ')}`}
             </p>
 
+            {/* Triage level — reorders the queue, so each change is logged */}
+            <div className="mb-4">
+              <p className="text-[13px] font-medium text-[#3C3C43] mb-1.5">
+                Triage · {ACUITY_LABELS[acuityOf(selectedTicket)]}
+                {selectedTicket.acuity === undefined && <span className="text-[#AEAEB2] font-normal"> (provisional)</span>}
+              </p>
+              <div className="grid grid-cols-5 gap-1.5">
+                {ACUITY_LEVELS.map(level => {
+                  const active = acuityOf(selectedTicket) === level;
+                  return (
+                    <button
+                      key={level}
+                      title={ACUITY_LABELS[level]}
+                      onClick={() => {
+                        updateTicket(selectedTicket.id, { acuity: level });
+                        setSelectedTicket({ ...selectedTicket, acuity: level });
+                      }}
+                      className="py-1.5 rounded-lg text-[13px] font-semibold tabular-nums transition-all"
+                      style={active
+                        ? { background: ACUITY_COLORS[level], color: 'white' }
+                        : { background: '#F5F5F7', color: '#3C3C43' }}
+                    >
+                      {level}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Priority access — what the flags do is the branch's policy */}
+            <div className="mb-4">
+              <p className="text-[13px] font-medium text-[#3C3C43] mb-1.5">Priority access</p>
+              <div className="flex flex-wrap gap-1.5">
+                {(Object.keys(PRIORITY_FLAG_LABELS) as PriorityFlag[]).map(flag => {
+                  const active = selectedTicket.priorityFlags?.includes(flag);
+                  return (
+                    <button
+                      key={flag}
+                      onClick={() => toggleFlag(flag)}
+                      className={`px-2.5 py-1 rounded-lg text-[12px] font-medium transition-all ${
+                        active ? 'bg-[#AF52DE] text-white' : 'bg-[#F5F5F7] text-[#3C3C43]'
+                      }`}
+                    >
+                      {PRIORITY_FLAG_LABELS[flag]}
+                    </button>
+                  );
+                })}
+              </div>
+              {describePriority(selectedTicket, policy) && (
+                <p className="text-[12px] text-[#AF52DE] mt-1.5">{describePriority(selectedTicket, policy)}</p>
+              )}
+              {selectedMoves && selectedMoves.triage + selectedMoves.priority > 0 && (
+                <p className="text-[12px] text-[#8E8E93] mt-1.5">
+                  Moved ahead of this patient:
+                  {selectedMoves.triage > 0 && ` ${selectedMoves.triage} for clinical urgency`}
+                  {selectedMoves.triage > 0 && selectedMoves.priority > 0 && ','}
+                  {selectedMoves.priority > 0 && ` ${selectedMoves.priority} for priority access`}
+                </p>
+              )}
+            </div>
+
+            {clinicians.length > 0 && (
+              <label className="flex items-center justify-between gap-3 mb-4">
+                <span className="text-[13px] font-medium text-[#3C3C43]">Preferred clinician</span>
+                <select
+                  value={selectedTicket.preferredClinicianId ?? ''}
+                  onChange={e => {
+                    const preferredClinicianId = e.target.value || undefined;
+                    updateTicket(selectedTicket.id, { preferredClinicianId });
+                    setSelectedTicket({ ...selectedTicket, preferredClinicianId });
+                  }}
+                  className="px-3 py-2 rounded-xl bg-[#F5F5F7] text-[13px] text-[#1D1D1F] outline-none"
+                >
+                  <option value="">No preference</option>
+                  {clinicians.map(member => (
+                    <option key={member.id} value={member.id}>{member.name}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            {/* A no-show who turns up after all goes back into the queue */}
+            {onReinstate && isStatus(selectedTicket.status, TicketStatus.NOT_HERE) && (
+              <div className="mb-4 p-3.5 bg-[#F5F5F7] rounded-xl space-y-2.5">
+                <p className="text-[11px] font-semibold text-[#AEAEB2] uppercase tracking-wider">
+                  Reinstate · marked not here
+                </p>
+                <div className="flex gap-2">
+                  {([
+                    ['original-position', 'Original position'],
+                    ['next-available', 'Next available'],
+                    ['end-of-queue', 'End of queue'],
+                  ] as const).map(([placement, label]) => (
+                    <button
+                      key={placement}
+                      onClick={() => setReinstatePlacement(placement)}
+                      className={`flex-1 py-1.5 rounded-lg text-[12px] font-medium transition-all ${
+                        reinstatePlacement === placement ? 'bg-[#0071E3] text-white' : 'bg-white text-[#3C3C43]'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={handleReinstate}
+                  className="w-full py-2 rounded-xl text-[13px] font-semibold flex items-center justify-center gap-2 bg-[#1D1D1F] text-white hover:bg-[#3A3A3C] transition-all"
+                >
+                  <RotateCcw size={14} /> Reinstate and text new number
+                </button>
+              </div>
+            )}
+
+            {/* Patients not yet with a clinician can be sent to another branch */}
+            {onTransfer && otherBranches.length > 0 &&
+              isStatus(selectedTicket.status, TicketStatus.REMOTE_WAITING, TicketStatus.ELIGIBLE_FOR_ENTRY, TicketStatus.IN_BUILDING) && (
+              <div className="mb-4 p-3.5 bg-[#F5F5F7] rounded-xl space-y-2.5">
+                <p className="text-[11px] font-semibold text-[#AEAEB2] uppercase tracking-wider">
+                  Transfer to another branch
+                </p>
+                <select
+                  value={transferTo}
+                  onChange={e => setTransferTo(e.target.value)}
+                  className="w-full px-3 py-2 rounded-xl bg-white text-[13px] text-[#1D1D1F] outline-none"
+                >
+                  <option value="">Choose a branch…</option>
+                  {otherBranches.map(b => (
+                    <option key={b.id} value={b.id}>{b.name}</option>
+                  ))}
+                </select>
+                <div className="flex gap-2">
+                  {([
+                    ['keep-join-time', 'Keep join time'],
+                    ['end-of-queue', 'End of queue'],
+                  ] as const).map(([policy, label]) => (
+                    <button
+                      key={policy}
+                      onClick={() => setTransferPolicy(policy)}
+                      className={`flex-1 py-1.5 rounded-lg text-[12px] font-medium transition-all ${
+                        transferPolicy === policy ? 'bg-[#0071E3] text-white' : 'bg-white text-[#3C3C43]'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <input
+                  value={transferReason}
+                  onChange={e => setTransferReason(e.target.value)}
+                  placeholder="Reason, e.g. needs X-ray"
+                  className="w-full px-3 py-2 rounded-xl bg-white text-[13px] text-[#1D1D1F] placeholder:text-[#AEAEB2] outline-none"
+                />
+                <button
+                  onClick={handleTransfer}
+                  disabled={!transferTo}
+                  className={`w-full py-2 rounded-xl text-[13px] font-semibold flex items-center justify-center gap-2 transition-all ${
+                    transferTo ? 'bg-[#1D1D1F] text-white hover:bg-[#3A3A3C]' : 'bg-[#E5E5EA] text-[#AEAEB2] cursor-not-allowed'
+                  }`}
+                >
+                  <ArrowRightLeft size={14} /> Transfer
+                </button>
+              </div>
+            )}
+
             {selectedTicket.auditNotes && (
               <div className="mb-4 p-3.5 bg-[#F5F5F7] rounded-xl max-h-32 overflow-y-auto">
                 <p className="text-[11px] font-semibold text-[#AEAEB2] uppercase tracking-wider mb-1.5">
@@ -303,7 +725,7 @@ const ReceptionDashboard: React.FC<ReceptionDashboardProps> = ({
                 <FileText size={15} /> Save note
               </button>
               <button
-                onClick={() => { setSelectedTicket(null); setAuditNote(''); }}
+                onClick={closeTicketModal}
                 className="px-5 py-2.5 rounded-xl text-[14px] font-medium text-[#6E6E73] bg-[#F5F5F7] hover:bg-[#EBEBF0] transition-all"
               >
                 Cancel
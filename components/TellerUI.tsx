@@ -1,16 +1,15 @@
 import React, { useState, useEffect } from 'react';
-import { Ticket, TicketStatus, BranchConfig, ServiceCategory } from '../types';
-import { CheckCircle, Clock, User, Flag, Stethoscope, Play } from 'lucide-react';
-
-const VISIT_REASON_LABELS: Record<ServiceCategory, string> = {
-  [ServiceCategory.GENERAL_CHECKUP]: 'General Check-up',
-  [ServiceCategory.FOLLOW_UP]:       'Follow-up Visit',
-  [ServiceCategory.CONSULTATION]:    'Consultation',
-  [ServiceCategory.VACCINATION]:     'Vaccination',
-  [ServiceCategory.EMERGENCY]:       'Emergency / Urgent',
-  [ServiceCategory.LAB_RESULTS]:     'Lab Results',
-  [ServiceCategory.OTHER]:           'Other',
-};
+import { Ticket, TicketStatus, BranchConfig, Room, StaffMember } from '../types';
+import { CheckCircle, Clock, User, Flag, Stethoscope, Play, DoorOpen, Coffee, BadgeCheck, Pause } from 'lucide-react';
+import { roomForClinician } from '../utils/roomRepository';
+import { isClinician, isOnShift, staffName } from '../utils/staffRepository';
+import { SERVICE_CATEGORY_LABELS, canTake, nextTicketFor, preferenceContext } from '../utils/routing';
+import { STAGE_LABELS, currentStage, nextStage } from '../utils/pathways';
+import { partySize } from '../utils/party';
+import { describePriority, priorityPolicyFor } from '../utils/priorityFlags';
+import { currentPause, describePause } from '../utils/queuePause';
+import { isStatus } from '../utils/ticketStateMachine';
+import { ACUITY_COLORS, ACUITY_LABELS, DEFAULT_ACUITY, acuityOf } from '../utils/triage';
 
 interface TellerUIProps {
   tickets: Ticket[];
@@ -20,26 +19,49 @@ interface TellerUIProps {
     triggeredBy?: 'system' | 'reception' | 'teller' | 'customer',
     reason?: string,
   ) => void;
+  onCompleteStage: (id: string) => void;
   branch: BranchConfig;
   tellerId?: string;
-  onPauseQueue?: () => void;
+  staff: StaffMember[];
+  onSelectClinician: (staffId: string) => void;
+  onSaveStaffMember: (member: StaffMember) => void;
+  rooms: Room[];
+  onTakeRoom: (roomId: string) => void;
+  onSaveRoom: (room: Room) => void;
+  onPauseQueue?: (reason?: string, expectedResumeAt?: number) => void;
   onFlagNoShow?: (id: string) => void;
 }
 
 const TellerUI: React.FC<TellerUIProps> = ({
-  tickets, updateStatus, branch, tellerId, onFlagNoShow,
+  tickets, updateStatus, onCompleteStage, branch, tellerId, staff, onSelectClinician, onSaveStaffMember,
+  rooms, onTakeRoom, onSaveRoom, onPauseQueue, onFlagNoShow,
 }) => {
   const [timerSeconds, setTimerSeconds] = useState(0);
+  const [pauseReason, setPauseReason]   = useState('');
+  const [resumeTime, setResumeTime]     = useState('');
+  const pause = currentPause(branch);
 
   const branchTickets = tickets.filter(t => t.branchId === branch.id);
+  const branchRooms = rooms.filter(r => r.branchId === branch.id);
+  const myRoom = roomForClinician(rooms, branch.id, tellerId);
+  const clinicians = staff.filter(m => m.isActive !== false && isClinician(m));
+  const me = clinicians.find(m => m.id === tellerId);
+  const onShift = !!me && isOnShift(me, branch.id, Date.now());
+  // Patients are only called by a signed-in clinician who isn't on a break
+  const canCall = !!me && !me.onBreak;
+
+  // Longest-waiting patient whose visit reason and station this clinician and room
+  // handle, skipping patients still held for the clinician they asked for
+  const preference = preferenceContext(branch, staff, Date.now());
+  const nextReady = nextTicketFor(branchTickets, branch.id, me, myRoom, preference, priorityPolicyFor(branch));
+  const forOthers = branchTickets.filter(
+    t => isStatus(t.status, TicketStatus.IN_BUILDING) && !canTake(t, me, myRoom, preference),
+  ).length;
 
   const activeConsultation = branchTickets.find(
     t => (t.status === TicketStatus.IN_TRANSACTION || t.status === TicketStatus.IN_SERVICE)
       && t.tellerId === tellerId,
   );
-  const nextReady = branchTickets.find(
-    t => t.status === TicketStatus.ARRIVED || t.status === TicketStatus.IN_BUILDING,
-  );
 
   useEffect(() => {
     let interval: ReturnType<typeof setInterval>;
@@ -57,17 +79,41 @@ const TellerUI: React.FC<TellerUIProps> = ({
     return `${m}:${s.toString().padStart(2, '0')}`;
   };
 
+  // Resume time is entered as HH:MM today
+  const handlePause = () => {
+    if (!onPauseQueue) return;
+    let expectedResumeAt: number | undefined;
+    if (resumeTime) {
+      const [hours, minutes] = resumeTime.split(':').map(Number);
+      const resumeAt = new Date();
+      resumeAt.setHours(hours, minutes, 0, 0);
+      // A time that has already gone by today means tomorrow, e.g. an overnight pause
+      if (resumeAt.getTime() <= Date.now()) resumeAt.setDate(resumeAt.getDate() + 1);
+      expectedResumeAt = resumeAt.getTime();
+    }
+    onPauseQueue(pauseReason.trim() || undefined, expectedResumeAt);
+    setPauseReason('');
+    setResumeTime('');
+  };
+
   const handleCallNext = () => {
-    if (nextReady) {
+    if (nextReady && canCall) {
       updateStatus(nextReady.id, TicketStatus.IN_SERVICE, 'teller', 'Called by doctor/staff');
     }
   };
 
+  // Multi-stage visits go back to the waiting room for their next station
   const handleComplete = async () => {
-    if (activeConsultation) {
-      updateStatus(activeConsultation.id, TicketStatus.COMPLETED, 'teller', 'Consultation completed');
-    }
+    if (activeConsultation) onCompleteStage(activeConsultation.id);
+  };
+
+  const stageLabel = (ticket: Ticket) => {
+    const stage = currentStage(ticket);
+    if (!stage || !ticket.pathway || ticket.pathway.length < 2) return undefined;
+    return `${STAGE_LABELS[stage]} · ${(ticket.stageIndex ?? 0) + 1} of ${ticket.pathway.length}`;
   };
+  const activeStage = activeConsultation && stageLabel(activeConsultation);
+  const sendOnTo = activeConsultation && nextStage(activeConsultation);
 
   const servedCount = branchTickets.filter(
     t => t.status === TicketStatus.SERVED || t.status === TicketStatus.COMPLETED,
@@ -141,6 +187,18 @@ const TellerUI: React.FC<TellerUIProps> = ({
                     </p>
                   </div>
                 </div>
+                {myRoom && (
+                  <div
+                    className="flex items-center gap-3 p-3.5 rounded-xl"
+                    style={{ background: 'rgba(255,255,255,0.12)' }}
+                  >
+                    <DoorOpen size={18} className="text-white/70" />
+                    <div>
+                      <p className="text-[11px] text-white/50 mb-0.5">Room</p>
+                      <p className="text-[14px] font-semibold text-white">{myRoom.name}</p>
+                    </div>
+                  </div>
+                )}
                 {activeConsultation.serviceCategory && (
                   <div
                     className="p-3.5 rounded-xl"
@@ -148,11 +206,36 @@ const TellerUI: React.FC<TellerUIProps> = ({
                   >
                     <p className="text-[11px] text-white/50 mb-0.5">Visit reason</p>
                     <p className="text-[14px] font-semibold text-white">
-                      {VISIT_REASON_LABELS[activeConsultation.serviceCategory]
+                      {SERVICE_CATEGORY_LABELS[activeConsultation.serviceCategory]
                         ?? activeConsultation.serviceCategory.replace(/_/g, ' ')}
                     </p>
                   </div>
                 )}
+                {activeConsultation.dependents && activeConsultation.dependents.length > 0 && (
+                  <div
+                    className="p-3.5 rounded-xl"
+                    style={{ background: 'rgba(255,255,255,0.12)' }}
+                  >
+                    <p className="text-[11px] text-white/50 mb-0.5">Also seeing</p>
+                    {activeConsultation.dependents.map((dependent, index) => (
+                      <p key={index} className="text-[14px] font-semibold text-white">
+                        {dependent.name}
+                        {dependent.serviceCategory && (
+                          <span className="font-normal text-white/60"> · {SERVICE_CATEGORY_LABELS[dependent.serviceCategory]}</span>
+                        )}
+                      </p>
+                    ))}
+                  </div>
+                )}
+                {activeStage && (
+                  <div
+                    className="p-3.5 rounded-xl"
+                    style={{ background: 'rgba(255,255,255,0.12)' }}
+                  >
+                    <p className="text-[11px] text-white/50 mb-0.5">Station</p>
+                    <p className="text-[14px] font-semibold text-white">{activeStage}</p>
+                  </div>
+                )}
               </div>
             ) : (
               <div className="flex-1 flex flex-col items-center justify-center text-center py-10">
@@ -181,7 +264,7 @@ const TellerUI: React.FC<TellerUIProps> = ({
                 data-tour="teller-complete"
               >
                 <CheckCircle size={18} strokeWidth={2} />
-                Complete consultation + call next
+                {sendOnTo ? `Send on to ${STAGE_LABELS[sendOnTo]} + call next` : 'Complete consultation + call next'}
               </button>
             </div>
           </div>
@@ -190,6 +273,147 @@ const TellerUI: React.FC<TellerUIProps> = ({
         {/* ── Right column ─────────────────────────────── */}
         <div className="space-y-4">
 
+          {/* Clinician card */}
+          <div
+            className="bg-white rounded-2xl p-5"
+            style={{ boxShadow: '0 2px 12px rgba(0,0,0,0.06)' }}
+          >
+            <p className="text-[11px] font-semibold text-[#AEAEB2] uppercase tracking-wider mb-3 flex items-center gap-1.5">
+              <BadgeCheck size={13} /> Signed in as
+            </p>
+            <div className="flex gap-2">
+              <select
+                value={me?.id ?? ''}
+                onChange={e => onSelectClinician(e.target.value)}
+                className="flex-1 px-3 py-2.5 rounded-xl bg-[#F5F5F7] text-[14px] text-[#1D1D1F] outline-none"
+              >
+                <option value="" disabled>Choose your name…</option>
+                {clinicians.map(member => (
+                  <option key={member.id} value={member.id}>
+                    {member.name}{isOnShift(member, branch.id, Date.now()) ? '' : ' (off shift)'}
+                  </option>
+                ))}
+              </select>
+              {me && (
+                <button
+                  onClick={() => onSaveStaffMember({ ...me, onBreak: !me.onBreak })}
+                  className={`px-4 py-2.5 rounded-xl text-[13px] font-medium flex items-center gap-1.5 transition-all ${
+                    me.onBreak
+                      ? 'bg-[#FFF8EB] text-[#FF9500]'
+                      : 'bg-[#F5F5F7] text-[#3C3C43] hover:bg-[#EBEBF0]'
+                  }`}
+                >
+                  <Coffee size={14} /> {me.onBreak ? 'End break' : 'Break'}
+                </button>
+              )}
+            </div>
+            {me && !onShift && (
+              <p className="text-[12px] text-[#FF9500] mt-2">
+                You're not rostered at {branch.name} right now.
+              </p>
+            )}
+          </div>
+
+          {/* Room card */}
+          <div
+            className="bg-white rounded-2xl p-5"
+            style={{ boxShadow: '0 2px 12px rgba(0,0,0,0.06)' }}
+          >
+            <p className="text-[11px] font-semibold text-[#AEAEB2] uppercase tracking-wider mb-3 flex items-center gap-1.5">
+              <DoorOpen size={13} /> Your room
+            </p>
+            {branchRooms.length > 0 ? (
+              <div className="flex gap-2">
+                <select
+                  value={myRoom?.id ?? ''}
+                  onChange={e => e.target.value && onTakeRoom(e.target.value)}
+                  className="flex-1 px-3 py-2.5 rounded-xl bg-[#F5F5F7] text-[14px] text-[#1D1D1F] outline-none"
+                >
+                  <option value="">Choose a room…</option>
+                  {branchRooms.map(room => (
+                    <option
+                      key={room.id}
+                      value={room.id}
+                      disabled={!!room.clinicianId && room.clinicianId !== tellerId && room.isOpen}
+                    >
+                      {room.name}
+                      {room.clinicianId && room.clinicianId !== tellerId && room.isOpen ? ` — ${staffName(staff, room.clinicianId)}` : ''}
+                      {!room.isOpen ? ' (closed)' : ''}
+                    </option>
+                  ))}
+                </select>
+                {myRoom && (
+                  <button
+                    onClick={() => onSaveRoom({ ...myRoom, isOpen: false, clinicianId: undefined })}
+                    className="px-4 py-2.5 bg-[#F5F5F7] text-[#3C3C43] rounded-xl text-[13px] font-medium hover:bg-[#EBEBF0] transition-all"
+                  >
+                    Close room
+                  </button>
+                )}
+              </div>
+            ) : (
+              <p className="text-[13px] text-[#AEAEB2]">No rooms set up for this branch.</p>
+            )}
+            {branchRooms.length > 0 && !myRoom && (
+              <p className="text-[12px] text-[#FF9500] mt-2">
+                Patients you call won't be told which room to go to.
+              </p>
+            )}
+          </div>
+
+          {/* Queue pause card */}
+          {onPauseQueue && (
+            <div
+              className="bg-white rounded-2xl p-5"
+              style={{ boxShadow: '0 2px 12px rgba(0,0,0,0.06)' }}
+            >
+              <p className="text-[11px] font-semibold text-[#AEAEB2] uppercase tracking-wider mb-3 flex items-center gap-1.5">
+                <Pause size={13} /> Queue
+              </p>
+              {branch.isPaused ? (
+                <div className="flex items-center gap-2">
+                  <p className="flex-1 text-[13px] text-[#FF9500]">
+                    Paused{pause ? ` since ${new Date(pause.startedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}` : ''}
+                    {pause && describePause(pause) ? ` · ${describePause(pause)}` : ''}
+                  </p>
+                  <button
+                    onClick={() => onPauseQueue()}
+                    className="px-4 py-2.5 bg-[#0071E3] text-white rounded-xl text-[13px] font-semibold hover:bg-[#0077ED] transition-all"
+                  >
+                    Resume
+                  </button>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <input
+                    value={pauseReason}
+                    onChange={e => setPauseReason(e.target.value)}
+                    placeholder="Reason, e.g. staff meeting"
+                    className="flex-1 min-w-0 px-3 py-2.5 rounded-xl bg-[#F5F5F7] text-[14px] text-[#1D1D1F] placeholder:text-[#AEAEB2] outline-none"
+                  />
+                  <input
+                    type="time"
+                    value={resumeTime}
+                    onChange={e => setResumeTime(e.target.value)}
+                    title="Expected to resume at"
+                    className="w-28 px-3 py-2.5 rounded-xl bg-[#F5F5F7] text-[14px] text-[#1D1D1F] outline-none"
+                  />
+                  <button
+                    onClick={handlePause}
+                    className="px-4 py-2.5 bg-[#F5F5F7] text-[#3C3C43] rounded-xl text-[13px] font-medium hover:bg-[#EBEBF0] transition-all"
+                  >
+                    Pause
+                  </button>
+                </div>
+              )}
+              {!branch.isPaused && (
+                <p className="text-[12px] text-[#8E8E93] mt-2">
+                  Stops new joins and call-ins; patients waiting outside are texted.
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Next patient card */}
           <div
             className="bg-white rounded-2xl p-6"
@@ -216,7 +440,22 @@ const TellerUI: React.FC<TellerUIProps> = ({
                       {nextReady.memberId && (
                         <p className="text-[12px] text-[#8E8E93]">ID: {nextReady.memberId}</p>
                       )}
-                      <p className="text-[12px] text-[#AEAEB2]">In waiting room</p>
+                      <p className="text-[12px] text-[#AEAEB2]">
+                        In waiting room{stageLabel(nextReady) ? ` · ${stageLabel(nextReady)}` : ''}
+                      </p>
+                      {acuityOf(nextReady) < DEFAULT_ACUITY && (
+                        <p className="text-[12px] font-semibold" style={{ color: ACUITY_COLORS[acuityOf(nextReady)] }}>
+                          Triage {acuityOf(nextReady)} · {ACUITY_LABELS[acuityOf(nextReady)]}
+                        </p>
+                      )}
+                      {describePriority(nextReady, priorityPolicyFor(branch)) && (
+                        <p className="text-[12px] font-medium text-[#AF52DE]">
+                          Priority · {describePriority(nextReady, priorityPolicyFor(branch))}
+                        </p>
+                      )}
+                      {me && nextReady.preferredClinicianId === me.id && (
+                        <p className="text-[12px] font-medium text-[#0071E3]">Asked to see you</p>
+                      )}
                     </div>
                   </div>
                   <span
@@ -232,18 +471,27 @@ const TellerUI: React.FC<TellerUIProps> = ({
                   <div className="px-3.5 py-3 bg-[#F5F5F7] rounded-xl">
                     <p className="text-[11px] text-[#AEAEB2] mb-0.5">Visit reason</p>
                     <p className="text-[13px] font-medium text-[#1D1D1F]">
-                      {VISIT_REASON_LABELS[nextReady.serviceCategory]
+                      {SERVICE_CATEGORY_LABELS[nextReady.serviceCategory]
                         ?? nextReady.serviceCategory.replace(/_/g, ' ')}
                     </p>
                   </div>
                 )}
 
+                {nextReady.dependents && nextReady.dependents.length > 0 && (
+                  <div className="px-3.5 py-3 bg-[#F5F5F7] rounded-xl">
+                    <p className="text-[11px] text-[#AEAEB2] mb-0.5">Family · {partySize(nextReady)} patients</p>
+                    <p className="text-[13px] font-medium text-[#1D1D1F]">
+                      {nextReady.dependents.map(d => d.name).join(', ')}
+                    </p>
+                  </div>
+                )}
+
                 <div className="flex gap-2">
                   <button
-                    disabled={!!activeConsultation}
+                    disabled={!!activeConsultation || !canCall}
                     onClick={handleCallNext}
                     className={`flex-1 py-3 rounded-xl text-[14px] font-semibold flex items-center justify-center gap-2 transition-all active:scale-[0.98] ${
-                      !activeConsultation
+                      !activeConsultation && canCall
                         ? 'bg-[#1D1D1F] hover:bg-[#2C2C2E] text-white'
                         : 'bg-[#F5F5F7] text-[#AEAEB2] cursor-not-allowed'
                     }`}
@@ -263,9 +511,16 @@ const TellerUI: React.FC<TellerUIProps> = ({
               </div>
             ) : (
               <div className="py-10 text-center">
-                <p className="text-[14px] text-[#AEAEB2]">No patients in the waiting room.</p>
+                <p className="text-[14px] text-[#AEAEB2]">
+                  {forOthers > 0 ? 'No patients you can see are waiting.' : 'No patients in the waiting room.'}
+                </p>
               </div>
             )}
+            {forOthers > 0 && (
+              <p className="text-[12px] text-[#8E8E93] mt-3">
+                {forOthers} waiting {forOthers === 1 ? 'patient needs' : 'patients need'} a different clinician, station or room.
+              </p>
+            )}
           </div>
 
           {/* Today's stats */}
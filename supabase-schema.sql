@@ -8,11 +8,22 @@ CREATE TABLE IF NOT EXISTS branches (
   name TEXT NOT NULL,
   address TEXT NOT NULL,
   phone TEXT NOT NULL,
+  service TEXT NOT NULL DEFAULT '',                 -- services offered, shown to patients
   avg_transaction_time INTEGER NOT NULL DEFAULT 15, -- avg consultation time in minutes
   grace_period_minutes INTEGER NOT NULL DEFAULT 10, -- grace period for patient check-in confirmation
   is_active BOOLEAN NOT NULL DEFAULT true,
+  is_paused BOOLEAN NOT NULL DEFAULT false,         -- not accepting new patients
   max_in_building INTEGER NOT NULL DEFAULT 10,      -- max patients in waiting room
   exclude_in_service_from_capacity BOOLEAN NOT NULL DEFAULT false,
+  pathways JSONB,                                   -- {serviceCategory: [stage, ...]}; NULL = defaults
+  preference_hold_minutes INTEGER,                  -- hold for a preferred clinician; NULL = 30
+  opening_hours JSONB,                              -- [{dayOfWeek, open, close}]; NULL = always open
+  holidays TEXT[],                                  -- 'YYYY-MM-DD' local dates the branch is closed
+  settings_history JSONB,                           -- [{field, from, to, changedAt, changedBy}]
+  priority_policy JSONB,                            -- {skipPlaces, earlyEntry, graceExempt}; NULL = default
+  grace_policy JSONB,                               -- {action, bumpPlaces, notHereAfterMisses, warnMinutesBefore}; NULL = default
+  pause_history JSONB,                              -- [{startedAt, endedAt, reason, expectedResumeAt, pausedBy}]
+  version INTEGER NOT NULL DEFAULT 1,               -- Optimistic-concurrency counter, bumped on every update
   created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
 );
@@ -21,6 +32,7 @@ CREATE TABLE IF NOT EXISTS branches (
 CREATE TABLE IF NOT EXISTS tickets (
   id TEXT PRIMARY KEY,
   queue_number INTEGER NOT NULL,
+  check_in_code TEXT,            -- Short code read out at reception, e.g. 'K7Q-42'
   name TEXT NOT NULL,
   phone TEXT NOT NULL,
   member_id TEXT,                -- Patient / chart ID
@@ -35,9 +47,16 @@ CREATE TABLE IF NOT EXISTS tickets (
     'GENERAL_CHECKUP', 'FOLLOW_UP', 'CONSULTATION',
     'VACCINATION', 'EMERGENCY', 'LAB_RESULTS', 'OTHER'
   )),
+  acuity INTEGER CHECK (acuity BETWEEN 1 AND 5), -- Triage level, 1 = immediate … 5 = non-urgent
+  priority_flags TEXT[],         -- ELDERLY, PREGNANT, DISABLED, WITH_INFANT
+  pathway TEXT[],                -- Stations the visit passes through, e.g. {NURSE,DOCTOR}
+  stage_index INTEGER,           -- Position in pathway of the current station
   counter_id TEXT,               -- Consultation room / station
   teller_id TEXT,                -- Doctor / staff member ID
+  preferred_clinician_id TEXT,   -- Clinician the patient asked to see
+  dependents JSONB,              -- Family members seen in the same visit: [{name, serviceCategory}]
   joined_at BIGINT NOT NULL,
+  in_line_at BIGINT,             -- Place in line as a time, for patients placed by time (transfers, reinstatements)
   called_at BIGINT,
   eligible_for_entry_at BIGINT,  -- When patient was called to check in
   entered_building_at BIGINT,    -- When patient entered the waiting room
@@ -45,15 +64,52 @@ CREATE TABLE IF NOT EXISTS tickets (
   transaction_started_at BIGINT, -- When consultation started
   transaction_ended_at BIGINT,   -- When consultation ended
   bumped_at BIGINT,
+  grace_misses INTEGER,          -- Check-in windows missed so far
+  grace_warned_at BIGINT,        -- When the closing-window warning was sent
   feedback_stars INTEGER,
   audit_notes TEXT,              -- Triage / reception notes
   status_history JSONB,          -- Audit log of all status transitions
   wait_time_minutes INTEGER,     -- Calculated pre-consultation wait time
   is_no_show BOOLEAN DEFAULT false,
+  version INTEGER NOT NULL DEFAULT 1, -- Optimistic-concurrency counter, bumped on every update
   created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
 );
 
+-- Consultation rooms / stations at each branch
+CREATE TABLE IF NOT EXISTS rooms (
+  id TEXT PRIMARY KEY,
+  branch_id TEXT NOT NULL REFERENCES branches(id),
+  name TEXT NOT NULL,            -- Shown to patients, e.g. 'Room 3'
+  is_open BOOLEAN NOT NULL DEFAULT true,
+  clinician_id TEXT,             -- Doctor / staff member working in the room
+  service_categories TEXT[],     -- Visit reasons the room is equipped for; NULL = any
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Staff directory and weekly shift roster
+CREATE TABLE IF NOT EXISTS staff (
+  id TEXT PRIMARY KEY,           -- Referenced by tickets.teller_id
+  name TEXT NOT NULL,            -- Display name
+  role TEXT NOT NULL CHECK (role IN ('DOCTOR', 'NURSE', 'RECEPTIONIST', 'MANAGER')),
+  shifts JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{branchId, dayOfWeek, start, end}]
+  service_categories TEXT[],     -- Visit reasons they see; NULL = any
+  stages TEXT[],                 -- Stations they staff; NULL = the role's default
+  on_break BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Per-branch, per-day queue number counters (see next_queue_number below)
+CREATE TABLE IF NOT EXISTS queue_counters (
+  branch_id TEXT NOT NULL REFERENCES branches(id),
+  service_day DATE NOT NULL,     -- Clinic-local calendar day
+  last_number INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (branch_id, service_day)
+);
+
 -- Indexes for efficient lookups
 CREATE INDEX IF NOT EXISTS idx_tickets_queue_number ON tickets(queue_number);
 CREATE INDEX IF NOT EXISTS idx_tickets_status ON tickets(status);
@@ -62,6 +118,8 @@ CREATE INDEX IF NOT EXISTS idx_tickets_joined_at ON tickets(joined_at);
 CREATE INDEX IF NOT EXISTS idx_tickets_created_at ON tickets(created_at);
 CREATE INDEX IF NOT EXISTS idx_tickets_service_category ON tickets(service_category);
 CREATE INDEX IF NOT EXISTS idx_tickets_teller_id ON tickets(teller_id);
+CREATE INDEX IF NOT EXISTS idx_tickets_check_in_code ON tickets(check_in_code);
+CREATE INDEX IF NOT EXISTS idx_rooms_branch_id ON rooms(branch_id);
 
 -- Auto-update updated_at timestamps
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -78,9 +136,48 @@ CREATE TRIGGER update_tickets_updated_at BEFORE UPDATE ON tickets
 CREATE TRIGGER update_branches_updated_at BEFORE UPDATE ON branches
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_rooms_updated_at BEFORE UPDATE ON rooms
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_staff_updated_at BEFORE UPDATE ON staff
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Bump tickets.version and branches.version on every update so clients can write conditionally
+-- (UPDATE ... WHERE version = <the version they read>)
+CREATE OR REPLACE FUNCTION bump_version_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.version = OLD.version + 1;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER bump_tickets_version BEFORE UPDATE ON tickets
+    FOR EACH ROW EXECUTE FUNCTION bump_version_column();
+
+CREATE TRIGGER bump_branches_version BEFORE UPDATE ON branches
+    FOR EACH ROW EXECUTE FUNCTION bump_version_column();
+
+-- Issue the next queue number for a branch and day. The upsert takes a row
+-- lock, so concurrent joins are serialized and never share a number.
+-- SECURITY DEFINER: clients can draw numbers but cannot edit the counters.
+CREATE OR REPLACE FUNCTION next_queue_number(p_branch_id TEXT, p_service_day DATE)
+RETURNS INTEGER AS $$
+    INSERT INTO queue_counters (branch_id, service_day, last_number)
+    VALUES (p_branch_id, p_service_day, 1)
+    ON CONFLICT (branch_id, service_day)
+    DO UPDATE SET last_number = queue_counters.last_number + 1
+    RETURNING last_number;
+$$ language 'sql' VOLATILE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION next_queue_number(TEXT, DATE) TO anon, authenticated;
+
 -- Row Level Security (RLS)
 ALTER TABLE tickets ENABLE ROW LEVEL SECURITY;
 ALTER TABLE branches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rooms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE staff ENABLE ROW LEVEL SECURITY;
+ALTER TABLE queue_counters ENABLE ROW LEVEL SECURITY; -- no policies: only next_queue_number touches it
 
 -- Policies (open for development — tighten with auth-based policies in production)
 CREATE POLICY "Allow public inserts" ON tickets FOR INSERT WITH CHECK (true);
@@ -88,11 +185,55 @@ CREATE POLICY "Allow public reads" ON tickets FOR SELECT USING (true);
 CREATE POLICY "Allow public updates" ON tickets FOR UPDATE USING (true);
 CREATE POLICY "Allow public deletes" ON tickets FOR DELETE USING (true);
 CREATE POLICY "Allow public reads" ON branches FOR SELECT USING (true);
+CREATE POLICY "Allow public updates" ON branches FOR UPDATE USING (true);
+CREATE POLICY "Allow public inserts" ON rooms FOR INSERT WITH CHECK (true);
+CREATE POLICY "Allow public reads" ON rooms FOR SELECT USING (true);
+CREATE POLICY "Allow public updates" ON rooms FOR UPDATE USING (true);
+CREATE POLICY "Allow public deletes" ON rooms FOR DELETE USING (true);
+CREATE POLICY "Allow public inserts" ON staff FOR INSERT WITH CHECK (true);
+CREATE POLICY "Allow public reads" ON staff FOR SELECT USING (true);
+CREATE POLICY "Allow public updates" ON staff FOR UPDATE USING (true);
+
+-- Realtime: broadcast ticket, branch, room and staff changes so every reception, consultation and
+-- patient screen updates without a reload
+ALTER PUBLICATION supabase_realtime ADD TABLE tickets;
+ALTER PUBLICATION supabase_realtime ADD TABLE branches;
+ALTER PUBLICATION supabase_realtime ADD TABLE rooms;
+ALTER PUBLICATION supabase_realtime ADD TABLE staff;
 
 -- Seed: Default clinic location
-INSERT INTO branches (id, name, address, phone, avg_transaction_time, grace_period_minutes, is_active, max_in_building)
+INSERT INTO branches (id, name, address, phone, service, avg_transaction_time, grace_period_minutes, is_active, max_in_building, opening_hours)
+VALUES
+  ('main-clinic', 'Main Clinic', '1 Health Avenue, DocQline Medical Centre', '+1-555-0100', 'General Practice & Walk-in Care', 15, 10, true, 10,
+    '[{"dayOfWeek":1,"open":"07:30","close":"20:00"},{"dayOfWeek":2,"open":"07:30","close":"20:00"},
+      {"dayOfWeek":3,"open":"07:30","close":"20:00"},{"dayOfWeek":4,"open":"07:30","close":"20:00"},
+      {"dayOfWeek":5,"open":"07:30","close":"20:00"},{"dayOfWeek":6,"open":"09:00","close":"13:00"}]'::jsonb)
+ON CONFLICT (id) DO NOTHING;
+
+-- Seed: Consultation rooms for the default location
+INSERT INTO rooms (id, branch_id, name, is_open, clinician_id)
 VALUES
-  ('main-clinic', 'Main Clinic', '1 Health Avenue, DocQline Medical Centre', '+1-555-0100', 15, 10, true, 10)
+  ('main-clinic-room-1', 'main-clinic', 'Room 1', true, 'Doctor-1'),
+  ('main-clinic-room-2', 'main-clinic', 'Room 2', true, NULL),
+  ('main-clinic-room-3', 'main-clinic', 'Room 3', false, NULL)
+ON CONFLICT (id) DO NOTHING;
+
+-- Seed: Staff directory (weekday shifts at the default location)
+INSERT INTO staff (id, name, role, shifts, service_categories)
+SELECT id, name, role, (
+  SELECT jsonb_agg(jsonb_build_object('branchId', 'main-clinic', 'dayOfWeek', d, 'start', shift_start, 'end', shift_end))
+  FROM generate_series(1, 5) AS d
+), service_categories
+FROM (VALUES
+  ('Doctor-1', 'Dr. Amelia Hart', 'DOCTOR', '08:00', '16:00',
+    ARRAY['GENERAL_CHECKUP', 'FOLLOW_UP', 'CONSULTATION', 'EMERGENCY', 'LAB_RESULTS', 'OTHER']),
+  ('Doctor-2', 'Dr. Ravi Patel', 'DOCTOR', '12:00', '20:00',
+    ARRAY['GENERAL_CHECKUP', 'FOLLOW_UP', 'CONSULTATION', 'EMERGENCY', 'LAB_RESULTS', 'OTHER']),
+  ('Nurse-1', 'Nurse Grace Okafor', 'NURSE', '08:00', '16:00',
+    ARRAY['GENERAL_CHECKUP', 'CONSULTATION', 'VACCINATION', 'EMERGENCY', 'FOLLOW_UP', 'LAB_RESULTS']),
+  ('Reception-1', 'Sam Lee', 'RECEPTIONIST', '07:30', '17:30', NULL),
+  ('Manager-1', 'Jordan Mensah', 'MANAGER', '08:00', '17:00', NULL)
+) AS seed(id, name, role, shift_start, shift_end, service_categories)
 ON CONFLICT (id) DO NOTHING;
 
 -- Migration note:
@@ -110,3 +251,104 @@ ON CONFLICT (id) DO NOTHING;
 --       'GENERAL_CHECKUP', 'FOLLOW_UP', 'CONSULTATION',
 --       'VACCINATION', 'EMERGENCY', 'LAB_RESULTS', 'OTHER'
 --     );
+--
+-- Databases created before tickets had a version column need:
+--
+--   ALTER TABLE tickets ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+--   -- then create bump_version_column() and the bump_tickets_version trigger above
+--
+-- Databases created before queue numbers were issued by the server need the
+-- queue_counters table and next_queue_number() above. If tickets already exist
+-- for today, seed the counter so numbering continues where it left off:
+--
+--   INSERT INTO queue_counters (branch_id, service_day, last_number)
+--   SELECT branch_id, CURRENT_DATE, MAX(queue_number) FROM tickets
+--   WHERE to_timestamp(joined_at / 1000)::date = CURRENT_DATE GROUP BY branch_id
+--   ON CONFLICT (branch_id, service_day) DO NOTHING;
+--
+-- Branch settings are now loaded from this table. Older databases need:
+--
+--   ALTER TABLE branches ADD COLUMN IF NOT EXISTS service TEXT NOT NULL DEFAULT '';
+--   ALTER TABLE branches ADD COLUMN IF NOT EXISTS is_paused BOOLEAN NOT NULL DEFAULT false;
+--   CREATE POLICY "Allow public updates" ON branches FOR UPDATE USING (true);
+--   ALTER PUBLICATION supabase_realtime ADD TABLE branches;
+--
+-- Check-in codes (ticket ids are now UUIDv7 strings, so id needs no change):
+--
+--   ALTER TABLE tickets ADD COLUMN IF NOT EXISTS check_in_code TEXT;
+--   CREATE INDEX IF NOT EXISTS idx_tickets_check_in_code ON tickets(check_in_code);
+--
+-- Consultation rooms: older databases need the rooms table, its index,
+-- trigger, policies and seed rows above, plus:
+--
+--   ALTER TABLE rooms ENABLE ROW LEVEL SECURITY;
+--   ALTER PUBLICATION supabase_realtime ADD TABLE rooms;
+--
+-- Staff directory: older databases need the staff table, trigger, policies and
+-- seed rows above, plus:
+--
+--   ALTER TABLE staff ENABLE ROW LEVEL SECURITY;
+--   ALTER PUBLICATION supabase_realtime ADD TABLE staff;
+--
+-- Skill-based routing (visit reasons per clinician and room):
+--
+--   ALTER TABLE staff ADD COLUMN IF NOT EXISTS service_categories TEXT[];
+--   ALTER TABLE rooms ADD COLUMN IF NOT EXISTS service_categories TEXT[];
+--
+-- Multi-stage visit pathways:
+--
+--   ALTER TABLE tickets ADD COLUMN IF NOT EXISTS pathway TEXT[];
+--   ALTER TABLE tickets ADD COLUMN IF NOT EXISTS stage_index INTEGER;
+--   ALTER TABLE branches ADD COLUMN IF NOT EXISTS pathways JSONB;
+--   ALTER TABLE staff ADD COLUMN IF NOT EXISTS stages TEXT[];
+--
+-- Preferred clinicians:
+--
+--   ALTER TABLE tickets ADD COLUMN IF NOT EXISTS preferred_clinician_id TEXT;
+--   ALTER TABLE branches ADD COLUMN IF NOT EXISTS preference_hold_minutes INTEGER;
+--
+-- Opening hours and holidays (branches without hours stay open around the clock):
+--
+--   ALTER TABLE branches ADD COLUMN IF NOT EXISTS opening_hours JSONB;
+--   ALTER TABLE branches ADD COLUMN IF NOT EXISTS holidays TEXT[];
+--
+-- Branch settings change history:
+--
+--   ALTER TABLE branches ADD COLUMN IF NOT EXISTS settings_history JSONB;
+--
+-- Managers in the staff directory, so settings edits record who made them:
+--
+--   ALTER TABLE staff DROP CONSTRAINT IF EXISTS staff_role_check;
+--   ALTER TABLE staff ADD CONSTRAINT staff_role_check CHECK (role IN ('DOCTOR', 'NURSE', 'RECEPTIONIST', 'MANAGER'));
+--
+-- Family and group tickets:
+--
+--   ALTER TABLE tickets ADD COLUMN IF NOT EXISTS dependents JSONB;
+--
+-- Triage acuity:
+--
+--   ALTER TABLE tickets ADD COLUMN IF NOT EXISTS acuity INTEGER CHECK (acuity BETWEEN 1 AND 5);
+--
+-- Priority access flags:
+--
+--   ALTER TABLE tickets ADD COLUMN IF NOT EXISTS priority_flags TEXT[];
+--   ALTER TABLE branches ADD COLUMN IF NOT EXISTS priority_policy JSONB;
+--
+-- Grace-period expiry policy:
+--
+--   ALTER TABLE tickets ADD COLUMN IF NOT EXISTS grace_misses INTEGER;
+--   ALTER TABLE tickets ADD COLUMN IF NOT EXISTS grace_warned_at BIGINT;
+--   ALTER TABLE branches ADD COLUMN IF NOT EXISTS grace_policy JSONB;
+--
+-- Queue pause intervals:
+--
+--   ALTER TABLE branches ADD COLUMN IF NOT EXISTS pause_history JSONB;
+--
+-- Transferred patients placed in line by join time:
+--
+--   ALTER TABLE tickets ADD COLUMN IF NOT EXISTS in_line_at BIGINT;
+--
+-- Branch versions, so concurrent settings and pause edits don't overwrite each other's log entries:
+--
+--   ALTER TABLE branches ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+--   -- then create the bump_branches_version trigger above
@@ -1,6 +1,36 @@
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { createClient, RealtimeChannel, SupabaseClient } from '@supabase/supabase-js';
 import { SUPABASE_CONFIG } from './config';
-import { Ticket } from './types';
+import { ConnectionStatus } from './types';
+import {
+  StaleTicketError,
+  TicketRepository,
+  createLocalStorageTicketRepository,
+  ticketFromRow,
+  ticketToRow,
+} from './utils/ticketRepository';
+import { TicketOutbox, createTicketOutbox } from './utils/ticketOutbox';
+import {
+  BranchRepository,
+  StaleBranchError,
+  branchFromRow,
+  branchToRow,
+  createLocalStorageBranchRepository,
+  validateBranchPatch,
+} from './utils/branchRepository';
+import {
+  RoomRepository,
+  createLocalStorageRoomRepository,
+  roomFromRow,
+  roomToRow,
+  validateRoom,
+} from './utils/roomRepository';
+import {
+  StaffRepository,
+  createLocalStorageStaffRepository,
+  staffFromRow,
+  staffToRow,
+  validateStaffMember,
+} from './utils/staffRepository';
 
 // Initialize Supabase client
 export const supabase: SupabaseClient | null = SUPABASE_CONFIG.url && SUPABASE_CONFIG.anonKey
@@ -14,242 +44,368 @@ if (supabase) {
   console.warn('⚠ Supabase not configured. App will use localStorage fallback.');
 }
 
-// Helper functions to transform between database format (snake_case) and app format (camelCase)
-function ticketToDbFormat(ticket: Ticket): any {
-  return {
-    id: ticket.id,
-    queue_number: ticket.queueNumber,
-    name: ticket.name,
-    phone: ticket.phone,
-    member_id: ticket.memberId,
-    channel: ticket.channel,
-    status: ticket.status,
-    branch_id: ticket.branchId,
-    service_category: ticket.serviceCategory,
-    counter_id: ticket.counterId,
-    teller_id: ticket.tellerId,
-    joined_at: ticket.joinedAt,
-    called_at: ticket.calledAt,
-    eligible_for_entry_at: ticket.eligibleForEntryAt,
-    entered_building_at: ticket.enteredBuildingAt,
-    left_building_at: ticket.leftBuildingAt,
-    transaction_started_at: ticket.transactionStartedAt,
-    transaction_ended_at: ticket.transactionEndedAt,
-    bumped_at: ticket.bumpedAt,
-    feedback_stars: ticket.feedbackStars,
-    audit_notes: ticket.auditNotes,
-    status_history: ticket.statusHistory ? JSON.stringify(ticket.statusHistory) : null,
-    wait_time_minutes: ticket.waitTimeMinutes,
-    is_no_show: ticket.isNoShow,
-  };
-}
+type TableRow = Record<string, unknown>;
 
-function ticketFromDbFormat(dbTicket: any): Ticket {
-  return {
-    id: dbTicket.id,
-    queueNumber: dbTicket.queue_number ?? dbTicket.queueNumber,
-    name: dbTicket.name,
-    phone: dbTicket.phone,
-    memberId: dbTicket.member_id ?? dbTicket.memberId,
-    channel: dbTicket.channel,
-    status: dbTicket.status,
-    branchId: dbTicket.branch_id ?? dbTicket.branchId,
-    serviceCategory: dbTicket.service_category ?? dbTicket.serviceCategory,
-    counterId: dbTicket.counter_id ?? dbTicket.counterId,
-    tellerId: dbTicket.teller_id ?? dbTicket.tellerId,
-    joinedAt: dbTicket.joined_at ?? dbTicket.joinedAt,
-    calledAt: dbTicket.called_at ?? dbTicket.calledAt,
-    eligibleForEntryAt: dbTicket.eligible_for_entry_at ?? dbTicket.eligibleForEntryAt,
-    enteredBuildingAt: dbTicket.entered_building_at ?? dbTicket.enteredBuildingAt,
-    leftBuildingAt: dbTicket.left_building_at ?? dbTicket.leftBuildingAt,
-    transactionStartedAt: dbTicket.transaction_started_at ?? dbTicket.transactionStartedAt,
-    transactionEndedAt: dbTicket.transaction_ended_at ?? dbTicket.transactionEndedAt,
-    bumpedAt: dbTicket.bumped_at ?? dbTicket.bumpedAt,
-    feedbackStars: dbTicket.feedback_stars ?? dbTicket.feedbackStars,
-    auditNotes: dbTicket.audit_notes ?? dbTicket.auditNotes,
-    statusHistory: dbTicket.status_history ? (typeof dbTicket.status_history === 'string' ? JSON.parse(dbTicket.status_history) : dbTicket.status_history) : undefined,
-    waitTimeMinutes: dbTicket.wait_time_minutes ?? dbTicket.waitTimeMinutes,
-    isNoShow: dbTicket.is_no_show ?? dbTicket.isNoShow,
-  };
+export interface TableSubscriptionHandlers {
+  onInsert(row: TableRow): void;
+  onUpdate(row: TableRow): void;
+  /** Without it, a delete triggers a backfill, for tables whose rows are only used whole. */
+  onDelete?(oldRow: TableRow): void;
+  /** Called after every (re)subscribe to backfill changes missed while disconnected. */
+  onResync(): Promise<void>;
+  onStatus?(status: ConnectionStatus): void;
 }
 
-// Helper functions for CRUD operations
+// Backoff between reconnect attempts; the last delay repeats.
+const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000, 30000];
 
 /**
- * Save a ticket to Supabase (with localStorage fallback)
+ * Subscribe to postgres_changes on a table and keep the subscription alive:
+ * a dropped channel is torn down and re-created with backoff, the browser's
+ * online/offline events short-circuit the wait, and every successful
+ * subscribe triggers a backfill.
  */
-export async function saveTicketToSupabase(ticket: Ticket): Promise<Ticket | null> {
-  if (!supabase) {
-    // Fallback to localStorage
-    const existing = JSON.parse(localStorage.getItem('doqline_tickets') || '[]');
-    const updated = [...existing, ticket];
-    localStorage.setItem('doqline_tickets', JSON.stringify(updated));
-    return ticket;
-  }
-
-  try {
-    const dbTicket = ticketToDbFormat(ticket);
-    const { data, error } = await supabase
-      .from('tickets')
-      .insert([dbTicket])
-      .select()
-      .single();
+export const subscribeToTable = (
+  client: SupabaseClient,
+  table: string,
+  handlers: TableSubscriptionHandlers,
+): (() => void) => {
+  let channel: RealtimeChannel | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempt = 0;
+  let stopped = false;
 
-    if (error) throw error;
-    console.log('✓ Saved ticket to Supabase:', data);
-    return ticketFromDbFormat(data);
-  } catch (error) {
-    console.error('✗ Supabase error:', error);
-    // Fallback to localStorage
-    const existing = JSON.parse(localStorage.getItem('doqline_tickets') || '[]');
-    const updated = [...existing, ticket];
-    localStorage.setItem('doqline_tickets', JSON.stringify(updated));
-    return ticket;
-  }
-}
+  const teardown = () => {
+    if (channel) {
+      const closing = channel;
+      channel = null;
+      client.removeChannel(closing);
+    }
+  };
+
+  const resync = async () => {
+    try {
+      await handlers.onResync();
+    } catch (error) {
+      console.error(`✗ Backfill of ${table} failed:`, error);
+    }
+  };
+
+  const scheduleReconnect = () => {
+    teardown();
+    if (stopped || retryTimer) return;
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      handlers.onStatus?.('offline'); // wait for the 'online' event
+      return;
+    }
+    handlers.onStatus?.('reconnecting');
+    const delay = RECONNECT_DELAYS_MS[Math.min(attempt, RECONNECT_DELAYS_MS.length - 1)];
+    attempt++;
+    retryTimer = setTimeout(() => { retryTimer = null; connect(); }, delay);
+  };
+
+  const connect = () => {
+    if (stopped) return;
+    handlers.onStatus?.(attempt === 0 ? 'connecting' : 'reconnecting');
+    const current = client
+      .channel(`${table}-changes-${Date.now()}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table }, payload => {
+        if (payload.eventType === 'INSERT') handlers.onInsert(payload.new);
+        if (payload.eventType === 'UPDATE') handlers.onUpdate(payload.new);
+        if (payload.eventType === 'DELETE') {
+          if (handlers.onDelete) handlers.onDelete(payload.old);
+          else resync();
+        }
+      });
+    channel = current;
+    current.subscribe(async status => {
+      if (stopped || current !== channel) return; // a channel we already replaced
+      if (status === 'SUBSCRIBED') {
+        attempt = 0;
+        handlers.onStatus?.('live');
+        await resync();
+      } else {
+        // CHANNEL_ERROR, TIMED_OUT or CLOSED
+        console.warn(`⚠ Realtime ${table} channel ${status}, reconnecting…`);
+        scheduleReconnect();
+      }
+    });
+  };
+
+  const handleOnline = () => {
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+    if (!channel) connect();
+  };
+  const handleOffline = () => {
+    teardown();
+    handlers.onStatus?.('offline');
+  };
+
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  connect();
+
+  return () => {
+    stopped = true;
+    if (retryTimer) clearTimeout(retryTimer);
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+    teardown();
+  };
+};
 
 /**
- * Load all tickets from Supabase (with localStorage fallback)
+ * Supabase backend for tickets. Errors are thrown, not swallowed — wrap it
+ * with `createTicketOutbox` to keep working offline.
  */
-export async function loadTicketsFromSupabase(): Promise<Ticket[]> {
-  if (!supabase) {
-    // Fallback to localStorage
-    return JSON.parse(localStorage.getItem('doqline_tickets') || '[]');
-  }
-
-  try {
-    const { data, error } = await supabase
+export const createSupabaseTicketRepository = (client: SupabaseClient): TicketRepository => ({
+  async list() {
+    const { data, error } = await client
       .from('tickets')
       .select('*')
       .order('joined_at', { ascending: true });
 
     if (error) throw error;
-    return (data || []).map(ticketFromDbFormat);
-  } catch (error) {
-    console.error('✗ Supabase error:', error);
-    // Fallback to localStorage
-    return JSON.parse(localStorage.getItem('doqline_tickets') || '[]');
-  }
-}
+    return (data || []).map(ticketFromRow);
+  },
 
-/**
- * Update a ticket in Supabase (with localStorage fallback)
- */
-export async function updateTicketInSupabase(id: string, updates: Partial<Ticket>): Promise<Ticket | null> {
-  if (!supabase) {
-    // Fallback to localStorage
-    const existing = JSON.parse(localStorage.getItem('doqline_tickets') || '[]');
-    const updated = existing.map((ticket: Ticket) =>
-      ticket.id === id ? { ...ticket, ...updates } : ticket
-    );
-    localStorage.setItem('doqline_tickets', JSON.stringify(updated));
-    return updated.find((t: Ticket) => t.id === id) || null;
-  }
-
-  try {
-    // Transform updates to database format
-    const dbUpdates: any = {};
-    if (updates.queueNumber !== undefined) dbUpdates.queue_number = updates.queueNumber;
-    if (updates.name !== undefined) dbUpdates.name = updates.name;
-    if (updates.phone !== undefined) dbUpdates.phone = updates.phone;
-    if (updates.memberId !== undefined) dbUpdates.member_id = updates.memberId;
-    if (updates.channel !== undefined) dbUpdates.channel = updates.channel;
-    if (updates.status !== undefined) dbUpdates.status = updates.status;
-    if (updates.branchId !== undefined) dbUpdates.branch_id = updates.branchId;
-    if (updates.serviceCategory !== undefined) dbUpdates.service_category = updates.serviceCategory;
-    if (updates.counterId !== undefined) dbUpdates.counter_id = updates.counterId;
-    if (updates.tellerId !== undefined) dbUpdates.teller_id = updates.tellerId;
-    if (updates.joinedAt !== undefined) dbUpdates.joined_at = updates.joinedAt;
-    if (updates.calledAt !== undefined) dbUpdates.called_at = updates.calledAt;
-    if (updates.transactionStartedAt !== undefined) dbUpdates.transaction_started_at = updates.transactionStartedAt;
-    if (updates.transactionEndedAt !== undefined) dbUpdates.transaction_ended_at = updates.transactionEndedAt;
-    if (updates.bumpedAt !== undefined) dbUpdates.bumped_at = updates.bumpedAt;
-    if (updates.feedbackStars !== undefined) dbUpdates.feedback_stars = updates.feedbackStars;
-    if (updates.auditNotes !== undefined) dbUpdates.audit_notes = updates.auditNotes;
-    if (updates.waitTimeMinutes !== undefined) dbUpdates.wait_time_minutes = updates.waitTimeMinutes;
-    if (updates.isNoShow !== undefined) dbUpdates.is_no_show = updates.isNoShow;
-
-    const { data, error } = await supabase
+  async insert(ticket) {
+    const { data, error } = await client
       .from('tickets')
-      .update(dbUpdates)
-      .eq('id', id)
+      .insert([ticketToRow(ticket)])
       .select()
       .single();
 
     if (error) throw error;
-    return ticketFromDbFormat(data);
-  } catch (error) {
-    console.error('✗ Supabase error:', error);
-    // Fallback to localStorage
-    const existing = JSON.parse(localStorage.getItem('doqline_tickets') || '[]');
-    const updated = existing.map((ticket: Ticket) =>
-      ticket.id === id ? { ...ticket, ...updates } : ticket
-    );
-    localStorage.setItem('doqline_tickets', JSON.stringify(updated));
-    return updated.find((t: Ticket) => t.id === id) || null;
-  }
-}
+    console.log('✓ Saved ticket to Supabase:', data);
+    return ticketFromRow(data);
+  },
 
-/**
- * Delete a ticket from Supabase (with localStorage fallback)
- */
-export async function deleteTicketFromSupabase(id: string): Promise<void> {
-  if (!supabase) {
-    // Fallback to localStorage
-    const existing = JSON.parse(localStorage.getItem('doqline_tickets') || '[]');
-    const filtered = existing.filter((ticket: Ticket) => ticket.id !== id);
-    localStorage.setItem('doqline_tickets', JSON.stringify(filtered));
-    return;
-  }
-
-  try {
-    const { error } = await supabase
+  async update(id, patch, expectedVersion) {
+    let query = client
+      .from('tickets')
+      .update(ticketToRow(patch))
+      .eq('id', id);
+    if (expectedVersion !== undefined) query = query.eq('version', expectedVersion);
+    const { data, error } = await query.select().maybeSingle();
+
+    if (error) throw error;
+    if (!data && expectedVersion !== undefined) throw new StaleTicketError(id, expectedVersion);
+    return data ? ticketFromRow(data) : null;
+  },
+
+  async remove(id) {
+    const { error } = await client
       .from('tickets')
       .delete()
       .eq('id', id);
 
     if (error) throw error;
     console.log('✓ Deleted ticket from Supabase');
-  } catch (error) {
-    console.error('✗ Supabase error:', error);
-    // Fallback to localStorage
-    const existing = JSON.parse(localStorage.getItem('doqline_tickets') || '[]');
-    const filtered = existing.filter((ticket: Ticket) => ticket.id !== id);
-    localStorage.setItem('doqline_tickets', JSON.stringify(filtered));
-  }
-}
+  },
+
+  async upsertMany(tickets) {
+    if (tickets.length === 0) return;
+    const { error } = await client
+      .from('tickets')
+      .upsert(tickets.map(ticketToRow), { onConflict: 'id' });
+
+    if (error) throw error;
+    console.log(`✓ Synced ${tickets.length} ticket(s) to Supabase`);
+  },
+
+  async allocateQueueNumber(branchId, serviceDay) {
+    const { data, error } = await client.rpc('next_queue_number', {
+      p_branch_id: branchId,
+      p_service_day: serviceDay,
+    });
+
+    if (error) throw error;
+    return data as number;
+  },
+
+  subscribe(onEvent, onStatus) {
+    return subscribeToTable(client, 'tickets', {
+      onInsert: row => onEvent({ type: 'upsert', ticket: ticketFromRow(row) }),
+      onUpdate: row => onEvent({ type: 'upsert', ticket: ticketFromRow(row) }),
+      onDelete: row => onEvent({ type: 'delete', id: String(row.id) }),
+      onResync: async () => {
+        const { data, error } = await client
+          .from('tickets')
+          .select('*')
+          .order('joined_at', { ascending: true });
+        if (error) throw error;
+        onEvent({ type: 'resync', tickets: (data || []).map(ticketFromRow) });
+      },
+      onStatus,
+    });
+  },
+});
 
 /**
- * Save all tickets to Supabase (for bulk operations)
+ * Offline outbox in front of Supabase: writes are cached locally, queued in
+ * localStorage and replayed when the connection returns. Null when Supabase
+ * is not configured.
  */
-export async function saveAllTicketsToSupabase(tickets: Ticket[]): Promise<void> {
-  if (!supabase) {
-    localStorage.setItem('doqline_tickets', JSON.stringify(tickets));
-    return;
-  }
-
-  try {
-    // Clear existing tickets and insert all
-    const { error: deleteError } = await supabase
-      .from('tickets')
-      .delete()
-      .neq('id', '00000000-0000-0000-0000-000000000000'); // Delete all
+export const ticketOutbox: TicketOutbox | null = supabase
+  ? createTicketOutbox(createSupabaseTicketRepository(supabase), createLocalStorageTicketRepository())
+  : null;
 
-    if (deleteError && deleteError.code !== 'PGRST116') throw deleteError; // Ignore "no rows" error
+/**
+ * The app-wide ticket repository: Supabase behind the offline outbox when
+ * configured, localStorage alone otherwise.
+ */
+export const ticketRepository: TicketRepository = ticketOutbox ?? createLocalStorageTicketRepository();
 
-    if (tickets.length > 0) {
-      const dbTickets = tickets.map(ticketToDbFormat);
-      const { error: insertError } = await supabase
-        .from('tickets')
-        .insert(dbTickets);
+/**
+ * Supabase backend for branch configuration. Errors are thrown.
+ */
+export const createSupabaseBranchRepository = (client: SupabaseClient): BranchRepository => {
+  const list = async () => {
+    const { data, error } = await client
+      .from('branches')
+      .select('*')
+      .order('name', { ascending: true });
 
-      if (insertError) throw insertError;
-    }
+    if (error) throw error;
+    return (data || []).map(branchFromRow);
+  };
 
-    console.log('✓ Saved all tickets to Supabase');
-  } catch (error) {
-    console.error('✗ Supabase error:', error);
-    // Fallback to localStorage
-    localStorage.setItem('doqline_tickets', JSON.stringify(tickets));
-  }
-}
+  return {
+    list,
+
+    async update(id, patch, expectedVersion) {
+      validateBranchPatch(id, patch);
+      let query = client
+        .from('branches')
+        .update(branchToRow(patch))
+        .eq('id', id);
+      if (expectedVersion !== undefined) query = query.eq('version', expectedVersion);
+      const { data, error } = await query.select().maybeSingle();
+
+      if (error) throw error;
+      if (!data && expectedVersion !== undefined) throw new StaleBranchError(id, expectedVersion);
+      console.log('✓ Saved branch config to Supabase:', id);
+      return data ? branchFromRow(data) : null;
+    },
+
+    subscribe(onEvent, onStatus) {
+      return subscribeToTable(client, 'branches', {
+        onInsert: row => onEvent({ type: 'upsert', branch: branchFromRow(row) }),
+        onUpdate: row => onEvent({ type: 'upsert', branch: branchFromRow(row) }),
+        onResync: async () => onEvent({ type: 'resync', branches: await list() }),
+        onStatus,
+      });
+    },
+  };
+};
+
+/** The app-wide branch repository. */
+export const branchRepository: BranchRepository = supabase
+  ? createSupabaseBranchRepository(supabase)
+  : createLocalStorageBranchRepository();
+
+/**
+ * Supabase backend for the consultation room registry. Errors are thrown.
+ */
+export const createSupabaseRoomRepository = (client: SupabaseClient): RoomRepository => {
+  const list = async () => {
+    const { data, error } = await client
+      .from('rooms')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(roomFromRow);
+  };
+
+  return {
+    list,
+
+    async save(room) {
+      validateRoom(room);
+      const { data, error } = await client
+        .from('rooms')
+        .upsert(roomToRow(room), { onConflict: 'id' })
+        .select()
+        .single();
+
+      if (error) throw error;
+      console.log('✓ Saved room to Supabase:', room.id);
+      return roomFromRow(data);
+    },
+
+    async remove(id) {
+      const { error } = await client
+        .from('rooms')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+
+    subscribe(onEvent, onStatus) {
+      return subscribeToTable(client, 'rooms', {
+        onInsert: row => onEvent({ type: 'upsert', room: roomFromRow(row) }),
+        onUpdate: row => onEvent({ type: 'upsert', room: roomFromRow(row) }),
+        onDelete: row => onEvent({ type: 'delete', id: String(row.id) }),
+        onResync: async () => onEvent({ type: 'resync', rooms: await list() }),
+        onStatus,
+      });
+    },
+  };
+};
+
+/** The app-wide room registry. */
+export const roomRepository: RoomRepository = supabase
+  ? createSupabaseRoomRepository(supabase)
+  : createLocalStorageRoomRepository();
+
+/**
+ * Supabase backend for the staff directory. Errors are thrown.
+ */
+export const createSupabaseStaffRepository = (client: SupabaseClient): StaffRepository => {
+  const list = async () => {
+    const { data, error } = await client
+      .from('staff')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(staffFromRow);
+  };
+
+  return {
+    list,
+
+    async save(member) {
+      validateStaffMember(member);
+      const { data, error } = await client
+        .from('staff')
+        .upsert(staffToRow(member), { onConflict: 'id' })
+        .select()
+        .single();
+
+      if (error) throw error;
+      console.log('✓ Saved staff member to Supabase:', member.id);
+      return staffFromRow(data);
+    },
+
+    subscribe(onEvent, onStatus) {
+      return subscribeToTable(client, 'staff', {
+        onInsert: row => onEvent({ type: 'upsert', member: staffFromRow(row) }),
+        onUpdate: row => onEvent({ type: 'upsert', member: staffFromRow(row) }),
+        onResync: async () => onEvent({ type: 'resync', staff: await list() }),
+        onStatus,
+      });
+    },
+  };
+};
+
+/** The app-wide staff directory. */
+export const staffRepository: StaffRepository = supabase
+  ? createSupabaseStaffRepository(supabase)
+  : createLocalStorageStaffRepository();
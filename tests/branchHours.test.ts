@@ -0,0 +1,54 @@
+/**
+ * Opening Hours Tests
+ * Branches take patients only while open, not on holidays, and stop taking
+ * them once the backlog would run past closing time
+ */
+
+import { BranchConfig, CommsChannel, Ticket } from '../types';
+import { BranchClosedError, describeOpening, joinAvailability, nextOpening } from '../utils/branchHours';
+import { createQueueEngine } from '../utils/queueEngine';
+import { createInMemoryTicketRepository } from '../utils/ticketRepository';
+import { branch as mainClinic, ticket } from './fixtures';
+
+const branch: BranchConfig = {
+  ...mainClinic,
+  openingHours: [1, 2, 3, 4, 5].map(dayOfWeek => ({ dayOfWeek, open: '08:00', close: '18:00' })),
+  holidays: ['2026-01-06'],
+};
+
+const waiting = (count: number): Ticket[] =>
+  Array.from({ length: count }, (_, index) => ticket(`t${index}`, index + 1));
+
+// Monday 5 January 2026; Tuesday the 6th is a holiday
+const monday = (hour: number, minute = 0) => new Date(2026, 0, 5, hour, minute).getTime();
+
+describe('Opening hours', () => {
+  test('Out of hours the join screen is told when the branch next opens', () => {
+    expect(joinAvailability([], branch, [], monday(10))).toMatchObject({ open: true, closesAt: monday(18) });
+
+    const early = joinAvailability([], branch, [], monday(6));
+    expect(early).toEqual({ open: false, reason: 'closed', opensAt: monday(8) });
+    expect(describeOpening(monday(8), monday(6))).toMatch(/^opens at/);
+
+    // Closed Monday evening, Tuesday is a holiday: next opening is Wednesday
+    expect(nextOpening(branch, monday(19))).toBe(new Date(2026, 0, 7, 8, 0).getTime());
+    expect(joinAvailability([], branch, [], new Date(2026, 0, 6, 10).getTime())).toMatchObject({ open: false, reason: 'holiday' });
+  });
+
+  test('Joining closes once the backlog would run past closing time', () => {
+    // One clinician, 15 minutes each: 8 waiting means the next joiner is seen in 135 minutes
+    expect(joinAvailability(waiting(8), branch, [], monday(15, 30))).toMatchObject({ open: true });
+    expect(joinAvailability(waiting(8), branch, [], monday(15, 50))).toMatchObject({ open: false, reason: 'cutoff' });
+  });
+
+  test('The queue engine refuses out-of-hours joins', async () => {
+    const engine = createQueueEngine({
+      clock: { now: () => monday(21) },
+      storage: createInMemoryTicketRepository(),
+      notifier: { async send() {} },
+    });
+    await expect(
+      engine.addTicket([], branch, { name: 'Late', phone: '+17580000000', channel: CommsChannel.SMS }),
+    ).rejects.toBeInstanceOf(BranchClosedError);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Branch Repository Tests
+ * Branch config round-trips through the row mapper, edits are validated,
+ * logged in the change history, every subscriber hears about them, and
+ * concurrent edits don't drop each other's log entries
+ */
+
+import { BranchConfig } from '../types';
+import {
+  DEFAULT_BRANCHES,
+  InvalidBranchConfigError,
+  StaleBranchError,
+  applyBranchChange,
+  branchFromRow,
+  branchToRow,
+  createInMemoryBranchRepository,
+  updateBranchWithRetry,
+  withSettingsHistory,
+} from '../utils/branchRepository';
+
+describe('Branch repository', () => {
+  test('Mapper round-trips every branch field', () => {
+    const [branch] = DEFAULT_BRANCHES;
+    expect(branchFromRow(branchToRow(branch))).toEqual(branch);
+    expect(branchToRow({ isPaused: true })).toEqual({ is_paused: true });
+  });
+
+  test('Invalid edits are rejected before anything is written', async () => {
+    const repository = createInMemoryBranchRepository();
+    await expect(repository.update('main-clinic', { maxInBuilding: 0 })).rejects.toBeInstanceOf(InvalidBranchConfigError);
+    await expect(repository.update('main-clinic', { gracePeriodMinutes: 2.5 })).rejects.toBeInstanceOf(InvalidBranchConfigError);
+    await expect(repository.update('main-clinic', {
+      gracePolicy: { action: 'bump', bumpPlaces: 0, notHereAfterMisses: 3, warnMinutesBefore: 2 },
+    })).rejects.toBeInstanceOf(InvalidBranchConfigError);
+    expect((await repository.list())[0].maxInBuilding).toBe(10);
+  });
+
+  test('Edits reach every open screen', async () => {
+    const repository = createInMemoryBranchRepository();
+    let screenA: BranchConfig[] = await repository.list();
+    let screenB: BranchConfig[] = await repository.list();
+    repository.subscribe(event => { screenA = applyBranchChange(screenA, event); });
+    repository.subscribe(event => { screenB = applyBranchChange(screenB, event); });
+
+    await repository.update('main-clinic', { isPaused: true, maxInBuilding: 12 });
+    expect(screenA[0]).toMatchObject({ isPaused: true, maxInBuilding: 12 });
+    expect(screenB).toEqual(screenA);
+  });
+
+  test('Settings edits record who changed what, and when', async () => {
+    const repository = createInMemoryBranchRepository();
+    const [branch] = await repository.list();
+
+    const patch = withSettingsHistory(branch, { maxInBuilding: 12, gracePeriodMinutes: 10 }, 'Reception-1', 1000);
+    const updated = await repository.update(branch.id, patch);
+    expect(updated!.settingsHistory).toEqual([
+      { field: 'maxInBuilding', from: 10, to: 12, changedAt: 1000, changedBy: 'Reception-1' },
+    ]);
+
+    const unchanged = { maxInBuilding: 12 };
+    expect(withSettingsHistory(updated!, unchanged, 'Reception-1', 2000)).toBe(unchanged);
+  });
+
+  test('A stale edit is rejected, then rebuilt from the latest branch', async () => {
+    const repository = createInMemoryBranchRepository();
+    const [screenA] = await repository.list();
+    const [screenB] = await repository.list();
+
+    await repository.update(screenA.id, withSettingsHistory(screenA, { maxInBuilding: 12 }, 'Manager-1', 1000), screenA.version ?? 1);
+    await expect(repository.update(screenB.id, { gracePeriodMinutes: 5 }, screenB.version ?? 1))
+      .rejects.toBeInstanceOf(StaleBranchError);
+
+    const { branch: saved } = await updateBranchWithRetry(repository, screenB, current =>
+      withSettingsHistory(current, { gracePeriodMinutes: 5 }, 'Manager-2', 2000));
+    expect(saved).toMatchObject({ maxInBuilding: 12, gracePeriodMinutes: 5, version: 3 });
+    expect(saved!.settingsHistory!.map(change => change.changedBy)).toEqual(['Manager-1', 'Manager-2']);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Wait Estimate Tests
+ * Queue length and estimated wait per branch, as quoted on the join screen
+ */
+
+import { TicketStatus } from '../types';
+import { estimateWaitMinutes, summarizeBranchQueue } from '../utils/eta';
+import { DEFAULT_STAFF } from '../utils/staffRepository';
+import { branch, ticket } from './fixtures';
+
+describe('Wait estimates', () => {
+  test('Only waiting patients at the branch count towards the queue', () => {
+    const tickets = [
+      ticket('a', 1, { status: TicketStatus.IN_BUILDING }),
+      ticket('b', 2, { status: TicketStatus.REMOTE_WAITING }),
+      ticket('c', 3, { status: TicketStatus.SERVED }),
+      ticket('d', 4, { status: TicketStatus.REMOTE_WAITING, branchId: 'south' }),
+    ];
+    expect(summarizeBranchQueue(tickets, branch)).toEqual({ waiting: 2, estimatedWaitMinutes: 45 });
+  });
+
+  test('Clinicians working in parallel shorten the wait', () => {
+    const tickets = [
+      ticket('a', 1, { status: TicketStatus.IN_SERVICE, tellerId: 'Doctor-1' }),
+      ticket('b', 2, { status: TicketStatus.IN_SERVICE, tellerId: 'Doctor-2' }),
+    ];
+    expect(estimateWaitMinutes(tickets, branch, 3)).toBe(30);
+  });
+
+  test('Clinicians on the roster set the pace, not who happens to be busy', () => {
+    const mondayAfternoon = new Date(2026, 0, 5, 13, 0).getTime(); // both doctors and the nurse on shift
+    expect(estimateWaitMinutes([], branch, 5, DEFAULT_STAFF, mondayAfternoon)).toBe(30);
+
+    const onBreak = DEFAULT_STAFF.map(m => (m.id === 'Nurse-1' ? { ...m, onBreak: true } : m));
+    expect(estimateWaitMinutes([], branch, 5, onBreak, mondayAfternoon)).toBe(45);
+  });
+});
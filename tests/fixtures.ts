@@ -0,0 +1,34 @@
+/**
+ * Shared test fixtures
+ * One branch and one ticket factory for the suites, so a new required field
+ * only has to be added here
+ */
+
+import { BranchConfig, CommsChannel, Ticket, TicketStatus } from '../types';
+
+export const MINUTE = 60 * 1000;
+
+export const branch: BranchConfig = {
+  id: 'main-clinic',
+  name: 'Main Clinic',
+  address: '1 Health Avenue',
+  service: 'General Practice',
+  avgTransactionTime: 15,
+  gracePeriodMinutes: 10,
+  isPaused: false,
+  maxInBuilding: 10,
+  excludeInServiceFromCapacity: false,
+};
+
+/** A patient waiting in the building at the main clinic, who joined `queueNumber` minutes in. */
+export const ticket = (id: string, queueNumber: number, extra: Partial<Ticket> = {}): Ticket => ({
+  id,
+  queueNumber,
+  name: id,
+  phone: '+17580000000',
+  channel: CommsChannel.SMS,
+  status: TicketStatus.IN_BUILDING,
+  branchId: 'main-clinic',
+  joinedAt: queueNumber * MINUTE,
+  ...extra,
+});
@@ -0,0 +1,37 @@
+/**
+ * Grace Policy Tests
+ * A missed check-in window costs what the branch's policy says, repeat
+ * misses end in NOT_HERE, and each decision is counted for the manager
+ */
+
+import { TicketStatus } from '../types';
+import { DEFAULT_GRACE_POLICY, decideGraceExpiry, graceOutcomeCounts } from '../utils/gracePolicy';
+import { ticket } from './fixtures';
+
+describe('Grace policy', () => {
+  test('Misses move the patient back until the limit, then mark them not here', () => {
+    expect(decideGraceExpiry(ticket('a', 1), DEFAULT_GRACE_POLICY)).toBe('bumped');
+    expect(decideGraceExpiry(ticket('b', 2, { graceMisses: 1 }), DEFAULT_GRACE_POLICY)).toBe('bumped');
+    expect(decideGraceExpiry(ticket('c', 3, { graceMisses: 2 }), DEFAULT_GRACE_POLICY)).toBe('not-here');
+
+    const toTheBack = { ...DEFAULT_GRACE_POLICY, action: 'end-of-queue' as const, notHereAfterMisses: 0 };
+    expect(decideGraceExpiry(ticket('d', 4, { graceMisses: 9 }), toTheBack)).toBe('moved-to-end');
+  });
+
+  test('Outcomes are counted from the logged decisions', () => {
+    const entry = (graceOutcome?: 'warned' | 'bumped' | 'not-here') => ({
+      ticketId: 'x',
+      fromStatus: TicketStatus.ELIGIBLE_FOR_ENTRY,
+      toStatus: TicketStatus.REMOTE_WAITING,
+      timestamp: 0,
+      triggeredBy: 'system' as const,
+      graceOutcome,
+    });
+    const tickets = [
+      ticket('a', 1, { statusHistory: [entry('warned'), entry('bumped'), entry()] }),
+      ticket('b', 2, { statusHistory: [entry('warned'), entry('not-here')] }),
+      ticket('c', 3),
+    ];
+    expect(graceOutcomeCounts(tickets)).toEqual({ 'warned': 2, 'bumped': 1, 'moved-to-end': 0, 'not-here': 1 });
+  });
+});
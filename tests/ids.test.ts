@@ -0,0 +1,45 @@
+/**
+ * ID Tests
+ * Ticket ids are time-ordered UUIDv7s; check-in codes are short, readable
+ * and tolerant of how reception types them
+ */
+
+import { createCheckInCode, createTicketId, normalizeCheckInCode } from '../utils/ids';
+
+describe('Ticket ids', () => {
+  test('Ids are version 7 UUIDs that sort by creation time', () => {
+    const earlier = createTicketId(Date.UTC(2026, 0, 5, 9, 0));
+    const later = createTicketId(Date.UTC(2026, 0, 5, 9, 1));
+    expect(earlier).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(earlier < later).toBe(true);
+  });
+
+  test('Ids created in the same millisecond are still distinct', () => {
+    const ids = Array.from({ length: 1000 }, () => createTicketId(0));
+    expect(new Set(ids).size).toBe(1000);
+  });
+});
+
+describe('Check-in codes', () => {
+  test('Codes are short and avoid lookalike characters', () => {
+    for (let i = 0; i < 200; i++) {
+      expect(createCheckInCode()).toMatch(/^[ABCDEFGHJKMNPQRTUVWXYZ234679]{3}-\d{2}$/);
+    }
+  });
+
+  test('Codes already in use are never handed out again', () => {
+    const inUse = new Set<string>();
+    for (let i = 0; i < 500; i++) {
+      const code = createCheckInCode(inUse);
+      expect(inUse.has(code)).toBe(false);
+      inUse.add(code);
+    }
+  });
+
+  test('Typed codes are normalized for lookup', () => {
+    expect(normalizeCheckInCode('k7q 42')).toBe('K7Q-42');
+    expect(normalizeCheckInCode('K7Q42')).toBe('K7Q-42');
+    expect(normalizeCheckInCode(' k7q-42 ')).toBe('K7Q-42');
+    expect(normalizeCheckInCode('Maria')).toBe('MARIA');
+  });
+});
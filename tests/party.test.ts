@@ -0,0 +1,52 @@
+/**
+ * Family Ticket Tests
+ * A ticket's dependents each take a seat and a consultation, and the
+ * clinician who calls the family in must cover every member's visit reason
+ */
+
+import { ServiceCategory, Ticket, TicketStatus, VisitStage } from '../types';
+import { summarizeBranchQueue } from '../utils/eta';
+import { hasRoomFor, headcount, partyCategories, partySize } from '../utils/party';
+import { canTake } from '../utils/routing';
+import { DEFAULT_STAFF } from '../utils/staffRepository';
+import { branch, ticket } from './fixtures';
+
+const [, , nurse] = DEFAULT_STAFF;
+
+const family = ticket('parent', 1, {
+  serviceCategory: ServiceCategory.VACCINATION,
+  dependents: [
+    { name: 'Kid A', serviceCategory: ServiceCategory.VACCINATION },
+    { name: 'Kid B' },
+  ],
+});
+
+describe('Family tickets', () => {
+  test('Every member counts as a person', () => {
+    expect(partySize(ticket('solo', 2))).toBe(1);
+    expect(partySize(family)).toBe(3);
+    expect(headcount([family, ticket('solo', 2)])).toBe(4);
+    expect(partyCategories(family)).toEqual([ServiceCategory.VACCINATION, ServiceCategory.VACCINATION]);
+
+    expect(hasRoomFor(7, 3, 10)).toBe(true);
+    expect(hasRoomFor(8, 3, 10)).toBe(false);
+    // Bigger than the whole room: admitted once it is empty
+    expect(hasRoomFor(0, 12, 10)).toBe(true);
+  });
+
+  test('The wait reflects a consultation per family member ahead', () => {
+    const tickets = [family, ticket('solo', 2, { status: TicketStatus.REMOTE_WAITING })];
+    expect(summarizeBranchQueue(tickets, branch)).toEqual({ waiting: 2, estimatedWaitMinutes: 75 });
+  });
+
+  test('A family goes to a clinician who can see all of them', () => {
+    const atNurse = { ...family, pathway: [VisitStage.NURSE], stageIndex: 0 };
+    expect(canTake(atNurse, nurse)).toBe(true);
+
+    const withOther = {
+      ...atNurse,
+      dependents: [...atNurse.dependents!, { name: 'Grandad', serviceCategory: ServiceCategory.OTHER }],
+    };
+    expect(canTake(withOther, nurse)).toBe(false);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Visit Pathway Tests
+ * Visits follow the stations configured for their reason, clinicians only
+ * call patients queued for a station they work, and the path each patient
+ * took is read back from the status history
+ */
+
+import { ServiceCategory, Ticket, TicketStatus, UserRole, VisitStage } from '../types';
+import { currentStage, nextStage, pathwayFor, stageTimeline, stagesFor } from '../utils/pathways';
+import { nextTicketFor, unstaffedStages } from '../utils/routing';
+import { DEFAULT_STAFF } from '../utils/staffRepository';
+import { branch, ticket } from './fixtures';
+
+const [doctor, , nurse] = DEFAULT_STAFF;
+
+const onPathway = (id: string, queueNumber: number, pathway: VisitStage[], stageIndex = 0): Ticket =>
+  ticket(id, queueNumber, { serviceCategory: ServiceCategory.GENERAL_CHECKUP, pathway, stageIndex });
+
+// Monday 5 January 2026, 10:00 — Doctor-1 and Nurse-1 on shift
+const mondayMorning = new Date(2026, 0, 5, 10, 0).getTime();
+
+describe('Visit pathways', () => {
+  test('Branches can override the default pathway for a visit reason', () => {
+    expect(pathwayFor(branch, ServiceCategory.GENERAL_CHECKUP)).toEqual([VisitStage.NURSE, VisitStage.DOCTOR]);
+    expect(pathwayFor(branch, undefined)).toEqual([VisitStage.DOCTOR]);
+
+    const withLab = { ...branch, pathways: { [ServiceCategory.GENERAL_CHECKUP]: [VisitStage.NURSE, VisitStage.DOCTOR, VisitStage.LAB] } };
+    const visit = onPathway('a', 1, pathwayFor(withLab, ServiceCategory.GENERAL_CHECKUP), 1);
+    expect(currentStage(visit)).toBe(VisitStage.DOCTOR);
+    expect(nextStage(visit)).toBe(VisitStage.LAB);
+  });
+
+  test('Clinicians are only offered patients queued for a station they work', () => {
+    const tickets = [onPathway('for-doctor', 1, [VisitStage.NURSE, VisitStage.DOCTOR], 1), onPathway('for-nurse', 2, [VisitStage.NURSE, VisitStage.DOCTOR])];
+    expect(nextTicketFor(tickets, 'main-clinic', doctor)?.id).toBe('for-doctor');
+    expect(nextTicketFor(tickets, 'main-clinic', nurse)?.id).toBe('for-nurse');
+    expect(stagesFor({ role: UserRole.NURSE, stages: [VisitStage.PHARMACY] })).toEqual([VisitStage.PHARMACY]);
+
+    const pharmacy = [onPathway('scripts', 3, [VisitStage.DOCTOR, VisitStage.PHARMACY], 1)];
+    expect(unstaffedStages(pharmacy, DEFAULT_STAFF, 'main-clinic', mondayMorning)).toEqual([VisitStage.PHARMACY]);
+  });
+
+  test('Each station\'s queue, start and finish times come from the status history', () => {
+    const visit: Ticket = {
+      ...onPathway('a', 3, [VisitStage.NURSE, VisitStage.DOCTOR], 1),
+      statusHistory: [
+        { ticketId: 'a', fromStatus: TicketStatus.IN_BUILDING, toStatus: TicketStatus.IN_BUILDING, timestamp: 0, triggeredBy: 'customer', stage: VisitStage.NURSE },
+        { ticketId: 'a', fromStatus: TicketStatus.IN_BUILDING, toStatus: TicketStatus.IN_SERVICE, timestamp: 5, triggeredBy: 'teller', stage: VisitStage.NURSE },
+        { ticketId: 'a', fromStatus: TicketStatus.IN_SERVICE, toStatus: TicketStatus.IN_BUILDING, timestamp: 15, triggeredBy: 'teller', stage: VisitStage.NURSE },
+        { ticketId: 'a', fromStatus: TicketStatus.IN_BUILDING, toStatus: TicketStatus.IN_SERVICE, timestamp: 30, triggeredBy: 'teller', stage: VisitStage.DOCTOR },
+      ],
+    };
+    expect(stageTimeline(visit)).toEqual([
+      { stage: VisitStage.NURSE, queuedAt: 0, startedAt: 5, endedAt: 15 },
+      { stage: VisitStage.DOCTOR, queuedAt: 15, startedAt: 30 },
+    ]);
+  });
+});
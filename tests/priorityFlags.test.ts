@@ -0,0 +1,59 @@
+/**
+ * Priority Access Tests
+ * Flagged patients get what their branch's policy allows, never overtake
+ * more urgent patients, and everyone can see why someone moved ahead
+ */
+
+import { PriorityFlag } from '../types';
+import { DEFAULT_PRIORITY_POLICY, describePriority } from '../utils/priorityFlags';
+import { movedAheadOf, priorityOrder } from '../utils/triage';
+import { ticket } from './fixtures';
+
+const elderly = { priorityFlags: [PriorityFlag.ELDERLY] };
+
+describe('Priority access', () => {
+  test('The policy is described in plain words', () => {
+    expect(describePriority(ticket('a', 1), DEFAULT_PRIORITY_POLICY)).toBeUndefined();
+    expect(describePriority(ticket('b', 2, elderly), DEFAULT_PRIORITY_POLICY))
+      .toBe('Elderly: moved up 2 places, called in early, no penalty for arriving late');
+    expect(describePriority(ticket('c', 3, elderly), { skipPlaces: 1, earlyEntry: false, graceExempt: false }))
+      .toBe('Elderly: moved up 1 place');
+    expect(describePriority(ticket('d', 4, elderly), { skipPlaces: 0, earlyEntry: false, graceExempt: false }))
+      .toBeUndefined();
+  });
+
+  test('Flagged patients skip places, but not past urgent or other flagged patients', () => {
+    const queue = [
+      ticket('a', 1),
+      ticket('b', 2),
+      ticket('c', 3),
+      ticket('flagged', 4, elderly),
+    ];
+    expect(priorityOrder(queue, DEFAULT_PRIORITY_POLICY).map(t => t.id)).toEqual(['a', 'flagged', 'b', 'c']);
+    expect(priorityOrder(queue).map(t => t.id)).toEqual(['a', 'b', 'c', 'flagged']);
+
+    const withUrgent = queue.map(t => (t.id === 'b' ? { ...t, acuity: 3 as const } : t));
+    expect(priorityOrder(withUrgent, { ...DEFAULT_PRIORITY_POLICY, skipPlaces: 3 }).map(t => t.id))
+      .toEqual(['b', 'flagged', 'a', 'c']);
+
+    const twoFlagged = [...queue, ticket('also-flagged', 5, { priorityFlags: [PriorityFlag.PREGNANT] })];
+    expect(priorityOrder(twoFlagged, DEFAULT_PRIORITY_POLICY).map(t => t.id))
+      .toEqual(['a', 'flagged', 'also-flagged', 'b', 'c']);
+  });
+
+  test('Patients who were overtaken see why', () => {
+    const queue = [
+      ticket('a', 1),
+      ticket('b', 2),
+      ticket('urgent', 3, { acuity: 2 }),
+      ticket('flagged', 4, elderly),
+    ];
+    const ordered = priorityOrder(queue, DEFAULT_PRIORITY_POLICY);
+    expect(ordered.map(t => t.id)).toEqual(['urgent', 'flagged', 'a', 'b']);
+
+    expect(movedAheadOf(queue[1], ordered).map(({ ticket, reason }) => [ticket.id, reason]))
+      .toEqual([['urgent', 'triage'], ['flagged', 'priority']]);
+    expect(movedAheadOf(queue[0], ordered).map(m => m.reason)).toEqual(['triage', 'priority']);
+    expect(movedAheadOf(queue[2], ordered)).toEqual([]);
+  });
+});
@@ -0,0 +1,451 @@
+/**
+ * Queue Engine Tests
+ * Runs the queue rules against a fixed clock, an in-memory store and a
+ * recording notifier — no React, no network
+ */
+
+import { BranchConfig, CommsChannel, PriorityFlag, ServiceCategory, Ticket, TicketStatus, VisitStage } from '../types';
+import { BranchClosedError } from '../utils/branchHours';
+import { waitingTickets } from '../utils/eta';
+import { Notifier } from '../utils/notifier';
+import { QueueCapacityError, ReinstatePlacement, applyQueueChanges, createQueueEngine } from '../utils/queueEngine';
+import { createInMemoryTicketRepository } from '../utils/ticketRepository';
+import { IllegalTransitionError } from '../utils/ticketStateMachine';
+import { MINUTE, branch as mainClinic } from './fixtures';
+
+const branch: BranchConfig = { ...mainClinic, maxInBuilding: 2 };
+
+const setup = () => {
+  let now = new Date(2026, 0, 5, 9, 0).getTime();
+  const repository = createInMemoryTicketRepository();
+  const messages: string[] = [];
+  const notifier: Notifier = {
+    async send(_ticket, message) { messages.push(message); },
+  };
+  const engine = createQueueEngine({
+    clock: { now: () => now },
+    storage: repository,
+    notifier,
+  });
+  return {
+    engine,
+    repository,
+    messages,
+    advance: (ms: number) => { now += ms; },
+  };
+};
+
+const harbour: BranchConfig = { ...branch, id: 'harbour', name: 'Harbour Clinic', address: '2 Harbour Road', phone: '+17580001111' };
+
+// Names of the patients waiting outside, in the order they will be called in
+const remoteOrder = (tickets: Ticket[]) =>
+  waitingTickets(tickets, branch.id).filter(t => t.status === TicketStatus.REMOTE_WAITING).map(t => t.name);
+
+const join = async (engine: ReturnType<typeof setup>['engine'], tickets: Ticket[], name: string, at: BranchConfig = branch) =>
+  applyQueueChanges(
+    tickets,
+    await engine.addTicket(tickets, at, { name, phone: '+17580000000', channel: CommsChannel.SMS }),
+  );
+
+describe('Queue engine', () => {
+  test('Patients walk straight in until the waiting room is full', async () => {
+    const { engine, repository, messages } = setup();
+    let tickets: Ticket[] = [];
+    tickets = await join(engine, tickets, 'A');
+    tickets = await join(engine, tickets, 'B');
+    tickets = await join(engine, tickets, 'C');
+
+    expect(tickets.map(t => t.queueNumber)).toEqual([1, 2, 3]);
+    expect(tickets.map(t => t.status)).toEqual([
+      TicketStatus.IN_BUILDING,
+      TicketStatus.IN_BUILDING,
+      TicketStatus.REMOTE_WAITING,
+    ]);
+    expect(await repository.list()).toEqual(tickets);
+    expect(messages).toHaveLength(3);
+  });
+
+  test('Checking a patient into a full waiting room is rejected', async () => {
+    const { engine } = setup();
+    let tickets: Ticket[] = [];
+    tickets = await join(engine, tickets, 'A');
+    tickets = await join(engine, tickets, 'B');
+    tickets = await join(engine, tickets, 'C');
+
+    await expect(
+      engine.updateStatus(tickets, branch, tickets[2].id, TicketStatus.IN_BUILDING),
+    ).rejects.toBeInstanceOf(QueueCapacityError);
+  });
+
+  test('Starting a consultation frees a seat and promotes the next remote patient', async () => {
+    const { engine, advance } = setup();
+    let tickets: Ticket[] = [];
+    tickets = await join(engine, tickets, 'A');
+    tickets = await join(engine, tickets, 'B');
+    tickets = await join(engine, tickets, 'C');
+
+    const branchExcludingService = { ...branch, excludeInServiceFromCapacity: true };
+    advance(5 * MINUTE);
+    tickets = applyQueueChanges(
+      tickets,
+      await engine.updateStatus(tickets, branchExcludingService, tickets[0].id, TicketStatus.IN_SERVICE, {
+        triggeredBy: 'teller',
+        tellerId: 'Doctor-1',
+      }),
+    );
+
+    expect(tickets[0].status).toBe(TicketStatus.IN_SERVICE);
+    expect(tickets[0].tellerId).toBe('Doctor-1');
+    expect(tickets[2].status).toBe(TicketStatus.ELIGIBLE_FOR_ENTRY);
+    expect(tickets[2].eligibleForEntryAt).toBeDefined();
+  });
+
+  test('Calling a patient in stamps the room and names it in the message', async () => {
+    const { engine, messages } = setup();
+    let tickets = await join(engine, [], 'A');
+
+    tickets = applyQueueChanges(
+      tickets,
+      await engine.updateStatus(tickets, branch, tickets[0].id, TicketStatus.IN_SERVICE, {
+        triggeredBy: 'teller',
+        tellerId: 'Doctor-1',
+        room: { id: 'main-clinic-room-2', name: 'Room 2' },
+      }),
+    );
+
+    expect(tickets[0].counterId).toBe('main-clinic-room-2');
+    expect(messages[messages.length - 1]).toContain('*Room 2*');
+  });
+
+  test('Finishing a stage re-queues the patient for the next station', async () => {
+    const { engine, messages, advance } = setup();
+    let tickets = applyQueueChanges([], await engine.addTicket([], branch, {
+      name: 'A', phone: '+17580000000', channel: CommsChannel.SMS, serviceCategory: ServiceCategory.GENERAL_CHECKUP,
+    }));
+    tickets = await join(engine, tickets, 'B');
+    expect(tickets[0].pathway).toEqual([VisitStage.NURSE, VisitStage.DOCTOR]);
+
+    tickets = applyQueueChanges(
+      tickets,
+      await engine.updateStatus(tickets, branch, tickets[0].id, TicketStatus.IN_SERVICE, { triggeredBy: 'teller', tellerId: 'Nurse-1' }),
+    );
+    expect(messages.at(-1)).toContain('the nurse is ready for you');
+
+    advance(10 * MINUTE);
+    tickets = applyQueueChanges(tickets, await engine.completeStage(tickets, branch, tickets[0].id, { tellerId: 'Nurse-1' }));
+    expect(tickets[0]).toMatchObject({ status: TicketStatus.IN_BUILDING, stageIndex: 1, queueNumber: 3 });
+    expect(tickets[0].tellerId).toBeUndefined();
+    expect(tickets[0].statusHistory!.at(-1)).toMatchObject({ stage: VisitStage.NURSE, reason: 'Nurse complete — queued for Doctor' });
+    expect(messages.at(-1)).toContain('Next: *Doctor*');
+
+    tickets = applyQueueChanges(
+      tickets,
+      await engine.updateStatus(tickets, branch, tickets[0].id, TicketStatus.IN_SERVICE, { triggeredBy: 'teller', tellerId: 'Doctor-1' }),
+    );
+    tickets = applyQueueChanges(tickets, await engine.completeStage(tickets, branch, tickets[0].id));
+    expect(tickets[0].status).toBe(TicketStatus.SERVED);
+    expect(tickets[0].statusHistory!.at(-1)!.stage).toBe(VisitStage.DOCTOR);
+  });
+
+  test('Raising capacity offers the new seats to remote patients straight away', async () => {
+    const { engine } = setup();
+    let tickets: Ticket[] = [];
+    for (const name of ['A', 'B', 'C', 'D', 'E']) tickets = await join(engine, tickets, name);
+
+    const roomier = { ...branch, maxInBuilding: 4 };
+    tickets = applyQueueChanges(tickets, await engine.fillFreeSeats(tickets, roomier));
+    expect(tickets.map(t => t.status)).toEqual([
+      TicketStatus.IN_BUILDING,
+      TicketStatus.IN_BUILDING,
+      TicketStatus.ELIGIBLE_FOR_ENTRY,
+      TicketStatus.ELIGIBLE_FOR_ENTRY,
+      TicketStatus.REMOTE_WAITING,
+    ]);
+    expect(await engine.fillFreeSeats(tickets, roomier)).toEqual([]);
+  });
+
+  test('Families take a seat per person and are not jumped while waiting for seats', async () => {
+    const { engine, messages } = setup();
+    let tickets = await join(engine, [], 'A');
+    tickets = applyQueueChanges(tickets, await engine.addTicket(tickets, branch, {
+      name: 'B', phone: '+17580000000', channel: CommsChannel.SMS, dependents: [{ name: 'B junior' }],
+    }));
+    expect(messages.at(-1)).toContain('(party of 2)');
+    tickets = await join(engine, tickets, 'C');
+    expect(tickets.map(t => t.status)).toEqual([
+      TicketStatus.IN_BUILDING,
+      TicketStatus.REMOTE_WAITING,
+      TicketStatus.REMOTE_WAITING,
+    ]);
+
+    const roomier = { ...branch, maxInBuilding: 3 };
+    tickets = applyQueueChanges(tickets, await engine.fillFreeSeats(tickets, roomier));
+    expect(tickets.map(t => t.status)).toEqual([
+      TicketStatus.IN_BUILDING,
+      TicketStatus.ELIGIBLE_FOR_ENTRY,
+      TicketStatus.REMOTE_WAITING,
+    ]);
+    tickets = applyQueueChanges(
+      tickets,
+      await engine.updateStatus(tickets, roomier, tickets[1].id, TicketStatus.IN_BUILDING, { triggeredBy: 'customer' }),
+    );
+    expect(engine.getInBuildingCount(tickets, roomier)).toBe(3);
+  });
+
+  test('Triage changes are logged and decide who is offered a free seat', async () => {
+    const { engine } = setup();
+    let tickets: Ticket[] = [];
+    for (const name of ['A', 'B', 'C', 'D']) tickets = await join(engine, tickets, name);
+
+    tickets = applyQueueChanges(tickets, await engine.updateTicket(tickets, branch, tickets[3].id, { acuity: 2 }));
+    expect(tickets[3].statusHistory!.at(-1)).toMatchObject({
+      fromStatus: TicketStatus.REMOTE_WAITING,
+      toStatus: TicketStatus.REMOTE_WAITING,
+      reason: 'Triage: Standard → Very urgent',
+      acuity: 2,
+    });
+
+    tickets = applyQueueChanges(tickets, await engine.fillFreeSeats(tickets, { ...branch, maxInBuilding: 3 }));
+    expect(tickets[2].status).toBe(TicketStatus.REMOTE_WAITING);
+    expect(tickets[3].status).toBe(TicketStatus.ELIGIBLE_FOR_ENTRY);
+  });
+
+  test('Flagged patients are called in early and keep their invitation past the grace period', async () => {
+    const { engine, advance } = setup();
+    let tickets: Ticket[] = [];
+    for (const name of ['A', 'B', 'C', 'D']) tickets = await join(engine, tickets, name);
+
+    tickets = applyQueueChanges(
+      tickets,
+      await engine.updateTicket(tickets, branch, tickets[3].id, { priorityFlags: [PriorityFlag.PREGNANT] }),
+    );
+    expect(tickets[3].statusHistory!.at(-1)!.reason).toBe('Priority flags: none → Pregnant');
+
+    // No places skipped: only early entry puts D ahead of C
+    const earlyEntryOnly = { ...branch, maxInBuilding: 3, priorityPolicy: { skipPlaces: 0, earlyEntry: true, graceExempt: true } };
+    tickets = applyQueueChanges(tickets, await engine.fillFreeSeats(tickets, earlyEntryOnly));
+    expect(tickets[2].status).toBe(TicketStatus.REMOTE_WAITING);
+    expect(tickets[3].status).toBe(TicketStatus.ELIGIBLE_FOR_ENTRY);
+    expect(tickets[3].statusHistory!.at(-1)!.reason).toBe('Called in early under the priority access policy');
+
+    advance(11 * MINUTE);
+    expect(await engine.checkGracePeriodExpiry(tickets, branch)).toEqual([]);
+    const strict = { ...branch, priorityPolicy: { skipPlaces: 2, earlyEntry: true, graceExempt: false } };
+    tickets = applyQueueChanges(tickets, await engine.checkGracePeriodExpiry(tickets, strict));
+    expect(tickets[3].status).toBe(TicketStatus.REMOTE_WAITING);
+  });
+
+  test('Grace period expiry sends the patient back to the remote queue', async () => {
+    const { engine, advance } = setup();
+    let tickets: Ticket[] = [];
+    for (const name of ['A', 'B', 'C', 'D']) tickets = await join(engine, tickets, name);
+
+    tickets = applyQueueChanges(
+      tickets,
+      await engine.updateStatus(tickets, branch, tickets[2].id, TicketStatus.ELIGIBLE_FOR_ENTRY, { triggeredBy: 'system' }),
+    );
+    advance(5 * MINUTE);
+    expect(await engine.checkGracePeriodExpiry(tickets, branch)).toEqual([]);
+
+    advance(6 * MINUTE);
+    tickets = applyQueueChanges(tickets, await engine.checkGracePeriodExpiry(tickets, branch));
+    expect(tickets[2].status).toBe(TicketStatus.REMOTE_WAITING);
+    expect(tickets[2].queueNumber).toBe(5);
+    expect(tickets[2].statusHistory!.at(-1)!.reason).toContain('Grace period expired');
+  });
+
+  test('Patients are warned before their window closes and marked not here after repeated misses', async () => {
+    const { engine, messages, advance } = setup();
+    let tickets: Ticket[] = [];
+    for (const name of ['A', 'B', 'C']) tickets = await join(engine, tickets, name);
+    const strict = { ...branch, gracePolicy: { action: 'end-of-queue' as const, bumpPlaces: 4, notHereAfterMisses: 2, warnMinutesBefore: 2 } };
+    const miss = async () => {
+      tickets = applyQueueChanges(
+        tickets,
+        await engine.updateStatus(tickets, strict, tickets[2].id, TicketStatus.ELIGIBLE_FOR_ENTRY, { triggeredBy: 'system' }),
+      );
+      advance(9 * MINUTE);
+      tickets = applyQueueChanges(tickets, await engine.checkGracePeriodExpiry(tickets, strict));
+      // Warned once per window
+      expect(await engine.checkGracePeriodExpiry(tickets, strict)).toEqual([]);
+      advance(2 * MINUTE);
+      tickets = applyQueueChanges(tickets, await engine.checkGracePeriodExpiry(tickets, strict));
+    };
+
+    await miss();
+    expect(messages.at(-1)).toContain('1 minute* left to check in');
+    expect(tickets[2].status).toBe(TicketStatus.REMOTE_WAITING);
+    expect(tickets[2].queueNumber).toBe(4);
+    expect(tickets[2].statusHistory!.at(-1)).toMatchObject({
+      reason: 'Grace period expired - moved to end of queue',
+      graceOutcome: 'moved-to-end',
+    });
+
+    await miss();
+    expect(tickets[2].status).toBe(TicketStatus.NOT_HERE);
+    expect(tickets[2].isNoShow).toBe(true);
+    expect(tickets[2].statusHistory!.map(entry => entry.graceOutcome).filter(Boolean))
+      .toEqual(['warned', 'moved-to-end', 'warned', 'not-here']);
+    expect(messages.at(-1)).toContain('after 2 missed check-ins');
+  });
+
+  test('A second screen sweeping the same snapshot neither moves nor messages the patient again', async () => {
+    const { engine, repository, messages, advance } = setup();
+    let tickets: Ticket[] = [];
+    for (const name of ['A', 'B', 'C']) tickets = await join(engine, tickets, name);
+    const strict = { ...branch, gracePolicy: { action: 'end-of-queue' as const, bumpPlaces: 4, notHereAfterMisses: 3, warnMinutesBefore: 2 } };
+    tickets = applyQueueChanges(
+      tickets,
+      await engine.updateStatus(tickets, strict, tickets[2].id, TicketStatus.ELIGIBLE_FOR_ENTRY, { triggeredBy: 'system' }),
+    );
+
+    advance(9 * MINUTE);
+    const warned = messages.length;
+    expect(await engine.checkGracePeriodExpiry(tickets, strict)).toHaveLength(1);
+    expect(await engine.checkGracePeriodExpiry(tickets, strict)).toEqual([]);
+    expect(messages).toHaveLength(warned + 1);
+
+    advance(2 * MINUTE);
+    tickets = (await repository.list()).sort((a, b) => a.queueNumber - b.queueNumber);
+    expect(await engine.checkGracePeriodExpiry(tickets, strict)).not.toEqual([]);
+    expect(await engine.checkGracePeriodExpiry(tickets, strict)).toEqual([]);
+    const [stored] = (await repository.list()).filter(t => t.name === 'C');
+    expect(stored).toMatchObject({ status: TicketStatus.REMOTE_WAITING, graceMisses: 1, queueNumber: 4 });
+  });
+
+  test('A no-show who turns up is reinstated where reception chooses and told their number', async () => {
+    const { engine, messages } = setup();
+    let tickets: Ticket[] = [];
+    for (const name of ['A', 'B', 'C', 'D', 'E']) tickets = await join(engine, tickets, name);
+    const noShow = async (id: string) => {
+      tickets = applyQueueChanges(tickets, await engine.updateTicket(tickets, branch, id, { isNoShow: true }));
+      tickets = applyQueueChanges(
+        tickets,
+        await engine.updateStatus(tickets, branch, id, TicketStatus.NOT_HERE, { triggeredBy: 'teller' }),
+      );
+    };
+    const [a, b, c, d, e] = tickets.map(t => t.id);
+    const byId = (id: string) => tickets.find(t => t.id === id)!;
+
+    await noShow(e);
+    await expect(engine.reinstateTicket(tickets, branch, d, { placement: 'original-position' }))
+      .rejects.toBeInstanceOf(IllegalTransitionError);
+
+    // C and D wait outside; E becomes next to be called without anyone being renumbered
+    tickets = applyQueueChanges(tickets, await engine.reinstateTicket(tickets, branch, e, { placement: 'next-available' }));
+    expect([c, d, e].map(id => byId(id).queueNumber)).toEqual([3, 4, 5]);
+    expect(remoteOrder(tickets)).toEqual(['E', 'C', 'D']);
+    expect(byId(e)).toMatchObject({ status: TicketStatus.REMOTE_WAITING, isNoShow: false });
+    expect(byId(e).statusHistory!.at(-1)!.reason).toBe('Reinstated as next to be called - no-show cleared');
+    expect(messages.at(-1)).toContain('Your number is now *#5*');
+
+    // A seat freed while B was marked not here goes to whoever is first outside
+    await noShow(b);
+    expect(byId(e).status).toBe(TicketStatus.ELIGIBLE_FOR_ENTRY);
+    tickets = applyQueueChanges(tickets, await engine.reinstateTicket(tickets, branch, b, { placement: 'end-of-queue' }));
+    expect(byId(b)).toMatchObject({ status: TicketStatus.REMOTE_WAITING, queueNumber: 6 });
+    expect(byId(a).status).toBe(TicketStatus.IN_BUILDING);
+  });
+
+  test('Next available and original position differ for a no-show behind others waiting outside', async () => {
+    const reinstated = async (placement: ReinstatePlacement) => {
+      const { engine, messages } = setup();
+      let tickets: Ticket[] = [];
+      for (const name of ['A', 'B', 'C', 'D', 'E']) tickets = await join(engine, tickets, name);
+      const e = tickets[4].id;
+      tickets = applyQueueChanges(
+        tickets,
+        await engine.updateStatus(tickets, branch, e, TicketStatus.NOT_HERE, { triggeredBy: 'teller' }),
+      );
+      const sent = messages.length;
+      tickets = applyQueueChanges(tickets, await engine.reinstateTicket(tickets, branch, e, { placement }));
+      // Only the reinstated patient hears about it
+      expect(messages.slice(sent)).toHaveLength(1);
+      return { numbers: tickets.map(t => t.queueNumber), order: remoteOrder(tickets) };
+    };
+
+    expect(await reinstated('original-position')).toEqual({ numbers: [1, 2, 3, 4, 5], order: ['C', 'D', 'E'] });
+    expect(await reinstated('next-available')).toEqual({ numbers: [1, 2, 3, 4, 5], order: ['E', 'C', 'D'] });
+    expect(await reinstated('end-of-queue')).toEqual({ numbers: [1, 2, 3, 4, 6], order: ['C', 'D', 'E'] });
+  });
+
+  test('A paused queue calls nobody in and takes no joins; resuming fills the free seats', async () => {
+    const { engine, messages, advance } = setup();
+    let tickets: Ticket[] = [];
+    for (const name of ['A', 'B', 'C']) tickets = await join(engine, tickets, name);
+    // Patients in consultation don't take a seat, so starting one frees a seat
+    const roomy = { ...branch, excludeInServiceFromCapacity: true };
+    const paused = { ...roomy, isPaused: true, pauseHistory: [{ startedAt: 0, reason: 'Staff meeting' }] };
+
+    tickets = applyQueueChanges(tickets, await engine.announcePause(tickets, paused));
+    expect(messages.at(-1)).toContain('has paused its queue (Staff meeting)');
+    expect(tickets[2].statusHistory!.at(-1)!.reason).toBe('Queue paused - Staff meeting');
+
+    tickets = applyQueueChanges(
+      tickets,
+      await engine.updateStatus(tickets, paused, tickets[0].id, TicketStatus.IN_SERVICE, { triggeredBy: 'teller' }),
+    );
+    expect(tickets[2].status).toBe(TicketStatus.REMOTE_WAITING);
+    await expect(join(engine, tickets, 'D', paused)).rejects.toBeInstanceOf(BranchClosedError);
+
+    advance(MINUTE);
+    const resumed = { ...roomy, pauseHistory: [{ startedAt: 0, endedAt: MINUTE, reason: 'Staff meeting' }] };
+    tickets = applyQueueChanges(tickets, await engine.announceResume(tickets, resumed));
+    expect(messages.some(message => message.includes('is moving again'))).toBe(true);
+    expect(tickets[2].status).toBe(TicketStatus.ELIGIBLE_FOR_ENTRY);
+  });
+
+  test('A transferred patient keeps their place by join time at the new branch', async () => {
+    const { engine, messages, advance } = setup();
+    let tickets: Ticket[] = [];
+    for (const name of ['A', 'B', 'C']) tickets = await join(engine, tickets, name);
+    advance(5 * MINUTE);
+    for (const name of ['X', 'Y']) tickets = await join(engine, tickets, name, harbour);
+
+    const [a] = tickets;
+    const sent = messages.length;
+    tickets = applyQueueChanges(
+      tickets,
+      await engine.transferTicket(tickets, branch, harbour, a.id, { policy: 'keep-join-time', reason: 'needs X-ray' }),
+    );
+    const byName = (name: string) => tickets.find(t => t.name === name)!;
+    expect(byName('A')).toMatchObject({ branchId: 'harbour', queueNumber: 3, status: TicketStatus.REMOTE_WAITING });
+    // Nobody already at the harbour is renumbered; A is simply seen first
+    expect([byName('X').queueNumber, byName('Y').queueNumber]).toEqual([1, 2]);
+    expect(waitingTickets(tickets, 'harbour').map(t => t.name)).toEqual(['A', 'X', 'Y']);
+    expect(byName('A').statusHistory!.at(-1)!.reason).toBe('Transferred from Main Clinic to Harbour Clinic — needs X-ray');
+    // One message for A and one for the patient promoted into A's seat
+    expect(messages.slice(sent)).toHaveLength(2);
+    expect(messages.at(-2)).toContain('2 Harbour Road');
+    // A's seat at the main clinic goes to the next remote patient
+    expect(byName('C').status).toBe(TicketStatus.ELIGIBLE_FOR_ENTRY);
+  });
+
+  test('End-of-queue transfers go behind everyone waiting; patients being seen stay put', async () => {
+    const { engine, advance } = setup();
+    let tickets: Ticket[] = [];
+    for (const name of ['A', 'B']) tickets = await join(engine, tickets, name);
+    advance(5 * MINUTE);
+    for (const name of ['X', 'Y']) tickets = await join(engine, tickets, name, harbour);
+
+    tickets = applyQueueChanges(
+      tickets,
+      await engine.transferTicket(tickets, branch, harbour, tickets[1].id, { policy: 'end-of-queue' }),
+    );
+    expect(tickets.map(t => [t.name, t.branchId, t.queueNumber])).toEqual([
+      ['A', 'main-clinic', 1],
+      ['B', 'harbour', 3],
+      ['X', 'harbour', 1],
+      ['Y', 'harbour', 2],
+    ]);
+    expect(waitingTickets(tickets, 'harbour').map(t => t.name)).toEqual(['X', 'Y', 'B']);
+
+    tickets = applyQueueChanges(
+      tickets,
+      await engine.updateStatus(tickets, branch, tickets[0].id, TicketStatus.IN_SERVICE, { triggeredBy: 'teller' }),
+    );
+    await expect(
+      engine.transferTicket(tickets, branch, harbour, tickets[0].id, { policy: 'end-of-queue' }),
+    ).rejects.toBeInstanceOf(IllegalTransitionError);
+  });
+});
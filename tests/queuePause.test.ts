@@ -0,0 +1,59 @@
+/**
+ * Queue Pause Tests
+ * Pauses are recorded as intervals with their reason, stop new joins, and
+ * are left out of the wait-time figures
+ */
+
+import { BranchConfig, TicketStatus } from '../types';
+import { joinAvailability } from '../utils/branchHours';
+import { currentPause, endPause, pausedMinutesBetween, startPause, waitExcludingPauses } from '../utils/queuePause';
+import { MINUTE, branch, ticket } from './fixtures';
+
+const NINE_AM = new Date(2026, 0, 5, 9, 0).getTime();
+
+describe('Queue pause', () => {
+  test('Pausing opens an interval and resuming closes it', () => {
+    const paused = { ...branch, ...startPause(branch, NINE_AM, { reason: 'Staff meeting', expectedResumeAt: NINE_AM + 30 * MINUTE }) };
+    expect(currentPause(paused)).toEqual({ startedAt: NINE_AM, reason: 'Staff meeting', expectedResumeAt: NINE_AM + 30 * MINUTE });
+    expect(joinAvailability([], paused, [], NINE_AM + MINUTE))
+      .toEqual({ open: false, reason: 'paused', opensAt: NINE_AM + 30 * MINUTE });
+
+    const resumed = { ...paused, ...endPause(paused, NINE_AM + 20 * MINUTE) };
+    expect(currentPause(resumed)).toBeUndefined();
+    expect(resumed.pauseHistory).toEqual([
+      { startedAt: NINE_AM, endedAt: NINE_AM + 20 * MINUTE, reason: 'Staff meeting', expectedResumeAt: NINE_AM + 30 * MINUTE },
+    ]);
+    expect(joinAvailability([], resumed, [], NINE_AM + 21 * MINUTE)).toEqual({ open: true });
+  });
+
+  test('Only paused time inside the measured wait is taken out of it', () => {
+    const withPauses: BranchConfig = {
+      ...branch,
+      pauseHistory: [
+        { startedAt: NINE_AM - 60 * MINUTE, endedAt: NINE_AM - 50 * MINUTE },
+        { startedAt: NINE_AM + 10 * MINUTE, endedAt: NINE_AM + 25 * MINUTE },
+        { startedAt: NINE_AM + 35 * MINUTE },
+      ],
+    };
+    expect(pausedMinutesBetween(withPauses, NINE_AM, NINE_AM + 60 * MINUTE)).toBe(40);
+
+    // In the building from 9:00 and served at 9:30, with the 15-minute pause in between
+    const served = ticket('a', 1, {
+      status: TicketStatus.SERVED,
+      joinedAt: NINE_AM - 45 * MINUTE,
+      enteredBuildingAt: NINE_AM,
+      transactionEndedAt: NINE_AM + 30 * MINUTE,
+      waitTimeMinutes: 30,
+    });
+    expect(waitExcludingPauses(served, withPauses)).toBe(15);
+    expect(waitExcludingPauses({ ...served, waitTimeMinutes: undefined }, withPauses)).toBeUndefined();
+
+    // Nothing is added for the time outside, and a wait no pause overlapped is unchanged
+    expect(waitExcludingPauses(served, branch)).toBe(30);
+    const betweenPauses = { ...served, enteredBuildingAt: NINE_AM - 45 * MINUTE, transactionEndedAt: NINE_AM + 5 * MINUTE, waitTimeMinutes: 50 };
+    expect(waitExcludingPauses(betweenPauses, withPauses)).toBe(50);
+
+    // Never below zero
+    expect(waitExcludingPauses({ ...served, waitTimeMinutes: 10 }, withPauses)).toBe(0);
+  });
+});
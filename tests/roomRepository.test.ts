@@ -0,0 +1,42 @@
+/**
+ * Room Registry Tests
+ * Rooms round-trip through the row mapper, are validated, and a clinician
+ * works in one room per branch at a time
+ */
+
+import { Room } from '../types';
+import {
+  DEFAULT_ROOMS,
+  InvalidRoomError,
+  applyRoomChange,
+  assignClinicianToRoom,
+  createInMemoryRoomRepository,
+  roomForClinician,
+  roomFromRow,
+  roomToRow,
+} from '../utils/roomRepository';
+
+describe('Room registry', () => {
+  test('Mapper round-trips every room field', () => {
+    for (const room of DEFAULT_ROOMS) expect(roomFromRow(roomToRow(room))).toEqual(room);
+    expect(roomToRow(DEFAULT_ROOMS[1]).clinician_id).toBeNull();
+  });
+
+  test('Rooms without a name are rejected', async () => {
+    const repository = createInMemoryRoomRepository();
+    await expect(repository.save({ ...DEFAULT_ROOMS[0], name: '  ' })).rejects.toBeInstanceOf(InvalidRoomError);
+    expect((await repository.list())[0].name).toBe('Room 1');
+  });
+
+  test('Taking a room opens it and vacates the clinician\'s previous one', async () => {
+    const repository = createInMemoryRoomRepository();
+    let rooms: Room[] = await repository.list();
+    repository.subscribe(event => { rooms = applyRoomChange(rooms, event); });
+
+    for (const room of assignClinicianToRoom(rooms, 'main-clinic-room-3', 'Doctor-1')) await repository.save(room);
+
+    expect(roomForClinician(rooms, 'main-clinic', 'Doctor-1')?.name).toBe('Room 3');
+    expect(rooms.find(r => r.id === 'main-clinic-room-1')?.clinicianId).toBeUndefined();
+    expect(roomForClinician(rooms, 'main-clinic', undefined)).toBeUndefined();
+  });
+});
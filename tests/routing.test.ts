@@ -0,0 +1,92 @@
+/**
+ * Skill-Based Routing Tests
+ * "Call next" skips patients the clinician or their room can't see,
+ * reception is told about visit reasons nobody on duty covers, and patients
+ * are only held for a preferred clinician who is working
+ */
+
+import { Room, ServiceCategory, TicketStatus } from '../types';
+import { canServe, nextTicketFor, preferenceContext, unservedCategories } from '../utils/routing';
+import { estimateWaitForClinician } from '../utils/eta';
+import { DEFAULT_STAFF } from '../utils/staffRepository';
+import { MINUTE, branch as mainClinic, ticket } from './fixtures';
+
+const [doctor, doctor2, nurse] = DEFAULT_STAFF;
+
+const branch = { ...mainClinic, preferenceHoldMinutes: 20 };
+
+// Monday 5 January 2026, 10:00 — Doctor-1 and Nurse-1 on shift, Doctor-2 not yet
+const mondayMorning = new Date(2026, 0, 5, 10, 0).getTime();
+// Monday noon — all three clinicians on shift
+const mondayNoon = new Date(2026, 0, 5, 12, 0).getTime();
+
+describe('Skill-based routing', () => {
+  test('Call next picks the longest-waiting patient the clinician can see', () => {
+    const tickets = [
+      ticket('jab', 1, { serviceCategory: ServiceCategory.VACCINATION }),
+      ticket('other', 2, { serviceCategory: ServiceCategory.OTHER }),
+      ticket('walk-in', 3),
+    ];
+    expect(nextTicketFor(tickets, 'main-clinic', doctor)?.id).toBe('other');
+    expect(nextTicketFor(tickets, 'main-clinic', nurse)?.id).toBe('jab');
+    expect(nextTicketFor(tickets.slice(1), 'main-clinic', nurse)?.id).toBe('walk-in');
+  });
+
+  test('The room must be equipped for the visit too', () => {
+    const labRoom: Room = { id: 'r', branchId: 'main-clinic', name: 'Lab', isOpen: true, serviceCategories: [ServiceCategory.LAB_RESULTS] };
+    expect(canServe(ServiceCategory.FOLLOW_UP, nurse)).toBe(true);
+    expect(canServe(ServiceCategory.FOLLOW_UP, nurse, labRoom)).toBe(false);
+    expect(canServe(ServiceCategory.LAB_RESULTS, nurse, labRoom)).toBe(true);
+    expect(canServe(undefined, nurse, labRoom)).toBe(true);
+  });
+
+  test('Reception is warned about visit reasons nobody on duty can see', () => {
+    const tickets = [
+      ticket('jab', 1, { serviceCategory: ServiceCategory.VACCINATION, status: TicketStatus.REMOTE_WAITING }),
+      ticket('checkup', 2, { serviceCategory: ServiceCategory.GENERAL_CHECKUP }),
+    ];
+    expect(unservedCategories(tickets, DEFAULT_STAFF, [], 'main-clinic', mondayMorning)).toEqual([]);
+
+    const nurseOnBreak = DEFAULT_STAFF.map(m => (m.id === nurse.id ? { ...m, onBreak: true } : m));
+    expect(unservedCategories(tickets, nurseOnBreak, [], 'main-clinic', mondayMorning)).toEqual([ServiceCategory.VACCINATION]);
+  });
+
+  test('Patients are held for the clinician they asked for until the hold runs out', () => {
+    const tickets = [
+      ticket('returning', 1, { serviceCategory: ServiceCategory.FOLLOW_UP, preferredClinicianId: doctor2.id, joinedAt: mondayNoon }),
+      ticket('walk-in', 2, { serviceCategory: ServiceCategory.FOLLOW_UP, joinedAt: mondayNoon + MINUTE }),
+    ];
+    const early = preferenceContext(branch, DEFAULT_STAFF, mondayNoon + 10 * MINUTE);
+    expect(nextTicketFor(tickets, 'main-clinic', doctor, undefined, early)?.id).toBe('walk-in');
+    expect(nextTicketFor(tickets, 'main-clinic', doctor2, undefined, early)?.id).toBe('returning');
+
+    const late = preferenceContext(branch, DEFAULT_STAFF, mondayNoon + 25 * MINUTE);
+    expect(nextTicketFor(tickets, 'main-clinic', doctor, undefined, late)?.id).toBe('returning');
+  });
+
+  test('Nobody is held for a clinician who is off shift or on a break', () => {
+    const asksForDoctor2 = (joinedAt: number) => [
+      ticket('returning', 1, { serviceCategory: ServiceCategory.FOLLOW_UP, preferredClinicianId: doctor2.id, joinedAt }),
+      ticket('walk-in', 2, { serviceCategory: ServiceCategory.FOLLOW_UP, joinedAt: joinedAt + MINUTE }),
+    ];
+    // Doctor-2's shift starts at noon
+    const beforeShift = preferenceContext(branch, DEFAULT_STAFF, mondayMorning + 5 * MINUTE);
+    expect(nextTicketFor(asksForDoctor2(mondayMorning), 'main-clinic', doctor, undefined, beforeShift)?.id).toBe('returning');
+
+    const onBreak = DEFAULT_STAFF.map(m => (m.id === doctor2.id ? { ...m, onBreak: true } : m));
+    const duringBreak = preferenceContext(branch, onBreak, mondayNoon + 5 * MINUTE);
+    expect(nextTicketFor(asksForDoctor2(mondayNoon), 'main-clinic', doctor, undefined, duringBreak)?.id).toBe('returning');
+  });
+
+  test('A held patient\'s wait is estimated from their clinician\'s own queue', () => {
+    const tickets = [
+      { ...ticket('a', 1), preferredClinicianId: doctor.id },
+      { ...ticket('b', 2), preferredClinicianId: doctor2.id },
+      ticket('c', 3),
+      ticket('d', 4),
+      { ...ticket('me', 5), preferredClinicianId: doctor.id },
+    ];
+    // Two clinicians on duty: one of mine ahead, plus half of the two unassigned
+    expect(estimateWaitForClinician(tickets, branch, tickets[4], doctor.id, DEFAULT_STAFF, mondayMorning)).toBe(45);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Staff Directory Tests
+ * Staff round-trip through the row mapper, rosters are validated, and only
+ * rostered clinicians who aren't on a break count as on duty
+ */
+
+import { StaffMember, UserRole } from '../types';
+import {
+  DEFAULT_STAFF,
+  InvalidStaffMemberError,
+  cliniciansOnDuty,
+  createInMemoryStaffRepository,
+  isOnShift,
+  staffFromRow,
+  staffName,
+  staffToRow,
+} from '../utils/staffRepository';
+
+// Monday 5 January 2026, local time
+const monday = (hours: number, minutes = 0) => new Date(2026, 0, 5, hours, minutes).getTime();
+
+describe('Staff directory', () => {
+  test('Mapper round-trips every staff field', () => {
+    for (const member of DEFAULT_STAFF) expect(staffFromRow(staffToRow(member))).toEqual(member);
+  });
+
+  test('Bad rosters and roles are rejected', async () => {
+    const repository = createInMemoryStaffRepository();
+    const [doctor] = DEFAULT_STAFF;
+    await expect(repository.save({ ...doctor, shifts: [{ branchId: 'main-clinic', dayOfWeek: 1, start: '17:00', end: '09:00' }] }))
+      .rejects.toBeInstanceOf(InvalidStaffMemberError);
+    await expect(repository.save({ ...doctor, role: UserRole.PATIENT })).rejects.toBeInstanceOf(InvalidStaffMemberError);
+    await expect(repository.save({ ...doctor, id: 'Manager-2', role: UserRole.MANAGER })).resolves.toMatchObject({ role: UserRole.MANAGER });
+  });
+
+  test('Shifts are matched by branch, weekday and time', () => {
+    const [doctor] = DEFAULT_STAFF; // weekdays 08:00–16:00 at main-clinic
+    expect(isOnShift(doctor, 'main-clinic', monday(8))).toBe(true);
+    expect(isOnShift(doctor, 'main-clinic', monday(16))).toBe(false);
+    expect(isOnShift(doctor, 'north', monday(9))).toBe(false);
+    expect(isOnShift(doctor, 'main-clinic', new Date(2026, 0, 4, 9).getTime())).toBe(false); // Sunday
+  });
+
+  test('Receptionists, managers, former staff and breaks do not count as on duty', () => {
+    const staff: StaffMember[] = DEFAULT_STAFF.map(m => (m.id === 'Nurse-1' ? { ...m, onBreak: true } : m));
+    expect(cliniciansOnDuty(staff, 'main-clinic', monday(13)).map(m => m.id)).toEqual(['Doctor-1', 'Doctor-2']);
+
+    const retired = staff.map(m => (m.id === 'Doctor-2' ? { ...m, isActive: false } : m));
+    expect(cliniciansOnDuty(retired, 'main-clinic', monday(13)).map(m => m.id)).toEqual(['Doctor-1']);
+  });
+
+  test('Unknown ids fall back to the raw id', () => {
+    expect(staffName(DEFAULT_STAFF, 'Doctor-1')).toBe('Dr. Amelia Hart');
+    expect(staffName(DEFAULT_STAFF, 'Docter-1')).toBe('Docter-1');
+  });
+});
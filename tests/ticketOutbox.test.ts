@@ -0,0 +1,193 @@
+/**
+ * Offline Outbox Tests
+ * Writes made while the server is unreachable are queued, survive a reload,
+ * replay in order and merge with edits made on other devices
+ */
+
+import { CommsChannel, Ticket, TicketStatus } from '../types';
+import { mergeTicketChanges } from '../utils/ticketMerge';
+import { createTicketOutbox } from '../utils/ticketOutbox';
+import {
+  QueueNumberUnavailableError,
+  StaleTicketError,
+  TicketRepository,
+  createInMemoryTicketRepository,
+} from '../utils/ticketRepository';
+
+const ticket: Ticket = {
+  id: 't1',
+  queueNumber: 3,
+  name: 'Test Patient',
+  phone: '+17580000000',
+  channel: CommsChannel.SMS,
+  status: TicketStatus.REMOTE_WAITING,
+  branchId: 'main-clinic',
+  joinedAt: 1,
+};
+
+const memoryStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    clear: () => items.clear(),
+    getItem: key => items.get(key) ?? null,
+    key: index => [...items.keys()][index] ?? null,
+    removeItem: key => { items.delete(key); },
+    setItem: (key, value) => { items.set(key, value); },
+  };
+};
+
+// A server that can be taken offline: every call throws while `online` is false
+const flakyServer = (seed: Ticket[]) => {
+  const server = createInMemoryTicketRepository(seed);
+  const link = { online: true };
+  const guard = <A extends unknown[], R>(call: (...args: A) => Promise<R>) => async (...args: A) => {
+    if (!link.online) throw new Error('Failed to fetch');
+    return call(...args);
+  };
+  const repository: TicketRepository = {
+    list: guard(server.list),
+    insert: guard(server.insert),
+    update: guard(server.update),
+    remove: guard(server.remove),
+    upsertMany: guard(server.upsertMany),
+    allocateQueueNumber: guard(server.allocateQueueNumber),
+    subscribe: server.subscribe,
+  };
+  return { server, repository, link };
+};
+
+const setup = async (seed: Ticket[]) => {
+  const { server, repository, link } = flakyServer(seed);
+  const storage = memoryStorage();
+  const create = () => createTicketOutbox(repository, createInMemoryTicketRepository(), {
+    storage,
+    clock: { now: () => 100 },
+    retryDelayMs: 60_000,
+  });
+  const outbox = create();
+  await outbox.list();
+  return { server, repository, outbox, link, create };
+};
+
+describe('Offline outbox', () => {
+  test('Writes made offline survive a reload and replay in order', async () => {
+    const { server, outbox, link, create } = await setup([ticket]);
+    link.online = false;
+
+    await outbox.update('t1', { auditNotes: 'first' });
+    await outbox.insert({ ...ticket, id: 't2', queueNumber: 4 });
+    await outbox.remove('t1');
+    expect(outbox.pendingCount()).toBe(3);
+    expect((await server.list()).map(t => t.id)).toEqual(['t1']);
+
+    // The tab is reloaded while still offline, then the link comes back
+    const reloaded = create();
+    expect(reloaded.pendingCount()).toBe(3);
+    link.online = true;
+    await reloaded.replay();
+
+    expect(reloaded.pendingCount()).toBe(0);
+    expect((await server.list()).map(t => t.id)).toEqual(['t2']);
+  });
+
+  test('Queue numbers are not issued offline, so they never repeat', async () => {
+    const { outbox, link } = await setup([ticket]);
+    expect(await outbox.allocateQueueNumber('main-clinic', '2026-01-05')).toBe(1);
+    link.online = false;
+    await expect(outbox.allocateQueueNumber('main-clinic', '2026-01-05')).rejects.toBeInstanceOf(QueueNumberUnavailableError);
+  });
+
+  test('Fields edited on different devices are both kept', async () => {
+    const { server, outbox, link } = await setup([ticket]);
+    link.online = false;
+    await outbox.update('t1', { auditNotes: 'Allergic to penicillin' });
+
+    await server.update('t1', { status: TicketStatus.IN_BUILDING, updatedAt: 50 });
+    link.online = true;
+    await outbox.replay();
+
+    const [stored] = await server.list();
+    expect(stored.status).toBe(TicketStatus.IN_BUILDING);
+    expect(stored.auditNotes).toBe('Allergic to penicillin');
+    expect(outbox.conflicts()).toEqual([]);
+  });
+
+  test('A write that loses the race is re-read, merged and retried', async () => {
+    const { server, repository, outbox, link } = await setup([ticket]);
+    link.online = false;
+    await outbox.update('t1', {
+      status: TicketStatus.IN_BUILDING,
+      statusHistory: [{ ticketId: 't1', fromStatus: TicketStatus.REMOTE_WAITING, toStatus: TicketStatus.IN_BUILDING, timestamp: 10, triggeredBy: 'reception' }],
+    });
+
+    // The doctor's screen writes between our read and our write
+    const update = repository.update;
+    repository.update = async (id, patch, expectedVersion) => {
+      repository.update = update;
+      await server.update(id, {
+        auditNotes: 'Seen early',
+        statusHistory: [{ ticketId: 't1', fromStatus: TicketStatus.REMOTE_WAITING, toStatus: TicketStatus.IN_BUILDING, timestamp: 20, triggeredBy: 'teller' }],
+      });
+      return update(id, patch, expectedVersion);
+    };
+    link.online = true;
+    await outbox.replay();
+
+    const [stored] = await server.list();
+    expect(stored.status).toBe(TicketStatus.IN_BUILDING);
+    expect(stored.auditNotes).toBe('Seen early');
+    expect(stored.statusHistory!.map(h => h.timestamp)).toEqual([10, 20]);
+    expect(outbox.conflicts()).toEqual([]);
+  });
+
+  test('Conditional updates reject stale versions', async () => {
+    const repository = createInMemoryTicketRepository([ticket]);
+    await repository.update('t1', { auditNotes: 'first' }, 1);
+    await expect(repository.update('t1', { auditNotes: 'second' }, 1)).rejects.toBeInstanceOf(StaleTicketError);
+  });
+
+  test('Conditional updates through the outbox stay conditional until replayed', async () => {
+    const { server, outbox, link } = await setup([ticket]);
+    await expect(outbox.update('t1', { auditNotes: 'too late' }, 2)).rejects.toBeInstanceOf(StaleTicketError);
+
+    link.online = false;
+    await outbox.update('t1', { auditNotes: 'Allergic to penicillin' }, 1);
+    await server.update('t1', { status: TicketStatus.IN_BUILDING, updatedAt: 50 });
+    link.online = true;
+    await outbox.replay();
+
+    // The server moved past version 1, so the edit is not merged onto version 2
+    const [stored] = await server.list();
+    expect(stored.auditNotes).toBeUndefined();
+    expect(outbox.conflicts()).toMatchObject([{ ticketId: 't1', reason: 'edited', fields: ['auditNotes'] }]);
+  });
+
+  test('Status clashes follow status precedence', () => {
+    const local = { ...ticket, status: TicketStatus.IN_BUILDING };
+    const remote = { ...ticket, status: TicketStatus.IN_SERVICE, updatedAt: 500 };
+    expect(mergeTicketChanges(ticket, local, remote, 'status-precedence', 900).ticket.status)
+      .toBe(TicketStatus.IN_SERVICE);
+    expect(mergeTicketChanges(ticket, local, remote, 'last-writer-wins', 900).ticket.status)
+      .toBe(TicketStatus.IN_BUILDING);
+  });
+
+  test('Undecidable clashes are surfaced and can be settled', async () => {
+    const { server, outbox, link } = await setup([ticket]);
+    link.online = false;
+    await outbox.update('t1', { status: TicketStatus.NOT_HERE });
+
+    await server.update('t1', { status: TicketStatus.ELIGIBLE_FOR_ENTRY, updatedAt: 50 });
+    link.online = true;
+    await outbox.replay();
+
+    const [conflict] = outbox.conflicts();
+    expect(conflict.fields).toEqual(['status']);
+    expect((await server.list())[0].status).toBe(TicketStatus.ELIGIBLE_FOR_ENTRY);
+
+    await outbox.resolveConflict(conflict.id, 'local');
+    await outbox.replay();
+    expect(outbox.conflicts()).toEqual([]);
+    expect((await server.list())[0].status).toBe(TicketStatus.NOT_HERE);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Ticket Repository Tests
+ * Tests the row mapper round-trips every field, that backends are interchangeable
+ * and that the sync layer only writes what changed
+ */
+
+import { CommsChannel, ServiceCategory, Ticket, TicketStatus } from '../types';
+import {
+  StaleTicketError,
+  createInMemoryTicketRepository,
+  createLocalStorageTicketRepository,
+  serviceDay,
+  ticketFromRow,
+  ticketToRow,
+} from '../utils/ticketRepository';
+import { createTicketSync } from '../utils/ticketSync';
+
+const fullTicket: Ticket = {
+  id: 't1',
+  queueNumber: 7,
+  name: 'Test Patient',
+  phone: '+17580000000',
+  memberId: 'PT0001',
+  channel: CommsChannel.WHATSAPP,
+  status: TicketStatus.IN_BUILDING,
+  branchId: 'main-clinic',
+  serviceCategory: ServiceCategory.FOLLOW_UP,
+  counterId: 'room-1',
+  tellerId: 'Doctor-1',
+  joinedAt: 1,
+  calledAt: 2,
+  eligibleForEntryAt: 3,
+  enteredBuildingAt: 4,
+  leftBuildingAt: 5,
+  transactionStartedAt: 6,
+  transactionEndedAt: 7,
+  bumpedAt: 8,
+  feedbackStars: 5,
+  auditNotes: 'note',
+  statusHistory: [{
+    ticketId: 't1',
+    fromStatus: TicketStatus.ELIGIBLE_FOR_ENTRY,
+    toStatus: TicketStatus.IN_BUILDING,
+    timestamp: 4,
+    triggeredBy: 'reception',
+  }],
+  waitTimeMinutes: 12,
+  isNoShow: false,
+};
+
+const memoryStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    clear: () => items.clear(),
+    getItem: key => items.get(key) ?? null,
+    key: index => [...items.keys()][index] ?? null,
+    removeItem: key => { items.delete(key); },
+    setItem: (key, value) => { items.set(key, value); },
+  };
+};
+
+describe('Ticket repository', () => {
+  test('Mapper round-trips every ticket field', () => {
+    expect(ticketFromRow(ticketToRow(fullTicket))).toEqual(fullTicket);
+  });
+
+  test('Patches keep statusHistory and building timestamps', () => {
+    const row = ticketToRow({
+      statusHistory: fullTicket.statusHistory,
+      eligibleForEntryAt: 10,
+      enteredBuildingAt: 11,
+    });
+    expect(row).toEqual({
+      status_history: fullTicket.statusHistory,
+      eligible_for_entry_at: 10,
+      entered_building_at: 11,
+    });
+  });
+
+  test('Clearing a field in a patch writes NULL', () => {
+    expect(ticketToRow({ eligibleForEntryAt: undefined })).toEqual({ eligible_for_entry_at: null });
+  });
+
+  test('Legacy statuses are normalized on write', () => {
+    expect(ticketToRow({ status: TicketStatus.COMPLETED }).status).toBe(TicketStatus.SERVED);
+  });
+
+  test.each([
+    ['in-memory', () => createInMemoryTicketRepository()],
+    ['localStorage', () => createLocalStorageTicketRepository(memoryStorage())],
+  ])('%s backend stores, patches and removes tickets', async (_name, create) => {
+    const repository = create();
+    await repository.insert(fullTicket);
+    await repository.update('t1', { status: TicketStatus.IN_TRANSACTION, eligibleForEntryAt: undefined });
+
+    const [stored] = await repository.list();
+    expect(stored.status).toBe(TicketStatus.IN_SERVICE);
+    expect(stored.eligibleForEntryAt).toBeUndefined();
+
+    await repository.remove('t1');
+    expect(await repository.list()).toEqual([]);
+  });
+
+  test.each([
+    ['in-memory', () => createInMemoryTicketRepository([fullTicket])],
+    ['localStorage', async () => {
+      const repository = createLocalStorageTicketRepository(memoryStorage());
+      await repository.insert(fullTicket);
+      return repository;
+    }],
+  ])('%s backend issues unique queue numbers per branch and day', async (_name, create) => {
+    const repository = await create();
+    const day = serviceDay(fullTicket.joinedAt);
+
+    const numbers = await Promise.all([
+      repository.allocateQueueNumber('main-clinic', day),
+      repository.allocateQueueNumber('main-clinic', day),
+      repository.allocateQueueNumber('main-clinic', day),
+    ]);
+    expect(numbers.sort((a, b) => a - b)).toEqual([8, 9, 10]); // continues after today's #7
+    expect(await repository.allocateQueueNumber('main-clinic', '2099-01-01')).toBe(1);
+    expect(await repository.allocateQueueNumber('other-branch', day)).toBe(1);
+  });
+});
+
+describe('Ticket sync', () => {
+  test('Only modified tickets are upserted, in one batch', async () => {
+    const other = { ...fullTicket, id: 't2' };
+    const repository = createInMemoryTicketRepository([fullTicket, other]);
+    const upserts: string[][] = [];
+    const upsertMany = repository.upsertMany;
+    repository.upsertMany = async tickets => {
+      upserts.push(tickets.map(t => t.id));
+      return upsertMany(tickets);
+    };
+
+    const sync = createTicketSync(repository, { flushDelayMs: 10_000 });
+    await sync.load();
+    await sync.update('t1', { feedbackStars: 3 });
+    await sync.update('t1', { auditNotes: 'second edit' });
+    await sync.update('t2', { name: other.name }); // no-op
+    expect(sync.pendingCount()).toBe(1);
+
+    await sync.flush();
+    expect(upserts).toEqual([['t1']]);
+    const stored = (await repository.list()).find(t => t.id === 't1')!;
+    expect(stored.feedbackStars).toBe(3);
+    expect(stored.auditNotes).toBe('second edit');
+  });
+
+  test('Conditional updates are written straight away and rejected once stale', async () => {
+    const repository = createInMemoryTicketRepository([fullTicket]);
+    const sync = createTicketSync(repository, { flushDelayMs: 10_000 });
+    await sync.load();
+    await sync.update('t1', { auditNotes: 'pending edit' });
+
+    const version = fullTicket.version ?? 1;
+    expect(await sync.update('t1', { feedbackStars: 4 }, version))
+      .toMatchObject({ auditNotes: 'pending edit', feedbackStars: 4, version: version + 1 });
+    expect(sync.pendingCount()).toBe(0);
+    await expect(sync.update('t1', { feedbackStars: 5 }, version)).rejects.toBeInstanceOf(StaleTicketError);
+  });
+
+  test('Tickets the device has not touched are never deleted', async () => {
+    const repository = createInMemoryTicketRepository([fullTicket]);
+    const sync = createTicketSync(repository, { flushDelayMs: 10_000 });
+    await sync.load();
+
+    // Another device adds a ticket after this one loaded
+    await repository.insert({ ...fullTicket, id: 'remote' });
+    await sync.insert({ ...fullTicket, id: 'local' });
+    await sync.flush();
+
+    expect((await repository.list()).map(t => t.id).sort()).toEqual(['local', 'remote', 't1']);
+  });
+
+  test('Remote changes are applied without reverting pending local edits', async () => {
+    const other = { ...fullTicket, id: 't2' };
+    const sync = createTicketSync(createInMemoryTicketRepository([fullTicket, other]), { flushDelayMs: 10_000 });
+    let tickets = await sync.load();
+    const edited = (await sync.update('t1', { auditNotes: 'local edit' }))!;
+    tickets = tickets.map(t => (t.id === 't1' ? edited : t));
+
+    tickets = sync.receive(tickets, { type: 'upsert', ticket: { ...fullTicket, auditNotes: 'remote edit' } });
+    tickets = sync.receive(tickets, { type: 'upsert', ticket: { ...other, feedbackStars: 1 } });
+    expect(tickets.find(t => t.id === 't1')!.auditNotes).toBe('local edit');
+    expect(tickets.find(t => t.id === 't2')!.feedbackStars).toBe(1);
+
+    tickets = sync.receive(tickets, { type: 'resync', tickets: [{ ...fullTicket, id: 'new' }, fullTicket] });
+    expect(tickets.map(t => t.id)).toEqual(['new', 't1']);
+    expect(tickets.find(t => t.id === 't1')!.auditNotes).toBe('local edit');
+    expect(sync.pendingCount()).toBe(1);
+  });
+});
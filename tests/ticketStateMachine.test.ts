@@ -0,0 +1,84 @@
+/**
+ * Ticket State Machine Tests
+ * Tests legacy alias normalization and the legal transition table
+ */
+
+import { Ticket, TicketStatus, CommsChannel } from '../types';
+import {
+  IllegalTransitionError,
+  canTransition,
+  normalizeStatus,
+  normalizeTicket,
+  transitionTicket,
+} from '../utils/ticketStateMachine';
+
+const makeTicket = (status: TicketStatus): Ticket => ({
+  id: 't1',
+  queueNumber: 1,
+  name: 'Test Patient',
+  phone: '+17580000000',
+  channel: CommsChannel.SMS,
+  status,
+  branchId: 'main-clinic',
+  joinedAt: 0,
+});
+
+describe('Ticket state machine', () => {
+  test('Legacy aliases normalize onto canonical states', () => {
+    expect(normalizeStatus(TicketStatus.WAITING)).toBe(TicketStatus.REMOTE_WAITING);
+    expect(normalizeStatus(TicketStatus.CALLED)).toBe(TicketStatus.ELIGIBLE_FOR_ENTRY);
+    expect(normalizeStatus(TicketStatus.ARRIVED)).toBe(TicketStatus.IN_BUILDING);
+    expect(normalizeStatus(TicketStatus.IN_TRANSACTION)).toBe(TicketStatus.IN_SERVICE);
+    expect(normalizeStatus(TicketStatus.COMPLETED)).toBe(TicketStatus.SERVED);
+    expect(normalizeStatus(TicketStatus.NOT_HERE)).toBe(TicketStatus.NOT_HERE);
+  });
+
+  test('Aliases are accepted on both sides of a transition', () => {
+    expect(canTransition(TicketStatus.ARRIVED, TicketStatus.IN_TRANSACTION)).toBe(true);
+    expect(canTransition(TicketStatus.IN_SERVICE, TicketStatus.COMPLETED)).toBe(true);
+  });
+
+  test('Served tickets cannot be moved back into the building', () => {
+    expect(canTransition(TicketStatus.SERVED, TicketStatus.IN_BUILDING)).toBe(false);
+    expect(() =>
+      transitionTicket(makeTicket(TicketStatus.COMPLETED), TicketStatus.IN_BUILDING, 'reception', undefined, 1),
+    ).toThrow(IllegalTransitionError);
+  });
+
+  test('Repeating the current status is rejected', () => {
+    expect(canTransition(TicketStatus.IN_BUILDING, TicketStatus.ARRIVED)).toBe(false);
+  });
+
+  test('Accepted transitions record a canonical StatusTransition', () => {
+    const ticket = makeTicket(TicketStatus.ARRIVED);
+    const result = transitionTicket(ticket, TicketStatus.IN_TRANSACTION, 'teller', 'Called in', 42);
+
+    expect(result.status).toBe(TicketStatus.IN_SERVICE);
+    expect(result.statusHistory).toEqual([{
+      ticketId: 't1',
+      fromStatus: TicketStatus.IN_BUILDING,
+      toStatus: TicketStatus.IN_SERVICE,
+      timestamp: 42,
+      triggeredBy: 'teller',
+      reason: 'Called in',
+    }]);
+  });
+
+  test('Stored tickets are normalized on read, including their history', () => {
+    const stored = {
+      ...makeTicket(TicketStatus.COMPLETED),
+      statusHistory: [{
+        ticketId: 't1',
+        fromStatus: TicketStatus.IN_TRANSACTION,
+        toStatus: TicketStatus.COMPLETED,
+        timestamp: 1,
+        triggeredBy: 'teller' as const,
+      }],
+    };
+    const normalized = normalizeTicket(stored);
+
+    expect(normalized.status).toBe(TicketStatus.SERVED);
+    expect(normalized.statusHistory![0].fromStatus).toBe(TicketStatus.IN_SERVICE);
+    expect(normalized.statusHistory![0].toStatus).toBe(TicketStatus.SERVED);
+  });
+});
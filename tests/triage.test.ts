@@ -0,0 +1,50 @@
+/**
+ * Triage Priority Tests
+ * Acuity moves patients up the queue by a bounded head start, so urgent
+ * patients are seen sooner without anyone waiting forever
+ */
+
+import { ServiceCategory } from '../types';
+import { acuityOf, movedAheadOf, priorityOrder } from '../utils/triage';
+import { MINUTE, ticket } from './fixtures';
+
+describe('Triage priority', () => {
+  test('Emergencies are very urgent until reception grades them', () => {
+    expect(acuityOf(ticket('a', 1, { joinedAt: 0 }))).toBe(4);
+    expect(acuityOf(ticket('b', 2, { joinedAt: 0, serviceCategory: ServiceCategory.EMERGENCY }))).toBe(2);
+    expect(acuityOf(ticket('c', 3, { joinedAt: 0, dependents: [{ name: 'Kid', serviceCategory: ServiceCategory.EMERGENCY }] }))).toBe(2);
+    expect(acuityOf(ticket('d', 4, { joinedAt: 0, serviceCategory: ServiceCategory.EMERGENCY, acuity: 5 }))).toBe(5);
+  });
+
+  test('Urgent patients overtake, but not anyone who has waited past their head start', () => {
+    const queue = [
+      ticket('waited-long', 1, { joinedAt: 0 }),
+      ticket('recent', 2, { joinedAt: 150 * MINUTE }),
+      ticket('urgent', 3, { joinedAt: 160 * MINUTE, acuity: 2 }),
+    ];
+    expect(priorityOrder(queue).map(t => t.id)).toEqual(['waited-long', 'urgent', 'recent']);
+    expect(priorityOrder(queue.map(t => ({ ...t, acuity: undefined }))).map(t => t.id))
+      .toEqual(['waited-long', 'recent', 'urgent']);
+  });
+
+  test('A patient re-queued with a new number lines up behind those already waiting', () => {
+    const queue = [
+      ticket('next-station', 4, { joinedAt: 0 }),
+      ticket('a', 1, { joinedAt: 10 * MINUTE }),
+      ticket('b', 2, { joinedAt: 20 * MINUTE }),
+    ];
+    expect(priorityOrder(queue).map(t => t.id)).toEqual(['a', 'b', 'next-station']);
+  });
+
+  test('A patient placed in line by time is seen by that time, whatever their number', () => {
+    const queue = [
+      ticket('a', 1, { joinedAt: 10 * MINUTE }),
+      ticket('b', 2, { joinedAt: 20 * MINUTE }),
+      ticket('transferred', 3, { joinedAt: 15 * MINUTE, inLineAt: 15 * MINUTE }),
+    ];
+    const ordered = priorityOrder(queue);
+    expect(ordered.map(t => t.id)).toEqual(['a', 'transferred', 'b']);
+    // Not an overtake: they were in line before b
+    expect(movedAheadOf(queue[1], ordered)).toEqual([]);
+  });
+});
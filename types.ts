@@ -29,6 +29,26 @@ export enum ServiceCategory {
   OTHER = 'OTHER'
 }
 
+// Stations a visit can pass through, in the order a pathway lists them
+export enum VisitStage {
+  TRIAGE = 'TRIAGE',
+  NURSE = 'NURSE',        // vitals, dressings, vaccinations
+  DOCTOR = 'DOCTOR',
+  LAB = 'LAB',
+  PHARMACY = 'PHARMACY'
+}
+
+// Triage acuity, 1 = immediate … 5 = non-urgent
+export type AcuityLevel = 1 | 2 | 3 | 4 | 5;
+
+// Reasons reception can give a patient priority access
+export enum PriorityFlag {
+  ELDERLY = 'ELDERLY',
+  PREGNANT = 'PREGNANT',
+  DISABLED = 'DISABLED',
+  WITH_INFANT = 'WITH_INFANT'   // accompanying an infant
+}
+
 export enum UserRole {
   PATIENT = 'PATIENT',
   RECEPTIONIST = 'RECEPTIONIST',
@@ -55,6 +75,7 @@ export interface Branch {
 export interface Ticket {
   id: string;
   queueNumber: number;
+  checkInCode?: string;         // Short code the patient reads out at reception, e.g. "K7Q-42"
   name: string;
   phone: string;
   memberId?: string;            // Patient / chart ID
@@ -62,9 +83,16 @@ export interface Ticket {
   status: TicketStatus;
   branchId: string;
   serviceCategory?: ServiceCategory;
+  acuity?: AcuityLevel;         // Set by reception at triage; absent = provisional from visit reason
+  priorityFlags?: PriorityFlag[]; // Set by reception; what they do is the branch's priority policy
+  pathway?: VisitStage[];       // Stations this visit passes through, fixed at join
+  stageIndex?: number;          // Position in `pathway` of the current station
   counterId?: string;           // Which consultation room / station
   tellerId?: string;            // Which doctor / staff member is serving
+  preferredClinicianId?: string; // Clinician the patient asked to see, held for them for a while
+  dependents?: Dependent[];     // Family members seen in the same visit, each taking a seat
   joinedAt: number;
+  inLineAt?: number;            // Place in line as a time, for patients placed by time rather than by number
   calledAt?: number;
   eligibleForEntryAt?: number;  // When patient was called to check in
   enteredBuildingAt?: number;   // When patient entered the waiting room
@@ -72,23 +100,117 @@ export interface Ticket {
   transactionStartedAt?: number; // When consultation started
   transactionEndedAt?: number;   // When consultation ended
   bumpedAt?: number;
+  graceMisses?: number;         // Check-in windows missed so far
+  graceWarnedAt?: number;       // When the patient was last warned their window is closing
   feedbackStars?: number;
   auditNotes?: string;          // Reception / triage notes
   statusHistory?: StatusTransition[];
   waitTimeMinutes?: number;     // Calculated wait time before consultation
   isNoShow?: boolean;
+  updatedAt?: number;           // Last server write (set by the database)
+  version?: number;             // Bumped by the database on every update
+}
+
+// Someone seen on another patient's ticket, e.g. a child with their parent
+export interface Dependent {
+  name: string;
+  serviceCategory?: ServiceCategory;
 }
 
 export interface BranchConfig {
   id: string;
   name: string;
   address: string;
+  phone?: string;
   service: string;
   avgTransactionTime: number;     // avg consultation duration in minutes
   gracePeriodMinutes: number;     // minutes patient has to confirm arrival (default 10)
-  isPaused: boolean;
+  isPaused: boolean;              // no promotion and no new joins; see pauseHistory for why
   maxInBuilding: number;          // max patients allowed in waiting room
   excludeInServiceFromCapacity: boolean;
+  isActive?: boolean;             // inactive branches are hidden everywhere
+  pathways?: Partial<Record<ServiceCategory, VisitStage[]>>; // overrides DEFAULT_PATHWAYS
+  preferenceHoldMinutes?: number; // how long a patient is held for their preferred clinician (default 30)
+  openingHours?: OpeningHours[];  // weekly opening times; absent = always open
+  holidays?: string[];            // 'YYYY-MM-DD' local dates the branch is closed
+  settingsHistory?: BranchSettingChange[]; // audit log of settings edits, oldest first
+  priorityPolicy?: PriorityPolicy; // what priority flags do here (default DEFAULT_PRIORITY_POLICY)
+  gracePolicy?: GracePolicy;      // what a missed check-in window costs (default DEFAULT_GRACE_POLICY)
+  pauseHistory?: PauseInterval[]; // every pause, oldest first; the last is open while isPaused
+  version?: number;               // Bumped by the database on every update
+}
+
+// A stretch of time a branch's queue was paused
+export interface PauseInterval {
+  startedAt: number;
+  endedAt?: number;               // absent while the pause is still on
+  reason?: string;                // shown to waiting patients, e.g. "Staff meeting"
+  expectedResumeAt?: number;
+  pausedBy?: string;              // manager signed in on the device that paused
+}
+
+// What priority flags do at a branch; a flagged patient gets every effect switched on
+export interface PriorityPolicy {
+  skipPlaces: number;             // places a flagged patient moves up the queue
+  earlyEntry: boolean;            // flagged remote patients are called in before others
+  graceExempt: boolean;           // flagged patients are not bumped when their grace period runs out
+}
+
+// What happens to a called patient who does not check in within the grace period
+export interface GracePolicy {
+  action: 'bump' | 'end-of-queue'; // move back `bumpPlaces`, or behind everyone waiting
+  bumpPlaces: number;
+  notHereAfterMisses: number;     // misses before the patient is marked NOT_HERE; 0 = never
+  warnMinutesBefore: number;      // text the patient this long before expiry; 0 = no warning
+}
+
+// A grace-period decision, recorded on the history entry it produced
+export type GraceOutcome = 'warned' | 'bumped' | 'moved-to-end' | 'not-here';
+
+// One edited setting in a branch's change history
+export interface BranchSettingChange {
+  field: keyof BranchConfig;
+  from: string | number | boolean | null;
+  to: string | number | boolean | null;
+  changedAt: number;
+  changedBy: string;              // staff id of whoever made the edit, e.g. the signed-in manager
+}
+
+// One opening window, in the branch's local time
+export interface OpeningHours {
+  dayOfWeek: number;              // 0 = Sunday … 6 = Saturday
+  open: string;                   // 'HH:MM'
+  close: string;                  // 'HH:MM', after open
+}
+
+// A consultation room or station at a branch
+export interface Room {
+  id: string;
+  branchId: string;
+  name: string;                   // shown to patients, e.g. "Room 3"
+  isOpen: boolean;                // closed rooms are never assigned patients
+  clinicianId?: string;           // doctor / staff member working in the room
+  serviceCategories?: ServiceCategory[]; // visit reasons the room is equipped for; absent = any
+}
+
+// A recurring weekly shift at a branch, in clinic-local time
+export interface StaffShift {
+  branchId: string;
+  dayOfWeek: number;              // 0 = Sunday … 6 = Saturday
+  start: string;                  // 'HH:MM'
+  end: string;                    // 'HH:MM', after start
+}
+
+// Someone who works the queue; ticket.tellerId holds their id
+export interface StaffMember {
+  id: string;
+  name: string;                   // display name, e.g. "Dr. Amelia Hart"
+  role: UserRole;                 // DOCTOR, NURSE, RECEPTIONIST or MANAGER
+  shifts: StaffShift[];
+  serviceCategories?: ServiceCategory[]; // visit reasons they see; absent = any
+  stages?: VisitStage[];          // stations they staff; absent = the role's default
+  onBreak: boolean;               // on shift but not seeing patients
+  isActive?: boolean;             // former staff stay in the directory for history
 }
 
 export interface StatusTransition {
@@ -98,6 +220,9 @@ export interface StatusTransition {
   timestamp: number;
   triggeredBy: 'system' | 'reception' | 'teller' | 'customer';
   reason?: string;
+  stage?: VisitStage;             // station the ticket was at, for multi-stage visits
+  acuity?: AcuityLevel;           // acuity set by this entry, for triage changes
+  graceOutcome?: GraceOutcome;    // set on entries written by grace-period expiry
 }
 
 export interface Metrics {
@@ -108,3 +233,11 @@ export interface Metrics {
   peakHours: { hour: number; count: number }[];
   serviceCategoryBreakdown: { category: ServiceCategory; count: number }[];
 }
+
+// Realtime link state shown in the header
+export type ConnectionStatus =
+  | 'connecting'    // First subscription in progress
+  | 'live'          // Receiving changes from other devices
+  | 'reconnecting'  // Link dropped — retrying with backoff
+  | 'offline'       // Browser reports no network
+  | 'local';        // No cloud backend — this device only
@@ -0,0 +1,107 @@
+import { BranchConfig, StaffMember, Ticket } from '../types';
+import { estimateWaitMinutes, waitingTickets } from './eta';
+import { headcount } from './party';
+import { currentPause } from './queuePause';
+import { minutesOfDay } from './staffRepository';
+import { serviceDay } from './ticketRepository';
+
+/**
+ * Branch opening hours, holidays and the last-join cutoff.
+ *
+ * All times are the branch's local time, like staff shifts. A branch with no
+ * `openingHours` is always open (older rows and test fixtures). Joining
+ * closes before the doors do: once a patient joining now would not be seen
+ * before closing time, judging by the current backlog, the branch stops
+ * taking new patients for the day.
+ */
+
+export type ClosedReason = 'paused' | 'holiday' | 'closed' | 'cutoff';
+
+/** Thrown when a patient tries to join a branch that isn't taking new patients. */
+export class BranchClosedError extends Error {
+  readonly branchId: string;
+  readonly reason: ClosedReason;
+  readonly opensAt?: number;
+
+  constructor(branchId: string, reason: ClosedReason, opensAt?: number) {
+    super(`${branchId} is not taking new patients (${reason})`);
+    this.name = 'BranchClosedError';
+    this.branchId = branchId;
+    this.reason = reason;
+    this.opensAt = opensAt;
+  }
+}
+
+export type JoinAvailability =
+  | { open: true; closesAt?: number; lastJoinAt?: number }
+  | { open: false; reason: ClosedReason; opensAt?: number };
+
+const DAY = 24 * 60 * 60 * 1000;
+// How far ahead to look for the next opening (covers long holiday breaks)
+const LOOKAHEAD_DAYS = 21;
+
+const atTimeOn = (day: Date, time: string): number => {
+  const minutes = minutesOfDay(time);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), Math.floor(minutes / 60), minutes % 60).getTime();
+};
+
+export const isHoliday = (branch: BranchConfig, at: number): boolean =>
+  !!branch.holidays?.includes(serviceDay(at));
+
+// Opening windows on the calendar day containing `day`, earliest first
+const windowsOn = (branch: BranchConfig, day: Date) =>
+  (branch.openingHours ?? [])
+    .filter(hours => hours.dayOfWeek === day.getDay())
+    .map(hours => ({ opensAt: atTimeOn(day, hours.open), closesAt: atTimeOn(day, hours.close) }))
+    .sort((a, b) => a.opensAt - b.opensAt);
+
+/** The opening window `at` falls in, if the branch is open then. */
+export const openingWindowAt = (branch: BranchConfig, at: number) => {
+  if (isHoliday(branch, at)) return undefined;
+  return windowsOn(branch, new Date(at)).find(w => at >= w.opensAt && at < w.closesAt);
+};
+
+/** When the branch next opens after `from`, skipping holidays. */
+export const nextOpening = (branch: BranchConfig, from: number): number | undefined => {
+  const start = new Date(from);
+  for (let offset = 0; offset <= LOOKAHEAD_DAYS; offset++) {
+    const day = new Date(start.getFullYear(), start.getMonth(), start.getDate() + offset);
+    if (isHoliday(branch, day.getTime())) continue;
+    const upcoming = windowsOn(branch, day).find(w => w.opensAt > from);
+    if (upcoming) return upcoming.opensAt;
+  }
+  return undefined;
+};
+
+/**
+ * Whether a patient can join the branch right now. A paused branch reopens
+ * when staff resume it; `opensAt` is only their estimate.
+ */
+export const joinAvailability = (
+  tickets: Ticket[],
+  branch: BranchConfig,
+  staff: StaffMember[] = [],
+  now: number = Date.now(),
+): JoinAvailability => {
+  if (branch.isPaused) return { open: false, reason: 'paused', opensAt: currentPause(branch)?.expectedResumeAt };
+  if (isHoliday(branch, now)) return { open: false, reason: 'holiday', opensAt: nextOpening(branch, now) };
+  if (!branch.openingHours) return { open: true };
+
+  const window = openingWindowAt(branch, now);
+  if (!window) return { open: false, reason: 'closed', opensAt: nextOpening(branch, now) };
+
+  const waiting = headcount(waitingTickets(tickets, branch.id));
+  const lastJoinAt = window.closesAt - estimateWaitMinutes(tickets, branch, waiting, staff, now) * 60 * 1000;
+  if (now > lastJoinAt) return { open: false, reason: 'cutoff', opensAt: nextOpening(branch, window.closesAt) };
+  return { open: true, closesAt: window.closesAt, lastJoinAt };
+};
+
+/** "opens at 08:00", "opens tomorrow at 08:00", "opens Mon at 08:00". */
+export const describeOpening = (opensAt: number | undefined, now: number = Date.now()): string => {
+  if (opensAt === undefined) return 'not taking patients';
+  const time = new Date(opensAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const today = serviceDay(now);
+  if (serviceDay(opensAt) === today) return `opens at ${time}`;
+  if (serviceDay(opensAt - DAY) === today) return `opens tomorrow at ${time}`;
+  return `opens ${new Date(opensAt).toLocaleDateString([], { weekday: 'short' })} at ${time}`;
+};
@@ -0,0 +1,315 @@
+import { BranchConfig, BranchSettingChange, ConnectionStatus } from '../types';
+import { TIME_OF_DAY } from './staffRepository';
+
+/**
+ * Branch configuration persistence.
+ *
+ * Mirrors `TicketRepository`: the Supabase backend lives in supabase.ts next
+ * to the client, the localStorage and in-memory backends live here. Edits go
+ * through `update`, which validates the patch before anything is written.
+ */
+export interface BranchRepository {
+  list(): Promise<BranchConfig[]>;
+  /**
+   * Patch a branch. With `expectedVersion` the write only applies if the stored
+   * version still matches, otherwise it throws `StaleBranchError`.
+   */
+  update(id: string, patch: BranchConfigPatch, expectedVersion?: number): Promise<BranchConfig | null>;
+  /** Listen for edits made on other screens. Returns an unsubscribe function. */
+  subscribe(
+    onEvent: (event: BranchChangeEvent) => void,
+    onStatus?: (status: ConnectionStatus) => void,
+  ): () => void;
+}
+
+/** Everything but the id and version is editable. */
+export type BranchConfigPatch = Partial<Omit<BranchConfig, 'id' | 'version'>>;
+
+export type BranchChangeEvent =
+  | { type: 'upsert'; branch: BranchConfig }
+  | { type: 'resync'; branches: BranchConfig[] };
+
+/** Thrown when a branch edit would leave the queue unusable. */
+export class InvalidBranchConfigError extends Error {
+  readonly branchId: string;
+  readonly field: keyof BranchConfig;
+
+  constructor(branchId: string, field: keyof BranchConfig, message: string) {
+    super(`${branchId}: ${message}`);
+    this.name = 'InvalidBranchConfigError';
+    this.branchId = branchId;
+    this.field = field;
+  }
+}
+
+/** A conditional update lost the race: the branch changed since it was read. */
+export class StaleBranchError extends Error {
+  readonly branchId: string;
+  readonly expectedVersion: number;
+
+  constructor(branchId: string, expectedVersion: number) {
+    super(`Branch ${branchId} changed since version ${expectedVersion} was read`);
+    this.name = 'StaleBranchError';
+    this.branchId = branchId;
+    this.expectedVersion = expectedVersion;
+  }
+}
+
+// DocQline Medical Centre — used to seed local storage and as the fallback
+// until the first load from the backend completes
+export const DEFAULT_BRANCHES: BranchConfig[] = [
+  {
+    id: 'main-clinic',
+    name: 'Main Clinic',
+    address: '1 Health Avenue, DocQline Medical Centre',
+    phone: '+1-555-0100',
+    service: 'General Practice & Walk-in Care',
+    avgTransactionTime: 15, // Consultations average 15 minutes
+    gracePeriodMinutes: 10,
+    isActive: true,
+    isPaused: false,
+    maxInBuilding: 10,
+    excludeInServiceFromCapacity: false,
+    openingHours: [
+      ...[1, 2, 3, 4, 5].map(dayOfWeek => ({ dayOfWeek, open: '07:30', close: '20:00' })),
+      { dayOfWeek: 6, open: '09:00', close: '13:00' },
+    ],
+  },
+];
+
+export const validateBranchPatch = (id: string, patch: BranchConfigPatch): void => {
+  const wholeNumber = (
+    field: 'avgTransactionTime' | 'gracePeriodMinutes' | 'maxInBuilding' | 'preferenceHoldMinutes',
+    min: number,
+  ) => {
+    const value = patch[field];
+    if (value !== undefined && (!Number.isInteger(value) || value < min)) {
+      throw new InvalidBranchConfigError(id, field, `${field} must be a whole number of at least ${min}`);
+    }
+  };
+  wholeNumber('avgTransactionTime', 1);
+  wholeNumber('gracePeriodMinutes', 0);
+  wholeNumber('maxInBuilding', 1);
+  wholeNumber('preferenceHoldMinutes', 0);
+  if (patch.name !== undefined && !patch.name.trim()) {
+    throw new InvalidBranchConfigError(id, 'name', 'name cannot be empty');
+  }
+  for (const [category, stages] of Object.entries(patch.pathways ?? {})) {
+    if (!stages || stages.length === 0) {
+      throw new InvalidBranchConfigError(id, 'pathways', `${category} needs at least one stage`);
+    }
+  }
+  for (const hours of patch.openingHours ?? []) {
+    const valid =
+      Number.isInteger(hours.dayOfWeek) && hours.dayOfWeek >= 0 && hours.dayOfWeek <= 6 &&
+      TIME_OF_DAY.test(hours.open) && TIME_OF_DAY.test(hours.close) &&
+      hours.open < hours.close;
+    if (!valid) {
+      throw new InvalidBranchConfigError(id, 'openingHours', `invalid opening hours ${hours.dayOfWeek} ${hours.open}–${hours.close}`);
+    }
+  }
+  const skipPlaces = patch.priorityPolicy?.skipPlaces;
+  if (skipPlaces !== undefined && (!Number.isInteger(skipPlaces) || skipPlaces < 0)) {
+    throw new InvalidBranchConfigError(id, 'priorityPolicy', 'places skipped must be a whole number of at least 0');
+  }
+  if (patch.gracePolicy) {
+    const { bumpPlaces, notHereAfterMisses, warnMinutesBefore } = patch.gracePolicy;
+    if (!Number.isInteger(bumpPlaces) || bumpPlaces < 1) {
+      throw new InvalidBranchConfigError(id, 'gracePolicy', 'places bumped must be a whole number of at least 1');
+    }
+    if (!Number.isInteger(notHereAfterMisses) || notHereAfterMisses < 0) {
+      throw new InvalidBranchConfigError(id, 'gracePolicy', 'misses before not-here must be a whole number of at least 0');
+    }
+    if (!Number.isInteger(warnMinutesBefore) || warnMinutesBefore < 0) {
+      throw new InvalidBranchConfigError(id, 'gracePolicy', 'warning minutes must be a whole number of at least 0');
+    }
+  }
+  for (const holiday of patch.holidays ?? []) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(holiday)) {
+      throw new InvalidBranchConfigError(id, 'holidays', `${holiday} is not a YYYY-MM-DD date`);
+    }
+  }
+};
+
+// Oldest entries are dropped beyond this, so the row stays small
+const SETTINGS_HISTORY_LIMIT = 200;
+
+const historyValue = (value: unknown): BranchSettingChange['to'] => {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return value as string | number | boolean;
+};
+
+/**
+ * Append a change-history entry for every setting the patch actually changes.
+ * Returns the patch unchanged when nothing differs.
+ */
+export const withSettingsHistory = (
+  branch: BranchConfig,
+  patch: BranchConfigPatch,
+  changedBy: string,
+  changedAt: number,
+): BranchConfigPatch => {
+  const changes: BranchSettingChange[] = (Object.keys(patch) as (keyof BranchConfigPatch)[])
+    // Pauses keep their own log
+    .filter(field => field !== 'settingsHistory' && field !== 'pauseHistory')
+    .map(field => ({ field, from: historyValue(branch[field]), to: historyValue(patch[field]), changedAt, changedBy }))
+    .filter(change => change.from !== change.to);
+  if (changes.length === 0) return patch;
+  return { ...patch, settingsHistory: [...(branch.settingsHistory ?? []), ...changes].slice(-SETTINGS_HISTORY_LIMIT) };
+};
+
+export type BranchRow = Record<string, unknown>;
+
+// One column per BranchConfig field, typed so a new field cannot be forgotten
+const BRANCH_COLUMNS: { [K in keyof Required<BranchConfig>]: string } = {
+  id: 'id',
+  name: 'name',
+  address: 'address',
+  phone: 'phone',
+  service: 'service',
+  avgTransactionTime: 'avg_transaction_time',
+  gracePeriodMinutes: 'grace_period_minutes',
+  isActive: 'is_active',
+  isPaused: 'is_paused',
+  maxInBuilding: 'max_in_building',
+  excludeInServiceFromCapacity: 'exclude_in_service_from_capacity',
+  pathways: 'pathways',
+  preferenceHoldMinutes: 'preference_hold_minutes',
+  openingHours: 'opening_hours',
+  holidays: 'holidays',
+  settingsHistory: 'settings_history',
+  priorityPolicy: 'priority_policy',
+  gracePolicy: 'grace_policy',
+  pauseHistory: 'pause_history',
+  version: 'version',
+};
+
+const BRANCH_FIELDS = Object.keys(BRANCH_COLUMNS) as (keyof BranchConfig)[];
+
+/** Map a branch or a partial patch to a database row. The version is the database's to bump. */
+export const branchToRow = (branch: Partial<BranchConfig>): BranchRow => {
+  const row: BranchRow = {};
+  for (const field of BRANCH_FIELDS) {
+    if (field in branch && field !== 'version') row[BRANCH_COLUMNS[field]] = branch[field] ?? null;
+  }
+  return row;
+};
+
+/** Map a database row back to a branch. NULL columns become absent fields. */
+export const branchFromRow = (row: BranchRow): BranchConfig => {
+  const branch: Record<string, unknown> = {};
+  for (const field of BRANCH_FIELDS) {
+    const value = row[BRANCH_COLUMNS[field]];
+    if (value !== null && value !== undefined) branch[field] = value;
+  }
+  return branch as unknown as BranchConfig;
+};
+
+// Local stand-in for the database's version trigger and update precondition
+const patchBranch = (branches: BranchConfig[], id: string, patch: BranchConfigPatch, expectedVersion?: number): BranchConfig[] => {
+  validateBranchPatch(id, patch);
+  return branches.map(b => {
+    if (b.id !== id) return b;
+    if (expectedVersion !== undefined && (b.version ?? 1) !== expectedVersion) {
+      throw new StaleBranchError(id, expectedVersion);
+    }
+    return { ...b, ...patch, version: (b.version ?? 1) + 1 };
+  });
+};
+
+const MAX_STALE_RETRIES = 3;
+
+/**
+ * Apply an edit computed from the branch as stored. The patch is built from
+ * `branch` and written conditionally; if another screen saved first, the
+ * branch is re-read and the patch rebuilt, so appends to the settings and
+ * pause logs are never lost. Returns the saved branch and the patch written.
+ */
+export const updateBranchWithRetry = async (
+  repository: BranchRepository,
+  branch: BranchConfig,
+  edit: (current: BranchConfig) => BranchConfigPatch,
+): Promise<{ branch: BranchConfig | null; patch: BranchConfigPatch }> => {
+  let current = branch;
+  for (let attempt = 0; ; attempt++) {
+    const patch = edit(current);
+    try {
+      return { branch: await repository.update(current.id, patch, current.version ?? 1), patch };
+    } catch (error) {
+      if (!(error instanceof StaleBranchError) || attempt >= MAX_STALE_RETRIES) throw error;
+      const latest = (await repository.list()).find(b => b.id === current.id);
+      if (!latest) return { branch: null, patch };
+      current = latest;
+    }
+  }
+};
+
+/**
+ * In-memory backend — for tests and demos.
+ */
+export const createInMemoryBranchRepository = (seed: BranchConfig[] = DEFAULT_BRANCHES): BranchRepository => {
+  let branches = [...seed];
+  const listeners = new Set<(event: BranchChangeEvent) => void>();
+
+  return {
+    async list() {
+      return [...branches];
+    },
+    async update(id, patch, expectedVersion) {
+      branches = patchBranch(branches, id, patch, expectedVersion);
+      const updated = branches.find(b => b.id === id) || null;
+      if (updated) listeners.forEach(listener => listener({ type: 'upsert', branch: updated }));
+      return updated;
+    },
+    subscribe(onEvent, onStatus) {
+      onStatus?.('local');
+      listeners.add(onEvent);
+      return () => { listeners.delete(onEvent); };
+    },
+  };
+};
+
+export const LOCAL_BRANCHES_KEY = 'doqline_branches';
+
+/**
+ * Browser localStorage backend — seeded with DEFAULT_BRANCHES on first use.
+ */
+export const createLocalStorageBranchRepository = (
+  storage: Storage = localStorage,
+  key: string = LOCAL_BRANCHES_KEY,
+): BranchRepository => {
+  const read = (): BranchConfig[] => {
+    const stored = storage.getItem(key);
+    return stored ? JSON.parse(stored) : DEFAULT_BRANCHES;
+  };
+  const write = (branches: BranchConfig[]) => storage.setItem(key, JSON.stringify(branches));
+
+  return {
+    async list() {
+      return read();
+    },
+    async update(id, patch, expectedVersion) {
+      const updated = patchBranch(read(), id, patch, expectedVersion);
+      write(updated);
+      return updated.find(b => b.id === id) || null;
+    },
+    subscribe(onEvent, onStatus) {
+      onStatus?.('local');
+      // Other tabs on this device write to the same key
+      const handleStorage = (event: StorageEvent) => {
+        if (event.key === key) onEvent({ type: 'resync', branches: read() });
+      };
+      window.addEventListener('storage', handleStorage);
+      return () => window.removeEventListener('storage', handleStorage);
+    },
+  };
+};
+
+/** Fold a change event into a branch list (pure). */
+export const applyBranchChange = (branches: BranchConfig[], event: BranchChangeEvent): BranchConfig[] => {
+  if (event.type === 'resync') return event.branches;
+  return branches.some(b => b.id === event.branch.id)
+    ? branches.map(b => (b.id === event.branch.id ? event.branch : b))
+    : [...branches, event.branch];
+};
@@ -0,0 +1,9 @@
+/**
+ * The current time. The queue engine and the outbox take it as a dependency
+ * so tests and simulations can run on a fixed or stepped clock.
+ */
+export interface Clock {
+  now(): number;
+}
+
+export const systemClock: Clock = { now: () => Date.now() };
@@ -0,0 +1,93 @@
+import { BranchConfig, PriorityPolicy, StaffMember, Ticket, TicketStatus } from '../types';
+import { headcount } from './party';
+import { priorityPolicyFor } from './priorityFlags';
+import { cliniciansOnDuty } from './staffRepository';
+import { isStatus } from './ticketStateMachine';
+import { priorityOrder } from './triage';
+
+/**
+ * Queue length and wait estimates, shared by the join screen, the patient's
+ * status page and the staff views so they all quote the same numbers.
+ * Estimates count people, so a family ahead adds a consultation per member.
+ */
+
+/**
+ * A branch's patients still waiting to be seen, in the order they will be
+ * (see `priorityOrder`). Pass the branch's priority policy for the order
+ * flagged patients get; without it only triage counts.
+ */
+export const waitingTickets = (tickets: Ticket[], branchId: string, policy?: PriorityPolicy): Ticket[] =>
+  priorityOrder(
+    tickets.filter(t =>
+      t.branchId === branchId &&
+      isStatus(t.status, TicketStatus.REMOTE_WAITING, TicketStatus.ELIGIBLE_FOR_ENTRY, TicketStatus.IN_BUILDING),
+    ),
+    policy,
+  );
+
+/**
+ * Clinicians seeing patients right now: those on the roster and not on a
+ * break, or — when nobody is rostered — those with a patient in service.
+ * At least one, so estimates never divide by zero.
+ */
+export const activeClinicians = (
+  tickets: Ticket[],
+  branchId: string,
+  staff: StaffMember[] = [],
+  now: number = Date.now(),
+): number => {
+  const onDuty = cliniciansOnDuty(staff, branchId, now).length;
+  if (onDuty > 0) return onDuty;
+  const busy = new Set(
+    tickets
+      .filter(t => t.branchId === branchId && isStatus(t.status, TicketStatus.IN_SERVICE))
+      .map(t => t.tellerId ?? t.id),
+  );
+  return Math.max(1, busy.size);
+};
+
+/** Minutes until a patient with `patientsAhead` people (not tickets) in front of them is seen. */
+export const estimateWaitMinutes = (
+  tickets: Ticket[],
+  branch: BranchConfig,
+  patientsAhead: number,
+  staff: StaffMember[] = [],
+  now: number = Date.now(),
+): number =>
+  Math.ceil((patientsAhead + 1) / activeClinicians(tickets, branch.id, staff, now)) * branch.avgTransactionTime;
+
+/**
+ * Minutes until a patient held for one clinician is seen, counted against
+ * that clinician's own queue: everyone ahead held for them, plus their share
+ * of the patients ahead who will see whoever is free.
+ */
+export const estimateWaitForClinician = (
+  tickets: Ticket[],
+  branch: BranchConfig,
+  ticket: Ticket,
+  clinicianId: string,
+  staff: StaffMember[] = [],
+  now: number = Date.now(),
+): number => {
+  const queue = waitingTickets(tickets, branch.id, priorityPolicyFor(branch));
+  const ahead = queue.slice(0, Math.max(0, queue.findIndex(t => t.id === ticket.id)));
+  const own = headcount(ahead.filter(t => t.preferredClinicianId === clinicianId));
+  const shared = headcount(ahead.filter(t => !t.preferredClinicianId));
+  return Math.ceil(own + 1 + shared / activeClinicians(tickets, branch.id, staff, now)) * branch.avgTransactionTime;
+};
+
+export interface BranchQueueSummary {
+  waiting: number;
+  /** Estimated wait for someone joining now. */
+  estimatedWaitMinutes: number;
+}
+
+export const summarizeBranchQueue = (
+  tickets: Ticket[],
+  branch: BranchConfig,
+  staff: StaffMember[] = [],
+  now: number = Date.now(),
+): BranchQueueSummary => {
+  const queue = waitingTickets(tickets, branch.id);
+  return { waiting: queue.length, estimatedWaitMinutes: estimateWaitMinutes(tickets, branch, headcount(queue), staff, now) };
+};
@@ -0,0 +1,53 @@
+import { BranchConfig, GraceOutcome, GracePolicy, Ticket } from '../types';
+
+/**
+ * Grace-period expiry policy.
+ *
+ * A patient called in from outside has the branch's grace period to check in
+ * at reception. Each branch decides what missing it costs: being moved back a
+ * few places or to the end of the queue, and after enough misses being marked
+ * NOT_HERE so the same patient is not bumped around all day. The engine can
+ * text a warning shortly before the window closes, and every decision is
+ * written to the ticket's history with its outcome for the manager's report.
+ */
+
+export const DEFAULT_GRACE_POLICY: GracePolicy = {
+  action: 'bump',
+  bumpPlaces: 4,
+  notHereAfterMisses: 3,
+  warnMinutesBefore: 2,
+};
+
+export const gracePolicyFor = (branch: Pick<BranchConfig, 'gracePolicy'>): GracePolicy =>
+  branch.gracePolicy ?? DEFAULT_GRACE_POLICY;
+
+export const GRACE_OUTCOME_LABELS: Record<GraceOutcome, string> = {
+  'warned':       'Warned before expiry',
+  'bumped':       'Moved back',
+  'moved-to-end': 'Moved to end of queue',
+  'not-here':     'Marked not here',
+};
+
+/**
+ * What happens to a ticket whose window just closed. A bump with nobody far
+ * enough behind to swap with becomes a move to the end.
+ */
+export const decideGraceExpiry = (
+  ticket: Pick<Ticket, 'graceMisses'>,
+  policy: GracePolicy,
+): Exclude<GraceOutcome, 'warned'> => {
+  const misses = (ticket.graceMisses ?? 0) + 1;
+  if (policy.notHereAfterMisses > 0 && misses >= policy.notHereAfterMisses) return 'not-here';
+  return policy.action === 'bump' ? 'bumped' : 'moved-to-end';
+};
+
+/** How often each outcome was recorded across the tickets' histories. */
+export const graceOutcomeCounts = (tickets: Ticket[]): Record<GraceOutcome, number> => {
+  const counts: Record<GraceOutcome, number> = { 'warned': 0, 'bumped': 0, 'moved-to-end': 0, 'not-here': 0 };
+  for (const ticket of tickets) {
+    for (const entry of ticket.statusHistory ?? []) {
+      if (entry.graceOutcome) counts[entry.graceOutcome]++;
+    }
+  }
+  return counts;
+};
@@ -0,0 +1,51 @@
+/**
+ * Identifiers.
+ *
+ * Ticket ids are UUIDv7: globally unique without coordination, and they sort
+ * by creation time. Check-in codes are short and human — something a patient
+ * can read out at reception ("K7Q-42") — and only need to be unique among a
+ * branch's open tickets.
+ */
+
+const hex = (bytes: Uint8Array) => [...bytes].map(b => b.toString(16).padStart(2, '0')).join('');
+
+/** RFC 9562 UUID version 7: 48-bit millisecond timestamp followed by random bits. */
+export const createTicketId = (now: number = Date.now()): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  let timestamp = now;
+  for (let i = 5; i >= 0; i--) {
+    bytes[i] = timestamp % 256;
+    timestamp = Math.floor(timestamp / 256);
+  }
+  bytes[6] = (bytes[6] & 0x0f) | 0x70; // version 7
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // RFC 4122 variant
+  const id = hex(bytes);
+  return `${id.slice(0, 8)}-${id.slice(8, 12)}-${id.slice(12, 16)}-${id.slice(16, 20)}-${id.slice(20)}`;
+};
+
+// No 0/O, 1/I/L or 5/S lookalikes in the letter block
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRTUVWXYZ234679';
+
+const randomIndex = (size: number) => crypto.getRandomValues(new Uint32Array(1))[0] % size;
+
+/**
+ * A short check-in code such as "K7Q-42". Pass the codes already in use to
+ * avoid handing out a duplicate.
+ */
+export const createCheckInCode = (inUse: Iterable<string> = []): string => {
+  const taken = new Set(inUse);
+  for (;;) {
+    const letters = Array.from({ length: 3 }, () => CODE_ALPHABET[randomIndex(CODE_ALPHABET.length)]).join('');
+    const code = `${letters}-${String(randomIndex(100)).padStart(2, '0')}`;
+    if (!taken.has(code)) return code;
+  }
+};
+
+/**
+ * Canonical form of a typed or spoken code: "k7q 42", "K7Q42" and "k7q-42"
+ * all become "K7Q-42". Returns the input uppercased if it isn't code-shaped.
+ */
+export const normalizeCheckInCode = (input: string): string => {
+  const compact = input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return /^[A-Z0-9]{3}\d{2}$/.test(compact) ? `${compact.slice(0, 3)}-${compact.slice(3)}` : input.trim().toUpperCase();
+};
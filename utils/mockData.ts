@@ -1,4 +1,5 @@
 import { Ticket, TicketStatus, CommsChannel, ServiceCategory } from '../types';
+import { createTicketId } from './ids';
 
 /**
  * Generate mock patient visit tickets for analytics testing.
@@ -81,7 +82,7 @@ export const generateMockTickets = (branchId: string, count: number = 500): Tick
     const isNoShow = Math.random() < 0.05;
 
     const ticket: Ticket = {
-      id: `mock-${i}-${Date.now()}`,
+      id: createTicketId(joinedAt),
       queueNumber: queueNumber++,
       name,
       phone,
@@ -0,0 +1,48 @@
+import { Ticket } from '../types';
+
+/**
+ * Outbound patient messaging. The queue engine only depends on this
+ * interface so it can run with Twilio in the browser, a no-op in tests,
+ * or a server-side sender in a scheduled job.
+ */
+export interface Notifier {
+  send(ticket: Ticket, message: string): Promise<void>;
+}
+
+/**
+ * Send notifications via the Twilio serverless function (WhatsApp / SMS).
+ * Delivery failures are logged, never thrown — a failed message must not
+ * block a queue operation.
+ */
+export const createTwilioNotifier = (functionUrl: string): Notifier => ({
+  async send(ticket, message) {
+    console.log(`📱 Notification → ${ticket.name} (${ticket.phone}) via ${ticket.channel}: ${message}`);
+
+    if (!ticket.phone) return;
+
+    try {
+      const res = await fetch(functionUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          to:      ticket.phone,
+          message,
+          channel: ticket.channel, // 'SMS' or 'WHATSAPP'
+        }),
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        console.error('📱 Notification failed:', err);
+      } else {
+        console.log('📱 Notification sent ✓');
+      }
+    } catch (err) {
+      console.error('📱 Notification error:', err);
+    }
+  },
+});
+
+/** Notifier that drops every message — for tests and offline demos. */
+export const silentNotifier: Notifier = {
+  async send() {},
+};
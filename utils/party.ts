@@ -0,0 +1,34 @@
+import { ServiceCategory, Ticket } from '../types';
+
+/**
+ * Family and group tickets.
+ *
+ * A ticket may bring dependents — a parent with their children, say — who
+ * are seen in the same visit, each with their own visit reason. Every person
+ * takes a waiting-room seat and a consultation, so capacity and wait
+ * estimates count people, not tickets.
+ */
+
+/** Most dependents one ticket can bring. */
+export const MAX_DEPENDENTS = 6;
+
+/** People on a ticket: the patient who joined plus their dependents. */
+export const partySize = (ticket: Pick<Ticket, 'dependents'>): number =>
+  1 + (ticket.dependents?.length ?? 0);
+
+/** People across a set of tickets. */
+export const headcount = (tickets: Pick<Ticket, 'dependents'>[]): number =>
+  tickets.reduce((sum, ticket) => sum + partySize(ticket), 0);
+
+/** Every visit reason on a ticket, the patient's own first. Unspecified reasons are left out. */
+export const partyCategories = (ticket: Pick<Ticket, 'serviceCategory' | 'dependents'>): ServiceCategory[] =>
+  [ticket.serviceCategory, ...(ticket.dependents ?? []).map(d => d.serviceCategory)]
+    .filter((category): category is ServiceCategory => !!category);
+
+/**
+ * Whether a party fits in the waiting room with `occupied` of `capacity`
+ * seats taken. A party bigger than the whole room still gets in once the
+ * room is empty, so it can never be stuck at the front of the queue.
+ */
+export const hasRoomFor = (occupied: number, size: number, capacity: number): boolean =>
+  occupied + size <= capacity || occupied === 0;
@@ -0,0 +1,97 @@
+import { BranchConfig, ServiceCategory, StaffMember, Ticket, TicketStatus, UserRole, VisitStage } from '../types';
+import { normalizeStatus } from './ticketStateMachine';
+
+/**
+ * Multi-stage visit pathways.
+ *
+ * A pathway is the list of stations a visit passes through, chosen by visit
+ * reason when the patient joins (a branch may override the defaults). The
+ * ticket carries its pathway and the index of its current station; finishing
+ * a station that isn't the last puts the patient back in the waiting room,
+ * queued for the next one. Every move is recorded in `statusHistory` with the
+ * station it happened at, so the whole path can be read back from there.
+ */
+
+export const STAGE_LABELS: Record<VisitStage, string> = {
+  [VisitStage.TRIAGE]:   'Triage',
+  [VisitStage.NURSE]:    'Nurse',
+  [VisitStage.DOCTOR]:   'Doctor',
+  [VisitStage.LAB]:      'Lab',
+  [VisitStage.PHARMACY]: 'Pharmacy',
+};
+
+// How patients are addressed about a station: "the nurse is ready for you"
+export const STAGE_PATIENT_LABELS: Record<VisitStage, string> = {
+  [VisitStage.TRIAGE]:   'the triage nurse',
+  [VisitStage.NURSE]:    'the nurse',
+  [VisitStage.DOCTOR]:   'the doctor',
+  [VisitStage.LAB]:      'the lab',
+  [VisitStage.PHARMACY]: 'the pharmacy',
+};
+
+export const DEFAULT_PATHWAYS: Record<ServiceCategory, VisitStage[]> = {
+  [ServiceCategory.GENERAL_CHECKUP]: [VisitStage.NURSE, VisitStage.DOCTOR],
+  [ServiceCategory.FOLLOW_UP]:       [VisitStage.DOCTOR],
+  [ServiceCategory.CONSULTATION]:    [VisitStage.NURSE, VisitStage.DOCTOR],
+  [ServiceCategory.VACCINATION]:     [VisitStage.NURSE],
+  [ServiceCategory.EMERGENCY]:       [VisitStage.TRIAGE, VisitStage.DOCTOR],
+  [ServiceCategory.LAB_RESULTS]:     [VisitStage.DOCTOR],
+  [ServiceCategory.OTHER]:           [VisitStage.DOCTOR],
+};
+
+// Visits without a reason just see a doctor
+const UNSPECIFIED_PATHWAY = [VisitStage.DOCTOR];
+
+/** The stations a new visit at this branch will pass through. */
+export const pathwayFor = (branch: BranchConfig, category?: ServiceCategory): VisitStage[] => {
+  if (!category) return [...UNSPECIFIED_PATHWAY];
+  return [...(branch.pathways?.[category] ?? DEFAULT_PATHWAYS[category])];
+};
+
+/** The station a ticket is at (or queued for). Undefined for tickets from before pathways. */
+export const currentStage = (ticket: Ticket): VisitStage | undefined =>
+  ticket.pathway?.[ticket.stageIndex ?? 0];
+
+/** The station after the current one, if the visit isn't on its last. */
+export const nextStage = (ticket: Ticket): VisitStage | undefined =>
+  ticket.pathway?.[(ticket.stageIndex ?? 0) + 1];
+
+const ROLE_STAGES: Partial<Record<UserRole, VisitStage[]>> = {
+  [UserRole.DOCTOR]: [VisitStage.DOCTOR],
+  [UserRole.NURSE]:  [VisitStage.TRIAGE, VisitStage.NURSE, VisitStage.LAB],
+};
+
+/** Stations a staff member works: their own list, or their role's default. */
+export const stagesFor = (member: Pick<StaffMember, 'role' | 'stages'>): VisitStage[] =>
+  member.stages ?? ROLE_STAGES[member.role] ?? [];
+
+export interface StageVisit {
+  stage: VisitStage;
+  queuedAt: number;
+  startedAt?: number;
+  endedAt?: number;
+}
+
+/**
+ * Per-station timestamps, read back from `statusHistory`: when the patient
+ * was queued for each station, called in, and finished.
+ */
+export const stageTimeline = (ticket: Ticket): StageVisit[] => {
+  const visits: StageVisit[] = [];
+  for (const entry of ticket.statusHistory ?? []) {
+    if (!entry.stage) continue;
+    let visit = visits[visits.length - 1];
+    if (!visit || visit.stage !== entry.stage || visit.endedAt !== undefined) {
+      // Queued for a later station the moment the previous one finished
+      visit = { stage: entry.stage, queuedAt: visit?.endedAt ?? entry.timestamp };
+      visits.push(visit);
+    }
+    const from = normalizeStatus(entry.fromStatus);
+    const to = normalizeStatus(entry.toStatus);
+    if (to === TicketStatus.IN_SERVICE) visit.startedAt = entry.timestamp;
+    if (from === TicketStatus.IN_SERVICE && (to === TicketStatus.SERVED || to === TicketStatus.IN_BUILDING)) {
+      visit.endedAt = entry.timestamp;
+    }
+  }
+  return visits;
+};
@@ -0,0 +1,47 @@
+import { BranchConfig, PriorityFlag, PriorityPolicy, Ticket } from '../types';
+
+/**
+ * Priority access for vulnerable patients.
+ *
+ * Reception flags a ticket (elderly, pregnant, disabled, with an infant);
+ * the branch's policy decides what a flag does: move the patient a few
+ * places up the queue, call them in from outside before others, and/or let
+ * them off the grace-period bump. The flags are the same everywhere, so a
+ * branch changes what they mean without anyone re-flagging patients.
+ */
+
+export const PRIORITY_FLAG_LABELS: Record<PriorityFlag, string> = {
+  [PriorityFlag.ELDERLY]:     'Elderly',
+  [PriorityFlag.PREGNANT]:    'Pregnant',
+  [PriorityFlag.DISABLED]:    'Disability',
+  [PriorityFlag.WITH_INFANT]: 'With an infant',
+};
+
+export const DEFAULT_PRIORITY_POLICY: PriorityPolicy = {
+  skipPlaces: 2,
+  earlyEntry: true,
+  graceExempt: true,
+};
+
+export const priorityPolicyFor = (branch: Pick<BranchConfig, 'priorityPolicy'>): PriorityPolicy =>
+  branch.priorityPolicy ?? DEFAULT_PRIORITY_POLICY;
+
+export const isFlagged = (ticket: Pick<Ticket, 'priorityFlags'>): boolean =>
+  (ticket.priorityFlags?.length ?? 0) > 0;
+
+/**
+ * What the policy does for a ticket, in words staff and the patient both
+ * see, e.g. "Elderly: moved up 2 places, called in early". Undefined for
+ * tickets without flags or when the policy does nothing.
+ */
+export const describePriority = (ticket: Pick<Ticket, 'priorityFlags'>, policy: PriorityPolicy): string | undefined => {
+  if (!isFlagged(ticket)) return undefined;
+  const effects = [
+    policy.skipPlaces > 0 && `moved up ${policy.skipPlaces} ${policy.skipPlaces === 1 ? 'place' : 'places'}`,
+    policy.earlyEntry && 'called in early',
+    policy.graceExempt && 'no penalty for arriving late',
+  ].filter((effect): effect is string => !!effect);
+  if (effects.length === 0) return undefined;
+  const flags = ticket.priorityFlags!.map(flag => PRIORITY_FLAG_LABELS[flag]).join(', ');
+  return `${flags}: ${effects.join(', ')}`;
+};
@@ -0,0 +1,830 @@
+import { BranchConfig, CommsChannel, Dependent, Room, ServiceCategory, StaffMember, StatusTransition, Ticket, TicketStatus } from '../types';
+import { BranchClosedError, joinAvailability } from './branchHours';
+import { Clock } from './clock';
+import { decideGraceExpiry, gracePolicyFor } from './gracePolicy';
+import { createCheckInCode, createTicketId } from './ids';
+import { Notifier } from './notifier';
+import { hasRoomFor, headcount, partySize } from './party';
+import { STAGE_LABELS, STAGE_PATIENT_LABELS, currentStage, nextStage, pathwayFor } from './pathways';
+import { PRIORITY_FLAG_LABELS, isFlagged, priorityPolicyFor } from './priorityFlags';
+import { currentPause, describePause } from './queuePause';
+import { StaleTicketError, TicketRepository, serviceDay } from './ticketRepository';
+import { IllegalTransitionError, TransitionTrigger, isStatus, normalizeStatus, transitionTicket } from './ticketStateMachine';
+import { ACUITY_LABELS, acuityOf, priorityOrder } from './triage';
+
+/**
+ * Headless queue engine.
+ *
+ * Every queue rule (joining, the capacity gate, promotion, grace-period
+ * expiry, transfers) lives here with no React or browser dependency.
+ * Each operation takes a snapshot of the current tickets, persists what it
+ * changed through the storage adapter, sends any patient messages through
+ * the notifier, and returns the list of changes so the caller can fold them
+ * into its own state with `applyQueueChanges`.
+ */
+
+/** The slice of a TicketRepository the engine writes through. */
+export type QueueStorage = Pick<TicketRepository, 'insert' | 'update' | 'allocateQueueNumber'>;
+
+export interface QueueEngineDeps {
+  clock: Clock;
+  storage: QueueStorage;
+  notifier: Notifier;
+}
+
+export type QueueChange =
+  | { type: 'created'; ticket: Ticket }
+  | { type: 'updated'; id: string; patch: Partial<Ticket> };
+
+export interface JoinRequest {
+  name: string;
+  phone: string;
+  channel: CommsChannel;
+  memberId?: string;
+  serviceCategory?: ServiceCategory;
+  preferredClinicianId?: string;
+  /** Family members seen on the same ticket. */
+  dependents?: Dependent[];
+}
+
+/**
+ * Where a transferred patient lands in the other branch's queue:
+ * 'keep-join-time' slots them in by when they originally joined,
+ * 'end-of-queue' puts them behind everyone already waiting there.
+ */
+export type TransferPolicy = 'keep-join-time' | 'end-of-queue';
+
+export interface TransferOptions {
+  policy: TransferPolicy;
+  reason?: string;
+  triggeredBy?: TransitionTrigger;
+  /** The roster, for the destination's last-join cutoff. */
+  staff?: StaffMember[];
+}
+
+/**
+ * Where a NOT_HERE patient who turns up after all goes back in:
+ * 'original-position' keeps their number and place, 'next-available' keeps
+ * their number but places them ahead of everyone waiting outside, and
+ * 'end-of-queue' gives them a fresh number behind everyone waiting.
+ */
+export type ReinstatePlacement = 'original-position' | 'next-available' | 'end-of-queue';
+
+export interface ReinstateOptions {
+  placement: ReinstatePlacement;
+  triggeredBy?: TransitionTrigger;
+}
+
+export interface StatusUpdateOptions {
+  triggeredBy?: TransitionTrigger;
+  reason?: string;
+  tellerId?: string;
+  /** The room the patient is called to; stamped on the ticket as `counterId`. */
+  room?: Pick<Room, 'id' | 'name'>;
+}
+
+/** Thrown when a patient would be checked into a full waiting room. */
+export class QueueCapacityError extends Error {
+  readonly branchId: string;
+  readonly inBuilding: number;
+  readonly maxInBuilding: number;
+
+  constructor(branchId: string, inBuilding: number, maxInBuilding: number) {
+    super(`Capacity limit reached (${inBuilding}/${maxInBuilding}) at ${branchId}`);
+    this.name = 'QueueCapacityError';
+    this.branchId = branchId;
+    this.inBuilding = inBuilding;
+    this.maxInBuilding = maxInBuilding;
+  }
+}
+
+export interface QueueEngine {
+  getInBuildingCount(tickets: Ticket[], branch: BranchConfig): number;
+  /** `staff` is the roster, used to predict the backlog for the last-join cutoff. */
+  addTicket(tickets: Ticket[], branch: BranchConfig, request: JoinRequest, staff?: StaffMember[]): Promise<QueueChange[]>;
+  updateStatus(
+    tickets: Ticket[],
+    branch: BranchConfig,
+    id: string,
+    status: TicketStatus,
+    options?: StatusUpdateOptions,
+  ): Promise<QueueChange[]>;
+  updateTicket(
+    tickets: Ticket[],
+    branch: BranchConfig,
+    id: string,
+    updates: Partial<Ticket>,
+  ): Promise<QueueChange[]>;
+  promoteNextRemote(tickets: Ticket[], branch: BranchConfig): Promise<QueueChange[]>;
+  fillFreeSeats(tickets: Ticket[], branch: BranchConfig): Promise<QueueChange[]>;
+  checkGracePeriodExpiry(tickets: Ticket[], branch: BranchConfig): Promise<QueueChange[]>;
+  transferTicket(
+    tickets: Ticket[],
+    from: BranchConfig,
+    to: BranchConfig,
+    id: string,
+    options: TransferOptions,
+  ): Promise<QueueChange[]>;
+  completeStage(
+    tickets: Ticket[],
+    branch: BranchConfig,
+    id: string,
+    options?: StatusUpdateOptions,
+  ): Promise<QueueChange[]>;
+  reinstateTicket(
+    tickets: Ticket[],
+    branch: BranchConfig,
+    id: string,
+    options: ReinstateOptions,
+  ): Promise<QueueChange[]>;
+  /** Tell patients waiting outside that `branch` (already paused) has stopped calling people in. */
+  announcePause(tickets: Ticket[], branch: BranchConfig): Promise<QueueChange[]>;
+  /** Tell them it has resumed, and call people in to any seats that freed up meanwhile. */
+  announceResume(tickets: Ticket[], branch: BranchConfig): Promise<QueueChange[]>;
+}
+
+/** Fold engine changes into a ticket list (pure). */
+export const applyQueueChanges = (tickets: Ticket[], changes: QueueChange[]): Ticket[] =>
+  changes.reduce<Ticket[]>((acc, change) => {
+    if (change.type === 'created') {
+      return [...acc.filter(t => t.id !== change.ticket.id), change.ticket];
+    }
+    return acc.map(t => (t.id === change.id ? { ...t, ...change.patch } : t));
+  }, tickets);
+
+// Statuses that free a waiting-room seat when a patient moves into them.
+const LEAVES_BUILDING = [
+  TicketStatus.REMOTE_WAITING,
+  TicketStatus.IN_SERVICE,
+  TicketStatus.NOT_HERE,
+  TicketStatus.SERVED,
+  TicketStatus.REMOVED,
+] as const;
+
+// An audit entry that leaves the status as it is, for moves the lifecycle
+// has no transition for (transfers of remote patients, triage changes)
+const noteInHistory = (
+  ticket: Ticket,
+  reason: string,
+  triggeredBy: TransitionTrigger,
+  now: number,
+  extra: Partial<StatusTransition> = {},
+): StatusTransition[] => {
+  const status = normalizeStatus(ticket.status);
+  const stage = currentStage(ticket);
+  return [
+    ...(ticket.statusHistory ?? []),
+    { ticketId: ticket.id, fromStatus: status, toStatus: status, timestamp: now, triggeredBy, reason, ...(stage ? { stage } : {}), ...extra },
+  ];
+};
+
+// How each reinstatement placement reads in the ticket's history
+const REINSTATE_NOTES: Record<ReinstatePlacement, string> = {
+  'original-position': 'at their original position',
+  'next-available':    'as next to be called',
+  'end-of-queue':      'at the end of the queue',
+};
+
+export const createQueueEngine = ({ clock, storage, notifier }: QueueEngineDeps): QueueEngine => {
+  // People, not tickets: a family of four takes four seats
+  const getInBuildingCount = (tickets: Ticket[], branch: BranchConfig): number => {
+    const branchTickets = tickets.filter(t => t.branchId === branch.id);
+    const inBuilding = branchTickets.filter(t => isStatus(t.status, TicketStatus.IN_BUILDING));
+    const inService = branch.excludeInServiceFromCapacity
+      ? []
+      : branchTickets.filter(t => isStatus(t.status, TicketStatus.IN_SERVICE));
+    return headcount(inBuilding) + headcount(inService);
+  };
+
+  // Updates come back with the stored version, so later conditional writes are made against it
+  const persist = async (changes: QueueChange[]): Promise<QueueChange[]> => {
+    const persisted: QueueChange[] = [];
+    for (const change of changes) {
+      if (change.type === 'created') {
+        await storage.insert(change.ticket);
+        persisted.push(change);
+      } else {
+        const saved = await storage.update(change.id, change.patch);
+        persisted.push(saved?.version === undefined ? change : { ...change, patch: { ...change.patch, version: saved.version } });
+      }
+    }
+    return persisted;
+  };
+
+  // Write the patch only if the ticket is still the version this snapshot
+  // holds. If another screen got there first nothing is written and null is
+  // returned, so a second run over the same snapshot has no further effect.
+  const persistIfUnchanged = async (ticket: Ticket, patch: Partial<Ticket>): Promise<QueueChange | null> => {
+    const expectedVersion = ticket.version ?? 1;
+    try {
+      const saved = await storage.update(ticket.id, patch, expectedVersion);
+      return { type: 'updated', id: ticket.id, patch: { ...patch, version: saved?.version ?? expectedVersion + 1 } };
+    } catch (error) {
+      if (error instanceof StaleTicketError) return null;
+      throw error;
+    }
+  };
+
+  const promoteNextRemote = async (
+    tickets: Ticket[],
+    branch: BranchConfig,
+    occupied: number = getInBuildingCount(tickets, branch),
+  ): Promise<QueueChange[]> => {
+    // Nobody is called in while the queue is paused
+    if (branch.isPaused) return [];
+    const policy = priorityPolicyFor(branch);
+    const remoteWaiting = priorityOrder(
+      tickets.filter(t => t.branchId === branch.id && isStatus(t.status, TicketStatus.REMOTE_WAITING)),
+      policy,
+    );
+    if (remoteWaiting.length === 0) return [];
+
+    // Only promote if there's space (when someone moves from position #10 to #9, or leaves)
+    // The customer being promoted will become position #10 in the building.
+    // A family too big for the free seats waits for more rather than being skipped.
+    // Under an early-entry policy, flagged patients are called in first.
+    const nextCustomer = (policy.earlyEntry && remoteWaiting.find(isFlagged)) || remoteWaiting[0];
+    if (!hasRoomFor(occupied, partySize(nextCustomer), branch.maxInBuilding)) return [];
+
+    const now = clock.now();
+    const patch: Partial<Ticket> = {
+      ...transitionTicket(
+        nextCustomer,
+        TicketStatus.ELIGIBLE_FOR_ENTRY,
+        'system',
+        nextCustomer === remoteWaiting[0]
+          ? 'Promoted to position #10 - eligible for entry'
+          : 'Called in early under the priority access policy',
+        now,
+      ),
+      eligibleForEntryAt: now,
+    };
+    const changes = await persist([{ type: 'updated', id: nextCustomer.id, patch }]);
+
+    // ── Trigger 2: Patient promoted — please enter the clinic ──
+    await notifier.send(
+      nextCustomer,
+      `🏥 ${nextCustomer.name}, it's almost your turn!\n\nPlease come to DocQline Medical reception to check in. Your number is *#${nextCustomer.queueNumber}*.\n\nYou have *${branch.gracePeriodMinutes} minutes* to arrive or your spot will be given to the next patient.`,
+    );
+    return changes;
+  };
+
+  // Offer every free seat to a remote patient, e.g. after capacity was raised.
+  // Patients already called to check in have a seat kept for them.
+  const fillFreeSeats = async (tickets: Ticket[], branch: BranchConfig): Promise<QueueChange[]> => {
+    const occupied = (current: Ticket[]) =>
+      getInBuildingCount(current, branch) +
+      headcount(current.filter(t => t.branchId === branch.id && isStatus(t.status, TicketStatus.ELIGIBLE_FOR_ENTRY)));
+    let working = tickets;
+    const changes: QueueChange[] = [];
+    while (occupied(working) < branch.maxInBuilding) {
+      const step = await promoteNextRemote(working, branch, occupied(working));
+      if (step.length === 0) break;
+      changes.push(...step);
+      working = applyQueueChanges(working, step);
+    }
+    return changes;
+  };
+
+  // If a change moved a patient out of the waiting room, offer the seat to
+  // the next remote patient.
+  const promoteIfSeatFreed = async (
+    tickets: Ticket[],
+    branch: BranchConfig,
+    before: Ticket,
+    changes: QueueChange[],
+  ): Promise<QueueChange[]> => {
+    const after = applyQueueChanges(tickets, changes);
+    const updated = after.find(t => t.id === before.id);
+    const leftBuilding =
+      isStatus(before.status, TicketStatus.IN_BUILDING) &&
+      !!updated &&
+      isStatus(updated.status, ...LEAVES_BUILDING);
+    if (!leftBuilding) return changes;
+    return [...changes, ...(await promoteNextRemote(after, branch))];
+  };
+
+  const addTicket = async (
+    tickets: Ticket[],
+    branch: BranchConfig,
+    request: JoinRequest,
+    staff: StaffMember[] = [],
+  ): Promise<QueueChange[]> => {
+    const now = clock.now();
+
+    // Out-of-hours joins are refused here, not just hidden by the join screen
+    const availability = joinAvailability(tickets, branch, staff, now);
+    if (availability.open === false) throw new BranchClosedError(branch.id, availability.reason, availability.opensAt);
+
+    // Issued by the backend's per-branch, per-day counter so two patients
+    // joining at the same moment never share a number
+    const nextNum = await storage.allocateQueueNumber(branch.id, serviceDay(now));
+
+    // If there is room for the whole party right now, they walk straight in —
+    // unless a family is already waiting remotely for enough seats to free up.
+    const dependents = request.dependents?.length ? request.dependents : undefined;
+    const occupied = getInBuildingCount(tickets, branch);
+    const familyWaitingForSeats = tickets.some(t =>
+      t.branchId === branch.id &&
+      isStatus(t.status, TicketStatus.REMOTE_WAITING) &&
+      !hasRoomFor(occupied, partySize(t), branch.maxInBuilding),
+    );
+    const hasCapacity = hasRoomFor(occupied, partySize({ dependents }), branch.maxInBuilding) && !familyWaitingForSeats;
+    const initialStatus = hasCapacity ? TicketStatus.IN_BUILDING : TicketStatus.REMOTE_WAITING;
+
+    const id = createTicketId(now);
+    const pathway = pathwayFor(branch, request.serviceCategory);
+    const codesInUse = tickets
+      .filter(t => t.branchId === branch.id && t.checkInCode && !isStatus(t.status, TicketStatus.SERVED, TicketStatus.REMOVED))
+      .map(t => t.checkInCode!);
+    const ticket: Ticket = {
+      id,
+      queueNumber: nextNum,
+      checkInCode: createCheckInCode(codesInUse),
+      name: request.name,
+      phone: request.phone,
+      memberId: request.memberId,
+      channel: request.channel,
+      status: initialStatus,
+      branchId: branch.id,
+      serviceCategory: request.serviceCategory,
+      preferredClinicianId: request.preferredClinicianId,
+      dependents,
+      pathway,
+      stageIndex: 0,
+      joinedAt: now,
+      enteredBuildingAt: hasCapacity ? now : undefined,
+      statusHistory: [{
+        ticketId: id,
+        fromStatus: initialStatus,
+        toStatus: initialStatus,
+        timestamp: now,
+        triggeredBy: 'customer',
+        reason: hasCapacity ? 'Joined queue — checked into waiting room' : 'Joined queue — pre-arrival',
+        stage: pathway[0],
+      }],
+    };
+    const changes = await persist([{ type: 'created', ticket }]);
+
+    // ── Trigger 1: Notify patient they have joined the queue ──
+    await notifier.send(
+      ticket,
+      `Hi ${ticket.name}! ✅ You've joined the queue at DocQline Medical.\n\nYour number: *#${nextNum}*${dependents ? ` (party of ${partySize(ticket)})` : ''}\nCheck-in code: *${ticket.checkInCode}*\n\nWe'll message you when it's almost your turn. Stay nearby!`,
+    );
+    return changes;
+  };
+
+  const updateStatus = async (
+    tickets: Ticket[],
+    branch: BranchConfig,
+    id: string,
+    requestedStatus: TicketStatus,
+    { triggeredBy = 'reception', reason, tellerId, room }: StatusUpdateOptions = {},
+  ): Promise<QueueChange[]> => {
+    const ticket = tickets.find(t => t.id === id);
+    if (!ticket) return [];
+
+    const now = clock.now();
+    const fromStatus = normalizeStatus(ticket.status);
+    // Throws IllegalTransitionError for moves the lifecycle does not allow
+    const patch: Partial<Ticket> = transitionTicket(ticket, requestedStatus, triggeredBy, reason, now);
+    const status = patch.status!;
+
+    // Capacity Gate Logic: Check if marking as IN_BUILDING
+    if (status === TicketStatus.IN_BUILDING) {
+      const currentCount = getInBuildingCount(tickets, branch);
+      if (!hasRoomFor(currentCount, partySize(ticket), branch.maxInBuilding)) {
+        throw new QueueCapacityError(branch.id, currentCount, branch.maxInBuilding);
+      }
+      patch.enteredBuildingAt = now;
+    }
+
+    // Handle status-specific timestamps
+    if (status === TicketStatus.ELIGIBLE_FOR_ENTRY) {
+      patch.calledAt = now;
+      patch.eligibleForEntryAt = now;
+    }
+    if (status === TicketStatus.REMOTE_WAITING && fromStatus === TicketStatus.IN_BUILDING) {
+      patch.leftBuildingAt = now;
+    }
+    if (status === TicketStatus.IN_SERVICE) {
+      patch.transactionStartedAt = now;
+      patch.tellerId = tellerId;
+      patch.counterId = room?.id;
+    }
+    if (status === TicketStatus.SERVED) {
+      patch.transactionEndedAt = now;
+      // Calculate wait time
+      if (ticket.enteredBuildingAt) {
+        patch.waitTimeMinutes = Math.round((now - ticket.enteredBuildingAt) / 60000);
+      }
+    }
+    if (status === TicketStatus.NOT_HERE) patch.bumpedAt = now;
+
+    const changes = await persist([{ type: 'updated', id, patch }]);
+
+    if (status === TicketStatus.IN_SERVICE) {
+      const stage = currentStage(ticket);
+      // ── Trigger 3: Notify patient the doctor (or this station) is ready for them ──
+      await notifier.send(
+        ticket,
+        `🩺 ${ticket.name}, ${stage ? STAGE_PATIENT_LABELS[stage] : 'the doctor'} is ready for you now!\n\nPlease come through to ${room ? `*${room.name}*` : 'the consultation room'}. Your number is *#${ticket.queueNumber}*.`,
+      );
+    }
+
+    return promoteIfSeatFreed(tickets, branch, ticket, changes);
+  };
+
+  const updateTicket = async (
+    tickets: Ticket[],
+    branch: BranchConfig,
+    id: string,
+    updates: Partial<Ticket>,
+  ): Promise<QueueChange[]> => {
+    const ticket = tickets.find(t => t.id === id);
+    if (!ticket) return [];
+
+    const now = clock.now();
+    let patch = updates;
+    // If status is being updated, validate it and add to audit log
+    if (updates.status) {
+      patch = {
+        ...updates,
+        ...transitionTicket(
+          ticket,
+          updates.status,
+          'reception',
+          updates.auditNotes ? `Manual update: ${updates.auditNotes}` : 'Manual status update',
+          now,
+        ),
+      };
+    }
+    // Triage changes reorder the queue, so they are audited too
+    if ('acuity' in updates && updates.acuity !== ticket.acuity) {
+      const from = ACUITY_LABELS[acuityOf(ticket)];
+      const to = ACUITY_LABELS[acuityOf({ ...ticket, acuity: updates.acuity })];
+      patch = {
+        ...patch,
+        statusHistory: noteInHistory(
+          { ...ticket, ...patch },
+          `Triage: ${from} → ${to}${updates.acuity ? '' : ' (provisional)'}`,
+          'reception',
+          now,
+          updates.acuity ? { acuity: updates.acuity } : {},
+        ),
+      };
+    }
+    if ('priorityFlags' in updates) {
+      const describe = (flags?: Ticket['priorityFlags']) =>
+        flags?.length ? flags.map(flag => PRIORITY_FLAG_LABELS[flag]).join(', ') : 'none';
+      const from = describe(ticket.priorityFlags);
+      const to = describe(updates.priorityFlags);
+      if (from !== to) {
+        patch = {
+          ...patch,
+          statusHistory: noteInHistory({ ...ticket, ...patch }, `Priority flags: ${from} → ${to}`, 'reception', now),
+        };
+      }
+    }
+
+    const changes = await persist([{ type: 'updated', id, patch }]);
+    return promoteIfSeatFreed(tickets, branch, ticket, changes);
+  };
+
+  // Apply the branch's grace policy to patients who haven't confirmed entry:
+  // warn them as the window closes, then move them back or mark them not here.
+  // Each warning and move is written against the version read, so a screen
+  // sweeping a stale snapshot neither repeats it nor messages the patient again.
+  const checkGracePeriodExpiry = async (tickets: Ticket[], branch: BranchConfig): Promise<QueueChange[]> => {
+    const gracePeriodMs = branch.gracePeriodMinutes * 60 * 1000;
+    const policy = gracePolicyFor(branch);
+    const warnMs = policy.warnMinutesBefore * 60 * 1000;
+    const now = clock.now();
+    // Flagged patients keep their invitation if the branch exempts them
+    const exempt = priorityPolicyFor(branch).graceExempt;
+    const called = tickets.filter(t =>
+      t.branchId === branch.id &&
+      isStatus(t.status, TicketStatus.ELIGIBLE_FOR_ENTRY) &&
+      t.eligibleForEntryAt !== undefined &&
+      !(exempt && isFlagged(t)),
+    );
+    const expired = called.filter(t => now - t.eligibleForEntryAt! > gracePeriodMs);
+    const toWarn = warnMs > 0
+      ? called.filter(t =>
+          now - t.eligibleForEntryAt! <= gracePeriodMs &&
+          now - t.eligibleForEntryAt! > gracePeriodMs - warnMs &&
+          !(t.graceWarnedAt !== undefined && t.graceWarnedAt >= t.eligibleForEntryAt!),
+        )
+      : [];
+
+    const changes: QueueChange[] = [];
+    for (const customer of toWarn) {
+      const minutesLeft = Math.max(1, Math.ceil((gracePeriodMs - (now - customer.eligibleForEntryAt!)) / (60 * 1000)));
+      const patch: Partial<Ticket> = {
+        graceWarnedAt: now,
+        statusHistory: noteInHistory(customer, `Grace period warning sent - ${minutesLeft} min left`, 'system', now, {
+          graceOutcome: 'warned',
+        }),
+      };
+      const warned = await persistIfUnchanged(customer, patch);
+      if (!warned) continue;
+      changes.push(warned);
+
+      // ── Trigger 6: Check-in window about to close ──
+      await notifier.send(
+        customer,
+        `⏰ ${customer.name}, you have *${minutesLeft} ${minutesLeft === 1 ? 'minute' : 'minutes'}* left to check in at reception with number *#${customer.queueNumber}*.\n\nIf you can't make it in time, ${decideGraceExpiry(customer, policy) === 'not-here' ? 'your ticket will be closed' : 'you will lose your place in line'}.`,
+      );
+    }
+
+    let working = applyQueueChanges(tickets, changes);
+    for (const expiredTicket of expired) {
+      const customer = working.find(t => t.id === expiredTicket.id)!;
+      const misses = (customer.graceMisses ?? 0) + 1;
+      let outcome = decideGraceExpiry(customer, policy);
+      const currentQueueNum = customer.queueNumber;
+      const newQueueNum = currentQueueNum + policy.bumpPlaces;
+      // Find the ticket that should be at newQueueNum and swap
+      const targetTicket = outcome === 'bumped'
+        ? working.find(t => t.branchId === branch.id && t.queueNumber === newQueueNum)
+        : undefined;
+      if (outcome === 'bumped' && !targetTicket) outcome = 'moved-to-end';
+
+      let patch: Partial<Ticket>;
+      if (outcome === 'not-here') {
+        patch = {
+          ...transitionTicket(
+            customer,
+            TicketStatus.NOT_HERE,
+            'system',
+            `Grace period expired ${misses} times - marked not here`,
+            now,
+          ),
+          bumpedAt: now,
+          isNoShow: true,
+        };
+      } else {
+        // Nobody to swap with, or the branch sends everyone to the back: a freshly issued number
+        const endOfQueue = targetTicket ? undefined : await storage.allocateQueueNumber(branch.id, serviceDay(now));
+        patch = {
+          ...transitionTicket(
+            customer,
+            TicketStatus.REMOTE_WAITING,
+            'system',
+            targetTicket
+              ? `Grace period expired - bumped down ${policy.bumpPlaces} spaces`
+              : 'Grace period expired - moved to end of queue',
+            now,
+          ),
+          queueNumber: endOfQueue ?? newQueueNum,
+          inLineAt: undefined,
+        };
+      }
+      patch.statusHistory = patch.statusHistory!.map((entry, index, history) =>
+        index === history.length - 1 ? { ...entry, graceOutcome: outcome } : entry,
+      );
+      // The patient's own move decides whether this run handles the expiry at all
+      const moved = await persistIfUnchanged(customer, { ...patch, graceMisses: misses, eligibleForEntryAt: undefined });
+      if (!moved) continue;
+      const step: QueueChange[] = [
+        moved,
+        ...(targetTicket
+          ? await persist([{ type: 'updated', id: targetTicket.id, patch: { queueNumber: currentQueueNum } }])
+          : []),
+      ];
+
+      changes.push(...step);
+      working = applyQueueChanges(working, step);
+
+      if (outcome === 'not-here') {
+        await notifier.send(
+          customer,
+          `❌ ${customer.name}, we couldn't hold number *#${customer.queueNumber}* any longer after ${misses} missed check-ins.\n\nPlease speak to reception at ${branch.name} if you still need to be seen.`,
+        );
+      }
+    }
+    return changes;
+  };
+
+  // Finish the patient's current station. On a multi-stage visit they go back
+  // to the waiting room with a fresh number for the next station; on the last
+  // station (or a single-stage visit) this is the same as marking them SERVED.
+  const completeStage = async (
+    tickets: Ticket[],
+    branch: BranchConfig,
+    id: string,
+    options: StatusUpdateOptions = {},
+  ): Promise<QueueChange[]> => {
+    const ticket = tickets.find(t => t.id === id);
+    if (!ticket) return [];
+
+    const finished = currentStage(ticket);
+    const next = nextStage(ticket);
+    if (!finished || !next) return updateStatus(tickets, branch, id, TicketStatus.SERVED, options);
+
+    const now = clock.now();
+    const { triggeredBy = 'teller' } = options;
+    const transition = transitionTicket(
+      ticket,
+      TicketStatus.IN_BUILDING,
+      triggeredBy,
+      `${STAGE_LABELS[finished]} complete — queued for ${STAGE_LABELS[next]}`,
+      now,
+    );
+    // The patient never leaves the building between stations, so the seat
+    // they held while being seen is still theirs: no capacity check here
+    const queueNumber = await storage.allocateQueueNumber(branch.id, serviceDay(now));
+    const patch: Partial<Ticket> = {
+      ...transition,
+      stageIndex: (ticket.stageIndex ?? 0) + 1,
+      queueNumber,
+      inLineAt: undefined,
+      enteredBuildingAt: now,
+      transactionEndedAt: now,
+      tellerId: undefined,
+      counterId: undefined,
+    };
+    const changes = await persist([{ type: 'updated', id, patch }]);
+
+    // ── Trigger 4: Station finished — queued for the next one ──
+    await notifier.send(
+      ticket,
+      `✅ ${ticket.name}, your ${STAGE_LABELS[finished].toLowerCase()} visit is done.\n\nNext: *${STAGE_LABELS[next]}*. Please stay in the waiting room — your new number is *#${queueNumber}*.`,
+    );
+    return changes;
+  };
+
+  // Move a waiting patient to another branch. They keep their ticket and its
+  // history, get a number in the destination's queue according to the policy,
+  // and go back to waiting remotely since they still have to travel there.
+  const transferTicket = async (
+    tickets: Ticket[],
+    from: BranchConfig,
+    to: BranchConfig,
+    id: string,
+    { policy, reason, triggeredBy = 'reception', staff = [] }: TransferOptions,
+  ): Promise<QueueChange[]> => {
+    const ticket = tickets.find(t => t.id === id);
+    if (!ticket || ticket.branchId !== from.id || from.id === to.id) return [];
+
+    const now = clock.now();
+    const availability = joinAvailability(tickets, to, staff, now);
+    if (availability.open === false) throw new BranchClosedError(to.id, availability.reason, availability.opensAt);
+
+    const note = `Transferred from ${from.name} to ${to.name}${reason ? ` — ${reason}` : ''}`;
+    // Already waiting remotely: the lifecycle has no self-move, so log the transfer as-is
+    const history = isStatus(ticket.status, TicketStatus.REMOTE_WAITING)
+      ? { status: TicketStatus.REMOTE_WAITING, statusHistory: noteInHistory(ticket, note, triggeredBy, now) }
+      // Throws IllegalTransitionError for patients already being seen or gone
+      : transitionTicket(ticket, TicketStatus.REMOTE_WAITING, triggeredBy, note, now);
+
+    // A fresh number from the destination's counter keeps numbers unique there.
+    // To keep the original join time the patient is placed in line at it, so
+    // they are seen before whoever joined there later without anyone else's
+    // number changing
+    const queueNumber = await storage.allocateQueueNumber(to.id, serviceDay(now));
+    const changes = await persist([
+      {
+        type: 'updated',
+        id,
+        patch: {
+          ...history,
+          branchId: to.id,
+          queueNumber,
+          inLineAt: policy === 'keep-join-time' ? ticket.joinedAt : undefined,
+          eligibleForEntryAt: undefined,
+          leftBuildingAt: isStatus(ticket.status, TicketStatus.IN_BUILDING) ? now : ticket.leftBuildingAt,
+          tellerId: undefined,
+          counterId: undefined,
+        },
+      },
+    ]);
+
+    // ── Trigger 5: Patient moved to another branch ──
+    await notifier.send(
+      ticket,
+      `📍 ${ticket.name}, your visit has moved to *${to.name}*.\n\n${to.address}${to.phone ? `\n${to.phone}` : ''}\n\nYour new number is *#${queueNumber}*. We'll message you when it's almost your turn.`,
+    );
+
+    // A waiting-room seat may have freed up here, and one may be free there
+    const withSeatFreed = await promoteIfSeatFreed(tickets, from, ticket, changes);
+    return [...withSeatFreed, ...(await fillFreeSeats(applyQueueChanges(tickets, withSeatFreed), to))];
+  };
+
+  const remoteAt = (tickets: Ticket[], branch: BranchConfig) =>
+    tickets.filter(t => t.branchId === branch.id && isStatus(t.status, TicketStatus.REMOTE_WAITING));
+
+  // Bring a NOT_HERE patient back into the remote queue, clearing the no-show
+  const reinstateTicket = async (
+    tickets: Ticket[],
+    branch: BranchConfig,
+    id: string,
+    { placement, triggeredBy = 'reception' }: ReinstateOptions,
+  ): Promise<QueueChange[]> => {
+    const ticket = tickets.find(t => t.id === id);
+    if (!ticket || ticket.branchId !== branch.id) return [];
+    const from = normalizeStatus(ticket.status);
+    // The lifecycle would also allow this move from the call-in state; reinstating is only for no-shows
+    if (from !== TicketStatus.NOT_HERE) throw new IllegalTransitionError(id, from, TicketStatus.REMOTE_WAITING);
+
+    const now = clock.now();
+    const transition = transitionTicket(
+      ticket,
+      TicketStatus.REMOTE_WAITING,
+      triggeredBy,
+      `Reinstated ${REINSTATE_NOTES[placement]} - no-show cleared`,
+      now,
+    );
+
+    // Next to be called: placed in line just before everyone waiting outside,
+    // keeping their number, so nobody else's number changes
+    const outside = remoteAt(tickets, branch).map(t => t.inLineAt ?? t.joinedAt);
+    const inLineAt = placement === 'next-available' && outside.length > 0
+      ? Math.min(...outside) - 1
+      : ticket.inLineAt;
+    const queueNumber = placement === 'end-of-queue'
+      ? await storage.allocateQueueNumber(branch.id, serviceDay(now))
+      : ticket.queueNumber;
+
+    const changes = await persist([
+      {
+        type: 'updated',
+        id,
+        patch: {
+          ...transition,
+          queueNumber,
+          inLineAt: placement === 'end-of-queue' ? undefined : inLineAt,
+          isNoShow: false,
+          graceMisses: undefined,
+          eligibleForEntryAt: undefined,
+        },
+      },
+    ]);
+
+    // ── Trigger 7: Patient back in the queue ──
+    await notifier.send(
+      ticket,
+      `✅ ${ticket.name}, you're back in the queue at ${branch.name}.\n\nYour number is now *#${queueNumber}*. We'll message you when it's almost your turn.`,
+    );
+
+    // A free seat may be waiting for them (or for whoever is now first)
+    return [...changes, ...(await fillFreeSeats(applyQueueChanges(tickets, changes), branch))];
+  };
+
+  const announcePause = async (tickets: Ticket[], branch: BranchConfig): Promise<QueueChange[]> => {
+    const pause = currentPause(branch);
+    if (!pause) return [];
+    const now = clock.now();
+    const details = describePause(pause);
+    const waiting = remoteAt(tickets, branch);
+    const changes = await persist(waiting.map((ticket): QueueChange => ({
+      type: 'updated',
+      id: ticket.id,
+      patch: { statusHistory: noteInHistory(ticket, `Queue paused${pause.reason ? ` - ${pause.reason}` : ''}`, 'system', now) },
+    })));
+
+    // ── Trigger 8: Queue paused ──
+    for (const ticket of waiting) {
+      await notifier.send(
+        ticket,
+        `⏸️ ${ticket.name}, ${branch.name} has paused its queue${details ? ` (${details})` : ''}.\n\nYou keep your place as number *#${ticket.queueNumber}*. We'll message you as soon as it moves again.`,
+      );
+    }
+    return changes;
+  };
+
+  const announceResume = async (tickets: Ticket[], branch: BranchConfig): Promise<QueueChange[]> => {
+    if (branch.isPaused) return [];
+    const now = clock.now();
+    const waiting = remoteAt(tickets, branch);
+    const changes = await persist(waiting.map((ticket): QueueChange => ({
+      type: 'updated',
+      id: ticket.id,
+      patch: { statusHistory: noteInHistory(ticket, 'Queue resumed', 'system', now) },
+    })));
+
+    // ── Trigger 9: Queue resumed ──
+    for (const ticket of waiting) {
+      await notifier.send(
+        ticket,
+        `▶️ ${ticket.name}, the queue at ${branch.name} is moving again. Your number is *#${ticket.queueNumber}*.`,
+      );
+    }
+    return [...changes, ...(await fillFreeSeats(applyQueueChanges(tickets, changes), branch))];
+  };
+
+  return {
+    getInBuildingCount,
+    addTicket,
+    updateStatus,
+    updateTicket,
+    promoteNextRemote,
+    fillFreeSeats,
+    checkGracePeriodExpiry,
+    completeStage,
+    transferTicket,
+    reinstateTicket,
+    announcePause,
+    announceResume,
+  };
+};
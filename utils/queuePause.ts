@@ -0,0 +1,71 @@
+import { BranchConfig, PauseInterval, Ticket } from '../types';
+import { BranchConfigPatch } from './branchRepository';
+
+/**
+ * Queue pauses.
+ *
+ * Pausing a branch stops it calling anyone in from outside and stops new
+ * joins until it resumes; patients already in the building are still seen.
+ * Every pause is kept on the branch as an interval with its reason and
+ * expected end, so waiting patients can be told and the analytics can leave
+ * paused time out of wait-time statistics.
+ */
+
+// Oldest intervals are dropped beyond this, so the row stays small
+const PAUSE_HISTORY_LIMIT = 500;
+
+const MINUTE = 60 * 1000;
+
+/** The pause in force at a branch, if it is paused. */
+export const currentPause = (branch: Pick<BranchConfig, 'isPaused' | 'pauseHistory'>): PauseInterval | undefined => {
+  if (!branch.isPaused) return undefined;
+  const last = branch.pauseHistory?.at(-1);
+  return last && last.endedAt === undefined ? last : undefined;
+};
+
+/** Patch that pauses the branch and opens a new interval. */
+export const startPause = (
+  branch: BranchConfig,
+  now: number,
+  details: Pick<PauseInterval, 'reason' | 'expectedResumeAt' | 'pausedBy'> = {},
+): BranchConfigPatch => ({
+  isPaused: true,
+  pauseHistory: [...(branch.pauseHistory ?? []), { startedAt: now, ...details }].slice(-PAUSE_HISTORY_LIMIT),
+});
+
+/** Patch that resumes the branch and closes the open interval. */
+export const endPause = (branch: BranchConfig, now: number): BranchConfigPatch => ({
+  isPaused: false,
+  pauseHistory: (branch.pauseHistory ?? []).map(interval =>
+    interval.endedAt === undefined ? { ...interval, endedAt: now } : interval,
+  ),
+});
+
+/** Minutes the branch was paused between `from` and `to`; an open pause runs to `to`. */
+export const pausedMinutesBetween = (branch: Pick<BranchConfig, 'pauseHistory'>, from: number, to: number): number =>
+  (branch.pauseHistory ?? []).reduce((total, { startedAt, endedAt = to }) => {
+    const overlap = Math.min(endedAt, to) - Math.max(startedAt, from);
+    return overlap > 0 ? total + overlap / MINUTE : total;
+  }, 0);
+
+/**
+ * A served ticket's `waitTimeMinutes` with any paused time inside that wait
+ * taken out, so pauses don't count against the clinic's wait-time figures.
+ * A ticket whose wait no pause overlapped keeps its wait unchanged.
+ * Undefined without a wait.
+ */
+export const waitExcludingPauses = (ticket: Ticket, branch: Pick<BranchConfig, 'pauseHistory'>): number | undefined => {
+  if (ticket.waitTimeMinutes === undefined) return undefined;
+  if (ticket.enteredBuildingAt === undefined) return ticket.waitTimeMinutes;
+  // The window waitTimeMinutes measures: from entering the building to being served
+  const waitEnd = ticket.transactionEndedAt ?? ticket.enteredBuildingAt + ticket.waitTimeMinutes * MINUTE;
+  return Math.max(0, Math.round(ticket.waitTimeMinutes - pausedMinutesBetween(branch, ticket.enteredBuildingAt, waitEnd)));
+};
+
+/** "Staff meeting · expected to resume around 14:30", for patients and staff. */
+export const describePause = (pause: PauseInterval): string =>
+  [
+    pause.reason,
+    pause.expectedResumeAt !== undefined &&
+      `expected to resume around ${new Date(pause.expectedResumeAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`,
+  ].filter(Boolean).join(' · ');
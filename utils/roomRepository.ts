@@ -0,0 +1,177 @@
+import { ConnectionStatus, Room } from '../types';
+
+/**
+ * Consultation room registry.
+ *
+ * Same shape as `BranchRepository`: the Supabase backend lives in supabase.ts,
+ * the localStorage and in-memory backends live here. `save` creates or
+ * replaces a room and validates it first.
+ */
+export interface RoomRepository {
+  list(): Promise<Room[]>;
+  save(room: Room): Promise<Room>;
+  remove(id: string): Promise<void>;
+  /** Listen for edits made on other screens. Returns an unsubscribe function. */
+  subscribe(
+    onEvent: (event: RoomChangeEvent) => void,
+    onStatus?: (status: ConnectionStatus) => void,
+  ): () => void;
+}
+
+export type RoomChangeEvent =
+  | { type: 'upsert'; room: Room }
+  | { type: 'delete'; id: string }
+  | { type: 'resync'; rooms: Room[] };
+
+/** Thrown when a room edit would leave the registry unusable. */
+export class InvalidRoomError extends Error {
+  readonly roomId: string;
+  readonly field: keyof Room;
+
+  constructor(roomId: string, field: keyof Room, message: string) {
+    super(`${roomId}: ${message}`);
+    this.name = 'InvalidRoomError';
+    this.roomId = roomId;
+    this.field = field;
+  }
+}
+
+// Seeded for the default branch so the demo has somewhere to send patients
+export const DEFAULT_ROOMS: Room[] = [
+  { id: 'main-clinic-room-1', branchId: 'main-clinic', name: 'Room 1', isOpen: true, clinicianId: 'Doctor-1' },
+  { id: 'main-clinic-room-2', branchId: 'main-clinic', name: 'Room 2', isOpen: true },
+  { id: 'main-clinic-room-3', branchId: 'main-clinic', name: 'Room 3', isOpen: false },
+];
+
+export const validateRoom = (room: Room): void => {
+  if (!room.branchId) throw new InvalidRoomError(room.id, 'branchId', 'room must belong to a branch');
+  if (!room.name.trim()) throw new InvalidRoomError(room.id, 'name', 'name cannot be empty');
+};
+
+export type RoomRow = Record<string, unknown>;
+
+// One column per Room field, typed so a new field cannot be forgotten
+const ROOM_COLUMNS: { [K in keyof Required<Room>]: string } = {
+  id: 'id',
+  branchId: 'branch_id',
+  name: 'name',
+  isOpen: 'is_open',
+  clinicianId: 'clinician_id',
+  serviceCategories: 'service_categories',
+};
+
+const ROOM_FIELDS = Object.keys(ROOM_COLUMNS) as (keyof Room)[];
+
+/** Map a room to a database row. Absent optional fields are written as NULL. */
+export const roomToRow = (room: Room): RoomRow => {
+  const row: RoomRow = {};
+  for (const field of ROOM_FIELDS) row[ROOM_COLUMNS[field]] = room[field] ?? null;
+  return row;
+};
+
+/** Map a database row back to a room. NULL columns become absent fields. */
+export const roomFromRow = (row: RoomRow): Room => {
+  const room: Record<string, unknown> = {};
+  for (const field of ROOM_FIELDS) {
+    const value = row[ROOM_COLUMNS[field]];
+    if (value !== null && value !== undefined) room[field] = value;
+  }
+  return room as unknown as Room;
+};
+
+/** Fold a change event into a room list (pure). */
+export const applyRoomChange = (rooms: Room[], event: RoomChangeEvent): Room[] => {
+  if (event.type === 'resync') return event.rooms;
+  if (event.type === 'delete') return rooms.filter(r => r.id !== event.id);
+  return rooms.some(r => r.id === event.room.id)
+    ? rooms.map(r => (r.id === event.room.id ? event.room : r))
+    : [...rooms, event.room];
+};
+
+/** The open room a clinician is working in at a branch, if any. */
+export const roomForClinician = (rooms: Room[], branchId: string, clinicianId?: string): Room | undefined =>
+  clinicianId
+    ? rooms.find(r => r.branchId === branchId && r.isOpen && r.clinicianId === clinicianId)
+    : undefined;
+
+/**
+ * The rooms to save when a clinician takes a room: the room itself, opened
+ * and assigned to them, plus any other room at the branch they leave.
+ */
+export const assignClinicianToRoom = (rooms: Room[], roomId: string, clinicianId: string): Room[] => {
+  const target = rooms.find(r => r.id === roomId);
+  if (!target) return [];
+  const vacated = rooms
+    .filter(r => r.branchId === target.branchId && r.id !== roomId && r.clinicianId === clinicianId)
+    .map(r => ({ ...r, clinicianId: undefined }));
+  return [...vacated, { ...target, isOpen: true, clinicianId }];
+};
+
+/**
+ * In-memory backend — for tests and demos.
+ */
+export const createInMemoryRoomRepository = (seed: Room[] = DEFAULT_ROOMS): RoomRepository => {
+  let rooms = [...seed];
+  const listeners = new Set<(event: RoomChangeEvent) => void>();
+  const emit = (event: RoomChangeEvent) => listeners.forEach(listener => listener(event));
+
+  return {
+    async list() {
+      return [...rooms];
+    },
+    async save(room) {
+      validateRoom(room);
+      rooms = applyRoomChange(rooms, { type: 'upsert', room });
+      emit({ type: 'upsert', room });
+      return room;
+    },
+    async remove(id) {
+      rooms = rooms.filter(r => r.id !== id);
+      emit({ type: 'delete', id });
+    },
+    subscribe(onEvent, onStatus) {
+      onStatus?.('local');
+      listeners.add(onEvent);
+      return () => { listeners.delete(onEvent); };
+    },
+  };
+};
+
+export const LOCAL_ROOMS_KEY = 'doqline_rooms';
+
+/**
+ * Browser localStorage backend — seeded with DEFAULT_ROOMS on first use.
+ */
+export const createLocalStorageRoomRepository = (
+  storage: Storage = localStorage,
+  key: string = LOCAL_ROOMS_KEY,
+): RoomRepository => {
+  const read = (): Room[] => {
+    const stored = storage.getItem(key);
+    return stored ? JSON.parse(stored) : DEFAULT_ROOMS;
+  };
+  const write = (rooms: Room[]) => storage.setItem(key, JSON.stringify(rooms));
+
+  return {
+    async list() {
+      return read();
+    },
+    async save(room) {
+      validateRoom(room);
+      write(applyRoomChange(read(), { type: 'upsert', room }));
+      return room;
+    },
+    async remove(id) {
+      write(read().filter(r => r.id !== id));
+    },
+    subscribe(onEvent, onStatus) {
+      onStatus?.('local');
+      // Other tabs on this device write to the same key
+      const handleStorage = (event: StorageEvent) => {
+        if (event.key === key) onEvent({ type: 'resync', rooms: read() });
+      };
+      window.addEventListener('storage', handleStorage);
+      return () => window.removeEventListener('storage', handleStorage);
+    },
+  };
+};
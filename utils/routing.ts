@@ -0,0 +1,161 @@
+import { BranchConfig, PriorityPolicy, Room, ServiceCategory, StaffMember, Ticket, TicketStatus, VisitStage } from '../types';
+import { partyCategories } from './party';
+import { currentStage, stagesFor } from './pathways';
+import { roomForClinician } from './roomRepository';
+import { cliniciansOnDuty, isOnShift } from './staffRepository';
+import { isStatus } from './ticketStateMachine';
+import { priorityOrder } from './triage';
+
+/**
+ * Skill-based routing of visit reasons to clinicians.
+ *
+ * Clinicians and rooms may each declare the `ServiceCategory` values they
+ * handle; leaving the list out means "anything". A patient can be called by
+ * a clinician only if both the clinician and the room they are working in
+ * cover the patient's visit reason. Patients without a visit reason can be
+ * seen by anyone. A family ticket is seen in one visit, so the clinician
+ * must cover every member's visit reason. On multi-stage visits the
+ * clinician must also work the station the patient is queued for (see
+ * `stagesFor`).
+ *
+ * A patient who asked for a particular clinician is held for them — other
+ * clinicians skip past — while that clinician is on duty, until they have
+ * waited the branch's hold limit.
+ */
+
+export const SERVICE_CATEGORY_LABELS: Record<ServiceCategory, string> = {
+  [ServiceCategory.GENERAL_CHECKUP]: 'General Check-up',
+  [ServiceCategory.FOLLOW_UP]:       'Follow-up Visit',
+  [ServiceCategory.CONSULTATION]:    'Consultation',
+  [ServiceCategory.VACCINATION]:     'Vaccination',
+  [ServiceCategory.EMERGENCY]:       'Emergency / Urgent',
+  [ServiceCategory.LAB_RESULTS]:     'Lab Results',
+  [ServiceCategory.OTHER]:           'Other',
+};
+
+const covers = (declared: ServiceCategory[] | undefined, category: ServiceCategory) =>
+  !declared || declared.includes(category);
+
+/** Whether a clinician, working in `room`, can see a patient with this visit reason. */
+export const canServe = (
+  category: ServiceCategory | undefined,
+  clinician?: Pick<StaffMember, 'serviceCategories'>,
+  room?: Pick<Room, 'serviceCategories'>,
+): boolean =>
+  !category || (covers(clinician?.serviceCategories, category) && covers(room?.serviceCategories, category));
+
+/** Whether a clinician works the station a ticket is queued for. No clinician means anyone. */
+export const staffsStage = (
+  stage: VisitStage | undefined,
+  clinician?: Pick<StaffMember, 'role' | 'stages'>,
+): boolean =>
+  !stage || !clinician || stagesFor(clinician).includes(stage);
+
+export const DEFAULT_PREFERENCE_HOLD_MINUTES = 30;
+
+/** What routing needs to honour patients' preferred clinicians. */
+export interface PreferenceContext {
+  staff: StaffMember[];
+  holdMinutes: number;
+  now: number;
+}
+
+export const preferenceContext = (branch: BranchConfig, staff: StaffMember[], now: number): PreferenceContext => ({
+  staff,
+  holdMinutes: branch.preferenceHoldMinutes ?? DEFAULT_PREFERENCE_HOLD_MINUTES,
+  now,
+});
+
+/**
+ * The clinician a patient is still being held for: the one they asked for,
+ * while that clinician is on shift, not on a break, works the patient's
+ * current station, and the patient has waited less than the hold limit.
+ * Undefined once anyone may see them.
+ */
+export const heldFor = (ticket: Ticket, { staff, holdMinutes, now }: PreferenceContext): StaffMember | undefined => {
+  if (!ticket.preferredClinicianId) return undefined;
+  const preferred = staff.find(m => m.id === ticket.preferredClinicianId && m.isActive !== false);
+  if (!preferred || !staffsStage(currentStage(ticket), preferred)) return undefined;
+  if (preferred.onBreak || !isOnShift(preferred, ticket.branchId, now)) return undefined;
+  return now - ticket.joinedAt < holdMinutes * 60 * 1000 ? preferred : undefined;
+};
+
+type Clinician = Pick<StaffMember, 'id' | 'role' | 'stages' | 'serviceCategories'>;
+
+/**
+ * Whether this clinician, in this room, can take the ticket at its current
+ * station. Pass `preference` to also respect patients held for someone else.
+ */
+export const canTake = (
+  ticket: Ticket,
+  clinician?: Clinician,
+  room?: Pick<Room, 'serviceCategories'>,
+  preference?: PreferenceContext,
+): boolean => {
+  const servesParty = partyCategories(ticket).every(category => canServe(category, clinician, room));
+  if (!servesParty || !staffsStage(currentStage(ticket), clinician)) return false;
+  const heldBy = clinician && preference ? heldFor(ticket, preference) : undefined;
+  return !heldBy || heldBy.id === clinician!.id;
+};
+
+/**
+ * The patient "Call next" should bring in: the first patient in the waiting
+ * room, by triage priority (and the branch's priority policy, if given),
+ * whose visit reason and station this clinician and room can handle, and who
+ * isn't being held for another clinician.
+ */
+export const nextTicketFor = (
+  tickets: Ticket[],
+  branchId: string,
+  clinician?: Clinician,
+  room?: Pick<Room, 'serviceCategories'>,
+  preference?: PreferenceContext,
+  policy?: PriorityPolicy,
+): Ticket | undefined =>
+  priorityOrder(tickets.filter(t => t.branchId === branchId && isStatus(t.status, TicketStatus.IN_BUILDING)), policy)
+    .find(t => canTake(t, clinician, room, preference));
+
+/**
+ * Visit reasons of patients waiting at a branch that no clinician on duty
+ * (in the room they are working in) can see.
+ */
+export const unservedCategories = (
+  tickets: Ticket[],
+  staff: StaffMember[],
+  rooms: Room[],
+  branchId: string,
+  now: number,
+): ServiceCategory[] => {
+  const onDuty = cliniciansOnDuty(staff, branchId, now);
+  const waiting = new Set(
+    tickets
+      .filter(t =>
+        t.branchId === branchId &&
+        isStatus(t.status, TicketStatus.REMOTE_WAITING, TicketStatus.ELIGIBLE_FOR_ENTRY, TicketStatus.IN_BUILDING),
+      )
+      .flatMap(partyCategories),
+  );
+  return [...waiting].filter(category =>
+    !onDuty.some(clinician => canServe(category, clinician, roomForClinician(rooms, branchId, clinician.id))),
+  );
+};
+
+/** Stations patients at a branch are queued for that no clinician on duty works. */
+export const unstaffedStages = (
+  tickets: Ticket[],
+  staff: StaffMember[],
+  branchId: string,
+  now: number,
+): VisitStage[] => {
+  const onDuty = cliniciansOnDuty(staff, branchId, now);
+  const waiting = new Set(
+    tickets
+      .filter(t =>
+        t.branchId === branchId &&
+        isStatus(t.status, TicketStatus.REMOTE_WAITING, TicketStatus.ELIGIBLE_FOR_ENTRY, TicketStatus.IN_BUILDING),
+      )
+      .map(currentStage)
+      .filter((stage): stage is VisitStage => !!stage),
+  );
+  return [...waiting].filter(stage => !onDuty.some(clinician => staffsStage(stage, clinician)));
+};
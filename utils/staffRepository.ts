@@ -0,0 +1,218 @@
+import { ConnectionStatus, ServiceCategory, StaffMember, StaffShift, UserRole } from '../types';
+
+/**
+ * Staff directory and shift roster.
+ *
+ * Same shape as `RoomRepository`: the Supabase backend lives in supabase.ts,
+ * the localStorage and in-memory backends live here. Tickets refer to staff
+ * by id (`tellerId`), so picking from this directory replaces typing an id.
+ */
+export interface StaffRepository {
+  list(): Promise<StaffMember[]>;
+  save(member: StaffMember): Promise<StaffMember>;
+  /** Listen for edits made on other screens. Returns an unsubscribe function. */
+  subscribe(
+    onEvent: (event: StaffChangeEvent) => void,
+    onStatus?: (status: ConnectionStatus) => void,
+  ): () => void;
+}
+
+export type StaffChangeEvent =
+  | { type: 'upsert'; member: StaffMember }
+  | { type: 'resync'; staff: StaffMember[] };
+
+/** Thrown when a staff edit would leave the directory unusable. */
+export class InvalidStaffMemberError extends Error {
+  readonly staffId: string;
+  readonly field: keyof StaffMember;
+
+  constructor(staffId: string, field: keyof StaffMember, message: string) {
+    super(`${staffId}: ${message}`);
+    this.name = 'InvalidStaffMemberError';
+    this.staffId = staffId;
+    this.field = field;
+  }
+}
+
+/** Roles that can be rostered. */
+export const STAFF_ROLES = [UserRole.DOCTOR, UserRole.NURSE, UserRole.RECEPTIONIST, UserRole.MANAGER] as const;
+
+/** Roles that see patients and so count towards wait estimates. */
+export const isClinician = (member: StaffMember): boolean =>
+  member.role === UserRole.DOCTOR || member.role === UserRole.NURSE;
+
+/** Staff who can sign in to the manager dashboard and change branch settings. */
+export const isManager = (member: StaffMember): boolean => member.role === UserRole.MANAGER;
+
+const weekdayShifts = (branchId: string, start: string, end: string): StaffShift[] =>
+  [1, 2, 3, 4, 5].map(dayOfWeek => ({ branchId, dayOfWeek, start, end }));
+
+const DOCTOR_CATEGORIES = [
+  ServiceCategory.GENERAL_CHECKUP,
+  ServiceCategory.FOLLOW_UP,
+  ServiceCategory.CONSULTATION,
+  ServiceCategory.EMERGENCY,
+  ServiceCategory.LAB_RESULTS,
+  ServiceCategory.OTHER,
+];
+// Nurses also take check-ups, consultations and emergencies at the triage and nurse stations
+const NURSE_CATEGORIES = [
+  ServiceCategory.GENERAL_CHECKUP,
+  ServiceCategory.CONSULTATION,
+  ServiceCategory.VACCINATION,
+  ServiceCategory.EMERGENCY,
+  ServiceCategory.FOLLOW_UP,
+  ServiceCategory.LAB_RESULTS,
+];
+
+// Seeded so the demo has a roster; ids match the tellerIds used so far
+export const DEFAULT_STAFF: StaffMember[] = [
+  { id: 'Doctor-1', name: 'Dr. Amelia Hart', role: UserRole.DOCTOR, shifts: weekdayShifts('main-clinic', '08:00', '16:00'), serviceCategories: DOCTOR_CATEGORIES, onBreak: false, isActive: true },
+  { id: 'Doctor-2', name: 'Dr. Ravi Patel', role: UserRole.DOCTOR, shifts: weekdayShifts('main-clinic', '12:00', '20:00'), serviceCategories: DOCTOR_CATEGORIES, onBreak: false, isActive: true },
+  { id: 'Nurse-1', name: 'Nurse Grace Okafor', role: UserRole.NURSE, shifts: weekdayShifts('main-clinic', '08:00', '16:00'), serviceCategories: NURSE_CATEGORIES, onBreak: false, isActive: true },
+  { id: 'Reception-1', name: 'Sam Lee', role: UserRole.RECEPTIONIST, shifts: weekdayShifts('main-clinic', '07:30', '17:30'), onBreak: false, isActive: true },
+  { id: 'Manager-1', name: 'Jordan Mensah', role: UserRole.MANAGER, shifts: weekdayShifts('main-clinic', '08:00', '17:00'), onBreak: false, isActive: true },
+];
+
+/** 'HH:MM', 24-hour clock. Shared with branch opening hours. */
+export const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const validateStaffMember = (member: StaffMember): void => {
+  if (!member.name.trim()) throw new InvalidStaffMemberError(member.id, 'name', 'name cannot be empty');
+  if (!(STAFF_ROLES as readonly UserRole[]).includes(member.role)) {
+    throw new InvalidStaffMemberError(member.id, 'role', `${member.role} is not a staff role`);
+  }
+  for (const shift of member.shifts) {
+    const valid =
+      Number.isInteger(shift.dayOfWeek) && shift.dayOfWeek >= 0 && shift.dayOfWeek <= 6 &&
+      TIME_OF_DAY.test(shift.start) && TIME_OF_DAY.test(shift.end) &&
+      shift.start < shift.end;
+    if (!valid) {
+      throw new InvalidStaffMemberError(member.id, 'shifts', `invalid shift ${shift.dayOfWeek} ${shift.start}–${shift.end}`);
+    }
+  }
+};
+
+export const minutesOfDay = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+
+/** Whether a member is rostered at a branch at the given moment (local time). */
+export const isOnShift = (member: StaffMember, branchId: string, at: number): boolean => {
+  const date = new Date(at);
+  const minute = date.getHours() * 60 + date.getMinutes();
+  return member.shifts.some(shift =>
+    shift.branchId === branchId &&
+    shift.dayOfWeek === date.getDay() &&
+    minute >= minutesOfDay(shift.start) &&
+    minute < minutesOfDay(shift.end),
+  );
+};
+
+/** Clinicians rostered at a branch right now and not on a break. */
+export const cliniciansOnDuty = (staff: StaffMember[], branchId: string, at: number): StaffMember[] =>
+  staff.filter(m => m.isActive !== false && isClinician(m) && !m.onBreak && isOnShift(m, branchId, at));
+
+/** Display name for a staff id, falling back to the raw id for unknown staff. */
+export const staffName = (staff: StaffMember[], id: string): string =>
+  staff.find(m => m.id === id)?.name ?? id;
+
+export type StaffRow = Record<string, unknown>;
+
+// One column per StaffMember field, typed so a new field cannot be forgotten
+const STAFF_COLUMNS: { [K in keyof Required<StaffMember>]: string } = {
+  id: 'id',
+  name: 'name',
+  role: 'role',
+  shifts: 'shifts',
+  serviceCategories: 'service_categories',
+  stages: 'stages',
+  onBreak: 'on_break',
+  isActive: 'is_active',
+};
+
+const STAFF_FIELDS = Object.keys(STAFF_COLUMNS) as (keyof StaffMember)[];
+
+/** Map a staff member to a database row. Absent optional fields are written as NULL. */
+export const staffToRow = (member: StaffMember): StaffRow => {
+  const row: StaffRow = {};
+  for (const field of STAFF_FIELDS) row[STAFF_COLUMNS[field]] = member[field] ?? null;
+  return row;
+};
+
+/** Map a database row back to a staff member. NULL columns become absent fields. */
+export const staffFromRow = (row: StaffRow): StaffMember => {
+  const member: Record<string, unknown> = {};
+  for (const field of STAFF_FIELDS) {
+    const value = row[STAFF_COLUMNS[field]];
+    if (value !== null && value !== undefined) member[field] = value;
+  }
+  return { shifts: [], ...member } as unknown as StaffMember;
+};
+
+/** Fold a change event into a staff list (pure). */
+export const applyStaffChange = (staff: StaffMember[], event: StaffChangeEvent): StaffMember[] => {
+  if (event.type === 'resync') return event.staff;
+  return staff.some(m => m.id === event.member.id)
+    ? staff.map(m => (m.id === event.member.id ? event.member : m))
+    : [...staff, event.member];
+};
+
+/**
+ * In-memory backend — for tests and demos.
+ */
+export const createInMemoryStaffRepository = (seed: StaffMember[] = DEFAULT_STAFF): StaffRepository => {
+  let staff = [...seed];
+  const listeners = new Set<(event: StaffChangeEvent) => void>();
+
+  return {
+    async list() {
+      return [...staff];
+    },
+    async save(member) {
+      validateStaffMember(member);
+      staff = applyStaffChange(staff, { type: 'upsert', member });
+      listeners.forEach(listener => listener({ type: 'upsert', member }));
+      return member;
+    },
+    subscribe(onEvent, onStatus) {
+      onStatus?.('local');
+      listeners.add(onEvent);
+      return () => { listeners.delete(onEvent); };
+    },
+  };
+};
+
+export const LOCAL_STAFF_KEY = 'doqline_staff';
+
+/**
+ * Browser localStorage backend — seeded with DEFAULT_STAFF on first use.
+ */
+export const createLocalStorageStaffRepository = (
+  storage: Storage = localStorage,
+  key: string = LOCAL_STAFF_KEY,
+): StaffRepository => {
+  const read = (): StaffMember[] => {
+    const stored = storage.getItem(key);
+    return stored ? JSON.parse(stored) : DEFAULT_STAFF;
+  };
+  const write = (staff: StaffMember[]) => storage.setItem(key, JSON.stringify(staff));
+
+  return {
+    async list() {
+      return read();
+    },
+    async save(member) {
+      validateStaffMember(member);
+      write(applyStaffChange(read(), { type: 'upsert', member }));
+      return member;
+    },
+    subscribe(onEvent, onStatus) {
+      onStatus?.('local');
+      // Other tabs on this device write to the same key
+      const handleStorage = (event: StorageEvent) => {
+        if (event.key === key) onEvent({ type: 'resync', staff: read() });
+      };
+      window.addEventListener('storage', handleStorage);
+      return () => window.removeEventListener('storage', handleStorage);
+    },
+  };
+};
@@ -0,0 +1,96 @@
+import { StatusTransition, Ticket, TicketStatus } from '../types';
+import { normalizeStatus, normalizeTicket } from './ticketStateMachine';
+
+/**
+ * Three-way merge of a ticket edited on this device while another device
+ * edited the same row on the server.
+ *
+ * - `last-writer-wins` — a field changed on both sides takes the value from
+ *   whichever write is newer (local edit time vs. the row's `updatedAt`).
+ * - `status-precedence` — as above, except `status` takes whichever value is
+ *   further along the visit (a consultation that started on the doctor's
+ *   screen is never undone by a stale reception edit).
+ *
+ * `statusHistory` is always merged by union. Anything a policy cannot decide
+ * keeps the server value and is reported in `unresolved` for reception.
+ */
+export type ConflictPolicy = 'last-writer-wins' | 'status-precedence';
+
+export interface MergeResult {
+  ticket: Ticket;
+  /** Fields changed on both sides that the policy could not decide. */
+  unresolved: (keyof Ticket)[];
+}
+
+// How far along the visit a status is. Equal ranks are genuine conflicts.
+const STATUS_RANK: Partial<Record<TicketStatus, number>> = {
+  [TicketStatus.REMOTE_WAITING]: 0,
+  [TicketStatus.NOT_HERE]: 1,
+  [TicketStatus.ELIGIBLE_FOR_ENTRY]: 1,
+  [TicketStatus.IN_BUILDING]: 2,
+  [TicketStatus.IN_SERVICE]: 3,
+  [TicketStatus.SERVED]: 4,
+  [TicketStatus.REMOVED]: 4,
+};
+
+// Server-owned bookkeeping, never merged field by field
+const IGNORED_FIELDS = new Set<keyof Ticket>(['id', 'updatedAt', 'version']);
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/** The patch that turns `from` into `to`; removed fields map to `undefined`. */
+export const diffTicketFields = (from: Ticket, to: Ticket): Partial<Ticket> => {
+  const patch: Record<string, unknown> = {};
+  const fields = new Set([...Object.keys(from), ...Object.keys(to)] as (keyof Ticket)[]);
+  fields.forEach(field => {
+    if (!IGNORED_FIELDS.has(field) && !same(from[field], to[field])) patch[field] = to[field];
+  });
+  return patch as Partial<Ticket>;
+};
+
+const mergeHistory = (local: StatusTransition[] = [], remote: StatusTransition[] = []): StatusTransition[] => {
+  const byKey = new Map<string, StatusTransition>();
+  [...remote, ...local].forEach(t => byKey.set(`${t.timestamp}:${t.fromStatus}:${t.toStatus}`, t));
+  return [...byKey.values()].sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const mergeTicketChanges = (
+  base: Ticket,
+  local: Ticket,
+  remote: Ticket,
+  policy: ConflictPolicy,
+  localEditedAt: number,
+): MergeResult => {
+  const merged: Record<string, unknown> = { ...remote };
+  const unresolved: (keyof Ticket)[] = [];
+  const fields = new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(remote)] as (keyof Ticket)[]);
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const localChanged = !same(local[field], base[field]);
+    const remoteChanged = !same(remote[field], base[field]);
+    if (!localChanged || same(local[field], remote[field])) continue; // remote value stands
+    if (!remoteChanged) {
+      merged[field] = local[field];
+      continue;
+    }
+
+    if (field === 'statusHistory') {
+      merged[field] = mergeHistory(local.statusHistory, remote.statusHistory);
+    } else if (field === 'status' && policy === 'status-precedence') {
+      const localRank = STATUS_RANK[normalizeStatus(local.status)] ?? 0;
+      const remoteRank = STATUS_RANK[normalizeStatus(remote.status)] ?? 0;
+      if (localRank > remoteRank) merged[field] = local.status;
+      if (localRank === remoteRank) unresolved.push(field);
+    } else if (remote.updatedAt === undefined) {
+      unresolved.push(field);
+    } else if (localEditedAt > remote.updatedAt) {
+      merged[field] = local[field];
+    }
+  }
+
+  for (const field of Object.keys(merged)) {
+    if (merged[field] === undefined) delete merged[field];
+  }
+  return { ticket: normalizeTicket(merged as unknown as Ticket), unresolved };
+};
@@ -0,0 +1,316 @@
+import { Ticket } from '../types';
+import { Clock, systemClock } from './clock';
+import { ConflictPolicy, diffTicketFields, mergeTicketChanges } from './ticketMerge';
+import { QueueNumberUnavailableError, StaleTicketError, TicketRepository } from './ticketRepository';
+import { normalizeTicket } from './ticketStateMachine';
+
+/**
+ * Durable offline outbox.
+ *
+ * Every write lands in the local cache straight away and is appended to an
+ * outbox persisted in localStorage, so it survives a reload while the clinic
+ * is offline. The outbox is replayed against the server in order whenever
+ * the link comes back; each edit is merged against the row's current server
+ * version using `mergeTicketChanges` and written conditionally on that
+ * version. A write that loses the race is re-read, re-merged and retried;
+ * only edits the policy cannot decide are kept as conflicts for reception.
+ * An update made with an expected version stays conditional: if the server
+ * has moved past that version by the time it replays, it is kept as a
+ * conflict instead of being merged.
+ */
+export interface TicketOutbox extends TicketRepository {
+  pendingCount(): number;
+  conflicts(): TicketConflict[];
+  /** Settle a conflict by re-applying this device's version or accepting the server's. */
+  resolveConflict(id: string, keep: 'local' | 'remote'): Promise<void>;
+  /** Push pending writes now. Safe to call at any time. */
+  replay(): Promise<void>;
+  /** Called whenever the pending writes or the conflicts change. */
+  onChange(listener: () => void): () => void;
+}
+
+export interface OutboxEntry {
+  seq: number;
+  kind: 'upsert' | 'remove';
+  ticketId: string;
+  ticket?: Ticket;   // upsert: this device's full version
+  base?: Ticket;     // the version it was edited from; absent for new tickets
+  expectedVersion?: number; // conditional update: only applies to this server version
+  queuedAt: number;
+}
+
+export interface TicketConflict {
+  id: string;
+  ticketId: string;
+  reason: 'edited' | 'deleted';  // edited on both sides, or deleted on the server
+  fields: (keyof Ticket)[];
+  local: Ticket;
+  remote?: Ticket;
+  detectedAt: number;
+}
+
+export interface TicketOutboxOptions {
+  storage?: Storage;
+  key?: string;
+  policy?: ConflictPolicy;
+  clock?: Clock;
+  /** Delay before retrying after a failed replay. */
+  retryDelayMs?: number;
+}
+
+export const OUTBOX_KEY = 'doqline_outbox';
+
+// Re-read-and-retry rounds before a contended write is left for the next replay
+const MAX_STALE_RETRIES = 3;
+
+export const createTicketOutbox = (
+  primary: TicketRepository,
+  cache: TicketRepository,
+  {
+    storage = localStorage,
+    key = OUTBOX_KEY,
+    policy = 'status-precedence',
+    clock = systemClock,
+    retryDelayMs = 5000,
+  }: TicketOutboxOptions = {},
+): TicketOutbox => {
+  const conflictsKey = `${key}_conflicts`;
+  const read = <T>(itemKey: string): T[] => JSON.parse(storage.getItem(itemKey) || '[]');
+
+  let entries = read<OutboxEntry>(key);
+  let conflicts = read<TicketConflict>(conflictsKey);
+  let seq = entries.reduce((max, e) => Math.max(max, e.seq), 0);
+  let inFlight: Promise<void> = Promise.resolve();
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  const listeners = new Set<() => void>();
+
+  const save = () => {
+    storage.setItem(key, JSON.stringify(entries));
+    storage.setItem(conflictsKey, JSON.stringify(conflicts));
+    listeners.forEach(listener => listener());
+  };
+
+  const hasPending = (ticketId: string) => entries.some(e => e.ticketId === ticketId);
+
+  // Server tickets with this device's unsent writes applied on top
+  const overlay = (tickets: Ticket[]): Ticket[] => {
+    const byId = new Map(tickets.map(t => [t.id, t]));
+    entries.forEach(e => (e.kind === 'remove' ? byId.delete(e.ticketId) : byId.set(e.ticketId, e.ticket!)));
+    return [...byId.values()];
+  };
+
+  const cached = async (ticketId: string) => (await cache.list()).find(t => t.id === ticketId);
+
+  const enqueue = async (entry: Omit<OutboxEntry, 'seq' | 'queuedAt'>) => {
+    entries = [...entries, { ...entry, seq: ++seq, queuedAt: clock.now() }];
+    save();
+  };
+
+  const queueUpsert = async (ticket: Ticket, expectedVersion?: number) => {
+    const stored = normalizeTicket(ticket);
+    await enqueue({ kind: 'upsert', ticketId: stored.id, ticket: stored, base: await cached(stored.id), expectedVersion });
+    await cache.upsertMany([stored]);
+    return stored;
+  };
+
+  const scheduleRetry = () => {
+    if (retryTimer) return;
+    retryTimer = setTimeout(() => { retryTimer = null; replay(); }, retryDelayMs);
+  };
+
+  const addConflict = (conflict: Omit<TicketConflict, 'id' | 'detectedAt'>) => {
+    const detectedAt = clock.now();
+    conflicts = [
+      ...conflicts.filter(c => c.ticketId !== conflict.ticketId),
+      { ...conflict, id: `${conflict.ticketId}-${detectedAt}`, detectedAt },
+    ];
+    console.warn(`⚠️ Sync conflict on ticket ${conflict.ticketId}: ${conflict.reason} (${conflict.fields.join(', ')})`);
+  };
+
+  const apply = async (entry: OutboxEntry, remoteById: Map<string, Ticket>) => {
+    if (entry.kind === 'remove') {
+      await primary.remove(entry.ticketId);
+      remoteById.delete(entry.ticketId);
+      return;
+    }
+
+    const local = entry.ticket!;
+    let remote = remoteById.get(entry.ticketId);
+    if (!remote && entry.base) {
+      addConflict({ ticketId: local.id, reason: 'deleted', fields: [], local });
+      return;
+    }
+
+    let saved = local;
+    if (!remote) {
+      await primary.upsertMany([local]);
+    } else {
+      for (let attempt = 0; ; attempt++) {
+        if (entry.expectedVersion !== undefined && (remote.version ?? 1) !== entry.expectedVersion) {
+          const fields = Object.keys(diffTicketFields(entry.base ?? remote, local)) as (keyof Ticket)[];
+          addConflict({ ticketId: local.id, reason: 'edited', fields, local, remote });
+          saved = remote;
+          break;
+        }
+        const { ticket, unresolved } = mergeTicketChanges(entry.base ?? remote, local, remote, policy, entry.queuedAt);
+        try {
+          const patch = diffTicketFields(remote, ticket);
+          saved = Object.keys(patch).length > 0
+            ? (await primary.update(local.id, patch, remote.version ?? 1)) ?? ticket
+            : remote;
+          if (unresolved.length > 0) addConflict({ ticketId: local.id, reason: 'edited', fields: unresolved, local, remote });
+          break;
+        } catch (error) {
+          if (!(error instanceof StaleTicketError) || attempt >= MAX_STALE_RETRIES) throw error;
+          // Someone else wrote first: merge against what they wrote and try again
+          remote = (await primary.list()).find(t => t.id === local.id);
+          if (!remote) {
+            addConflict({ ticketId: local.id, reason: 'deleted', fields: [], local });
+            return;
+          }
+        }
+      }
+    }
+    remoteById.set(saved.id, saved);
+    // A later queued edit to the same ticket still owns the cached copy
+    if (!entries.some(e => e.seq > entry.seq && e.ticketId === saved.id)) await cache.upsertMany([saved]);
+  };
+
+  const drain = async () => {
+    if (entries.length === 0) return;
+    try {
+      const remoteById = new Map((await primary.list()).map(t => [t.id, t]));
+      while (entries.length > 0) {
+        const entry = entries[0];
+        await apply(entry, remoteById);
+        entries = entries.filter(e => e.seq !== entry.seq);
+        save();
+      }
+      console.log('✓ Outbox replayed');
+    } catch (error) {
+      console.error('✗ Outbox replay failed, will retry:', error);
+      scheduleRetry();
+    }
+  };
+
+  const replay = (): Promise<void> => {
+    // Serialize replays so entries are applied strictly in order
+    inFlight = inFlight.then(drain);
+    return inFlight;
+  };
+
+  if (typeof window !== 'undefined') window.addEventListener('online', () => { replay(); });
+  if (entries.length > 0) replay();
+
+  return {
+    async list() {
+      try {
+        const tickets = overlay(await primary.list());
+        const ids = new Set(tickets.map(t => t.id));
+        for (const stale of (await cache.list()).filter(t => !ids.has(t.id))) await cache.remove(stale.id);
+        await cache.upsertMany(tickets);
+        return tickets;
+      } catch (error) {
+        console.error('✗ Supabase error, using local copy:', error);
+        return cache.list();
+      }
+    },
+
+    async insert(ticket) {
+      const stored = await queueUpsert(ticket);
+      replay();
+      return stored;
+    },
+
+    async update(id, patch, expectedVersion) {
+      const current = await cached(id);
+      if (!current) return null;
+      if (expectedVersion !== undefined && (current.version ?? 1) !== expectedVersion) {
+        throw new StaleTicketError(id, expectedVersion);
+      }
+      // A conditional write bumps the version once it lands; later conditional
+      // writes from this device are made against that
+      const updated = await queueUpsert(
+        expectedVersion === undefined ? { ...current, ...patch } : { ...current, ...patch, version: expectedVersion + 1 },
+        expectedVersion,
+      );
+      replay();
+      return updated;
+    },
+
+    async remove(id) {
+      await enqueue({ kind: 'remove', ticketId: id });
+      await cache.remove(id);
+      replay();
+    },
+
+    async upsertMany(tickets) {
+      for (const ticket of tickets) await queueUpsert(ticket);
+      replay();
+    },
+
+    async allocateQueueNumber(branchId, day) {
+      try {
+        return await primary.allocateQueueNumber(branchId, day);
+      } catch (error) {
+        // Only the server's counter is shared; a local number could repeat one issued elsewhere
+        console.error('✗ Supabase error, no queue number issued:', error);
+        throw new QueueNumberUnavailableError(branchId);
+      }
+    },
+
+    subscribe(onEvent, onStatus) {
+      return primary.subscribe(
+        event => {
+          // Keep the cache current for tickets with nothing queued, and keep
+          // showing this device's version of the ones that do
+          if (event.type === 'upsert') {
+            if (hasPending(event.ticket.id)) {
+              const [mine] = overlay([event.ticket]);
+              if (mine) onEvent({ type: 'upsert', ticket: mine });
+              return;
+            }
+            cache.upsertMany([event.ticket]);
+          }
+          if (event.type === 'delete' && !hasPending(event.id)) cache.remove(event.id);
+          if (event.type === 'resync') {
+            const tickets = overlay(event.tickets);
+            cache.upsertMany(tickets.filter(t => !hasPending(t.id)));
+            onEvent({ type: 'resync', tickets });
+            return;
+          }
+          onEvent(event);
+        },
+        status => {
+          if (status === 'live') replay();
+          onStatus?.(status);
+        },
+      );
+    },
+
+    pendingCount: () => entries.length,
+
+    conflicts: () => conflicts,
+
+    async resolveConflict(id, keep) {
+      const conflict = conflicts.find(c => c.id === id);
+      if (!conflict) return;
+      conflicts = conflicts.filter(c => c.id !== id);
+      if (keep === 'local') {
+        // Re-queue against the server version so this device's values win the merge
+        await enqueue({ kind: 'upsert', ticketId: conflict.ticketId, ticket: conflict.local, base: conflict.remote });
+        await cache.upsertMany([conflict.local]);
+      } else {
+        save();
+      }
+      replay();
+    },
+
+    replay,
+
+    onChange(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
@@ -0,0 +1,274 @@
+import { ConnectionStatus, Ticket } from '../types';
+import { normalizeStatus, normalizeTicket } from './ticketStateMachine';
+
+/**
+ * Ticket persistence.
+ *
+ * `TicketRepository` is the only way the app reads or writes tickets. The
+ * Supabase backend lives in supabase.ts next to the client; the localStorage
+ * and in-memory backends live here. All three are interchangeable.
+ */
+export interface TicketRepository {
+  list(): Promise<Ticket[]>;
+  insert(ticket: Ticket): Promise<Ticket>;
+  /**
+   * Patch a ticket. With `expectedVersion` the write only applies if the stored
+   * version still matches, otherwise it throws `StaleTicketError`.
+   */
+  update(id: string, patch: Partial<Ticket>, expectedVersion?: number): Promise<Ticket | null>;
+  remove(id: string): Promise<void>;
+  /** Insert or overwrite the given tickets by id. Never deletes. */
+  upsertMany(tickets: Ticket[]): Promise<void>;
+  /**
+   * Issue the next queue number for a branch on a service day ('YYYY-MM-DD').
+   * Atomic: two devices asking at once never get the same number. Throws
+   * `QueueNumberUnavailableError` when that cannot be guaranteed (offline).
+   */
+  allocateQueueNumber(branchId: string, serviceDay: string): Promise<number>;
+  /**
+   * Listen for changes made by other devices. Returns an unsubscribe function.
+   * A `resync` event carries the full current list (sent after connecting and
+   * after every reconnect, so changes missed while offline are backfilled).
+   */
+  subscribe(
+    onEvent: (event: TicketChangeEvent) => void,
+    onStatus?: (status: ConnectionStatus) => void,
+  ): () => void;
+}
+
+export type TicketChangeEvent =
+  | { type: 'upsert'; ticket: Ticket }
+  | { type: 'delete'; id: string }
+  | { type: 'resync'; tickets: Ticket[] };
+
+/** A conditional update lost the race: the ticket changed since it was read. */
+export class StaleTicketError extends Error {
+  readonly ticketId: string;
+  readonly expectedVersion: number;
+
+  constructor(ticketId: string, expectedVersion: number) {
+    super(`Ticket ${ticketId} changed since version ${expectedVersion} was read`);
+    this.name = 'StaleTicketError';
+    this.ticketId = ticketId;
+    this.expectedVersion = expectedVersion;
+  }
+}
+
+/** No number can be issued that is sure not to repeat one given elsewhere. */
+export class QueueNumberUnavailableError extends Error {
+  readonly branchId: string;
+
+  constructor(branchId: string) {
+    super(`Cannot issue a queue number for ${branchId} while the server is unreachable`);
+    this.name = 'QueueNumberUnavailableError';
+    this.branchId = branchId;
+  }
+}
+
+export type TicketRow = Record<string, unknown>;
+
+// One column per Ticket field. Typed against every key of Ticket so adding a
+// field without a column is a compile error rather than a silently dropped write.
+const TICKET_COLUMNS: { [K in keyof Required<Ticket>]: string } = {
+  id: 'id',
+  queueNumber: 'queue_number',
+  checkInCode: 'check_in_code',
+  name: 'name',
+  phone: 'phone',
+  memberId: 'member_id',
+  channel: 'channel',
+  status: 'status',
+  branchId: 'branch_id',
+  serviceCategory: 'service_category',
+  acuity: 'acuity',
+  priorityFlags: 'priority_flags',
+  pathway: 'pathway',
+  stageIndex: 'stage_index',
+  counterId: 'counter_id',
+  tellerId: 'teller_id',
+  preferredClinicianId: 'preferred_clinician_id',
+  dependents: 'dependents',
+  joinedAt: 'joined_at',
+  inLineAt: 'in_line_at',
+  calledAt: 'called_at',
+  eligibleForEntryAt: 'eligible_for_entry_at',
+  enteredBuildingAt: 'entered_building_at',
+  leftBuildingAt: 'left_building_at',
+  transactionStartedAt: 'transaction_started_at',
+  transactionEndedAt: 'transaction_ended_at',
+  bumpedAt: 'bumped_at',
+  graceMisses: 'grace_misses',
+  graceWarnedAt: 'grace_warned_at',
+  feedbackStars: 'feedback_stars',
+  auditNotes: 'audit_notes',
+  statusHistory: 'status_history',
+  waitTimeMinutes: 'wait_time_minutes',
+  isNoShow: 'is_no_show',
+  updatedAt: 'updated_at',
+  version: 'version',
+};
+
+const TICKET_FIELDS = Object.keys(TICKET_COLUMNS) as (keyof Ticket)[];
+
+// Maintained by database triggers — read back, never written
+const READ_ONLY_FIELDS = new Set<keyof Ticket>(['updatedAt', 'version']);
+
+/**
+ * Map a ticket or a partial patch to a database row. Every field present in
+ * the input is written — an explicit `undefined` becomes NULL so that clearing
+ * a timestamp (e.g. `eligibleForEntryAt` after a grace-period bump) persists.
+ */
+export const ticketToRow = (ticket: Partial<Ticket>): TicketRow => {
+  const row: TicketRow = {};
+  for (const field of TICKET_FIELDS) {
+    if (!(field in ticket) || READ_ONLY_FIELDS.has(field)) continue;
+    const value = ticket[field];
+    row[TICKET_COLUMNS[field]] = field === 'status' && value
+      ? normalizeStatus(value as Ticket['status'])
+      : value ?? null;
+  }
+  return row;
+};
+
+/** Map a database row back to a ticket. NULL columns become absent fields. */
+export const ticketFromRow = (row: TicketRow): Ticket => {
+  const ticket: Record<string, unknown> = {};
+  for (const field of TICKET_FIELDS) {
+    let value = row[TICKET_COLUMNS[field]];
+    if (field === 'statusHistory' && typeof value === 'string') value = JSON.parse(value);
+    if (field === 'updatedAt' && typeof value === 'string') value = Date.parse(value);
+    if (value !== null && value !== undefined) ticket[field] = value;
+  }
+  return normalizeTicket(ticket as unknown as Ticket);
+};
+
+/** The clinic-local calendar day a timestamp falls on, as 'YYYY-MM-DD'. */
+export const serviceDay = (timestamp: number): string => {
+  const day = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${day.getFullYear()}-${pad(day.getMonth() + 1)}-${pad(day.getDate())}`;
+};
+
+// Next number for a local counter, never below what today's tickets already use
+// (covers tickets created before the counter existed)
+const nextQueueNumber = (last: number | undefined, tickets: Ticket[], branchId: string, day: string): number =>
+  Math.max(
+    last ?? 0,
+    ...tickets.filter(t => t.branchId === branchId && serviceDay(t.joinedAt) === day).map(t => t.queueNumber),
+  ) + 1;
+
+// Local stand-in for the database's version trigger and update precondition
+const applyPatch = (tickets: Ticket[], id: string, patch: Partial<Ticket>, expectedVersion?: number): Ticket[] =>
+  tickets.map(t => {
+    if (t.id !== id) return t;
+    if (expectedVersion !== undefined && (t.version ?? 1) !== expectedVersion) {
+      throw new StaleTicketError(id, expectedVersion);
+    }
+    return normalizeTicket({ ...t, ...patch, version: (t.version ?? 1) + 1 });
+  });
+
+const upsertInto = (tickets: Ticket[], incoming: Ticket[]): Ticket[] => {
+  const byId = new Map(tickets.map(t => [t.id, t]));
+  incoming.forEach(t => byId.set(t.id, normalizeTicket(t)));
+  return [...byId.values()];
+};
+
+/**
+ * In-memory backend — for tests, demos and server-side simulations.
+ */
+export const createInMemoryTicketRepository = (seed: Ticket[] = []): TicketRepository => {
+  let tickets = seed.map(normalizeTicket);
+  const counters = new Map<string, number>();
+
+  return {
+    async list() {
+      return [...tickets];
+    },
+    async insert(ticket) {
+      const stored = normalizeTicket(ticket);
+      tickets = [...tickets.filter(t => t.id !== ticket.id), stored];
+      return stored;
+    },
+    async update(id, patch, expectedVersion) {
+      tickets = applyPatch(tickets, id, patch, expectedVersion);
+      return tickets.find(t => t.id === id) || null;
+    },
+    async remove(id) {
+      tickets = tickets.filter(t => t.id !== id);
+    },
+    async upsertMany(next) {
+      tickets = upsertInto(tickets, next);
+    },
+    async allocateQueueNumber(branchId, day) {
+      const key = `${branchId}:${day}`;
+      const number = nextQueueNumber(counters.get(key), tickets, branchId, day);
+      counters.set(key, number);
+      return number;
+    },
+    subscribe(_onEvent, onStatus) {
+      onStatus?.('local');
+      return () => {};
+    },
+  };
+};
+
+export const LOCAL_TICKETS_KEY = 'doqline_tickets';
+export const LOCAL_COUNTERS_KEY = 'doqline_queue_counters';
+
+/**
+ * Browser localStorage backend — used when Supabase is not configured and
+ * as the fallback when a Supabase call fails.
+ */
+export const createLocalStorageTicketRepository = (
+  storage: Storage = localStorage,
+  key: string = LOCAL_TICKETS_KEY,
+): TicketRepository => {
+  const read = (): Ticket[] => JSON.parse(storage.getItem(key) || '[]').map(normalizeTicket);
+  const write = (tickets: Ticket[]) => storage.setItem(key, JSON.stringify(tickets));
+
+  return {
+    async list() {
+      return read();
+    },
+    async insert(ticket) {
+      const stored = normalizeTicket(ticket);
+      write([...read().filter(t => t.id !== ticket.id), stored]);
+      return stored;
+    },
+    async update(id, patch, expectedVersion) {
+      const updated = applyPatch(read(), id, patch, expectedVersion);
+      write(updated);
+      return updated.find(t => t.id === id) || null;
+    },
+    async remove(id) {
+      write(read().filter(t => t.id !== id));
+    },
+    async upsertMany(tickets) {
+      write(upsertInto(read(), tickets));
+    },
+    async allocateQueueNumber(branchId, day) {
+      const allocate = () => {
+        const counters: Record<string, number> = JSON.parse(storage.getItem(LOCAL_COUNTERS_KEY) || '{}');
+        const counterKey = `${key}:${branchId}:${day}`;
+        const number = nextQueueNumber(counters[counterKey], read(), branchId, day);
+        storage.setItem(LOCAL_COUNTERS_KEY, JSON.stringify({ ...counters, [counterKey]: number }));
+        return number;
+      };
+      // Tabs on this device share the counter — hold a cross-tab lock while
+      // reading and bumping it where the browser supports one
+      if (typeof navigator !== 'undefined' && navigator.locks) {
+        return navigator.locks.request(`${LOCAL_COUNTERS_KEY}:${key}`, allocate);
+      }
+      return allocate();
+    },
+    subscribe(onEvent, onStatus) {
+      onStatus?.('local');
+      // Other tabs on this device write to the same key
+      const handleStorage = (event: StorageEvent) => {
+        if (event.key === key) onEvent({ type: 'resync', tickets: read() });
+      };
+      window.addEventListener('storage', handleStorage);
+      return () => window.removeEventListener('storage', handleStorage);
+    },
+  };
+};
@@ -0,0 +1,144 @@
+import { Ticket, TicketStatus, StatusTransition } from '../types';
+
+/**
+ * Ticket lifecycle state machine.
+ *
+ * The `TicketStatus` enum still carries the legacy aliases (WAITING, CALLED,
+ * ARRIVED, IN_TRANSACTION, COMPLETED) so old rows keep parsing, but every
+ * status is folded onto its canonical state before it is compared, stored or
+ * recorded in `statusHistory`.
+ */
+
+export type CanonicalTicketStatus =
+  | TicketStatus.REMOTE_WAITING
+  | TicketStatus.ELIGIBLE_FOR_ENTRY
+  | TicketStatus.IN_BUILDING
+  | TicketStatus.NOT_HERE
+  | TicketStatus.IN_SERVICE
+  | TicketStatus.SERVED
+  | TicketStatus.REMOVED;
+
+export type TransitionTrigger = StatusTransition['triggeredBy'];
+
+const STATUS_ALIASES: Partial<Record<TicketStatus, CanonicalTicketStatus>> = {
+  [TicketStatus.WAITING]:        TicketStatus.REMOTE_WAITING,
+  [TicketStatus.CALLED]:         TicketStatus.ELIGIBLE_FOR_ENTRY,
+  [TicketStatus.ARRIVED]:        TicketStatus.IN_BUILDING,
+  [TicketStatus.IN_TRANSACTION]: TicketStatus.IN_SERVICE,
+  [TicketStatus.COMPLETED]:      TicketStatus.SERVED,
+};
+
+// Legal moves out of each canonical state. SERVED and REMOVED are terminal.
+const TRANSITIONS: Record<CanonicalTicketStatus, CanonicalTicketStatus[]> = {
+  [TicketStatus.REMOTE_WAITING]: [
+    TicketStatus.ELIGIBLE_FOR_ENTRY,
+    TicketStatus.IN_BUILDING,
+    TicketStatus.NOT_HERE,
+    TicketStatus.REMOVED,
+  ],
+  [TicketStatus.ELIGIBLE_FOR_ENTRY]: [
+    TicketStatus.IN_BUILDING,
+    TicketStatus.REMOTE_WAITING, // grace period expired — bumped back
+    TicketStatus.NOT_HERE,
+    TicketStatus.REMOVED,
+  ],
+  [TicketStatus.IN_BUILDING]: [
+    TicketStatus.IN_SERVICE,
+    TicketStatus.REMOTE_WAITING, // stepped out of the waiting room
+    TicketStatus.NOT_HERE,
+    TicketStatus.REMOVED,
+  ],
+  [TicketStatus.NOT_HERE]: [
+    TicketStatus.REMOTE_WAITING, // reinstated
+    TicketStatus.IN_BUILDING,
+    TicketStatus.REMOVED,
+  ],
+  [TicketStatus.IN_SERVICE]: [
+    TicketStatus.SERVED,
+    TicketStatus.IN_BUILDING, // sent back to the waiting room
+    TicketStatus.REMOVED,
+  ],
+  [TicketStatus.SERVED]: [],
+  [TicketStatus.REMOVED]: [],
+};
+
+/**
+ * Thrown when a caller asks for a status change the lifecycle does not allow,
+ * e.g. SERVED → IN_BUILDING.
+ */
+export class IllegalTransitionError extends Error {
+  readonly ticketId: string;
+  readonly fromStatus: CanonicalTicketStatus;
+  readonly toStatus: CanonicalTicketStatus;
+
+  constructor(ticketId: string, fromStatus: CanonicalTicketStatus, toStatus: CanonicalTicketStatus) {
+    super(`Illegal ticket transition ${fromStatus} → ${toStatus} (ticket ${ticketId})`);
+    this.name = 'IllegalTransitionError';
+    this.ticketId = ticketId;
+    this.fromStatus = fromStatus;
+    this.toStatus = toStatus;
+  }
+}
+
+/** Map a legacy alias onto its canonical status. Canonical values pass through. */
+export const normalizeStatus = (status: TicketStatus): CanonicalTicketStatus =>
+  STATUS_ALIASES[status] ?? (status as CanonicalTicketStatus);
+
+/** True when `status` (or its alias) is one of the given canonical states. */
+export const isStatus = (status: TicketStatus, ...candidates: CanonicalTicketStatus[]): boolean =>
+  candidates.includes(normalizeStatus(status));
+
+export const canTransition = (from: TicketStatus, to: TicketStatus): boolean =>
+  TRANSITIONS[normalizeStatus(from)].includes(normalizeStatus(to));
+
+export const allowedTransitions = (from: TicketStatus): CanonicalTicketStatus[] =>
+  [...TRANSITIONS[normalizeStatus(from)]];
+
+/**
+ * Normalize a ticket read from storage: the status and every recorded
+ * transition are rewritten onto canonical states.
+ */
+export const normalizeTicket = (ticket: Ticket): Ticket => ({
+  ...ticket,
+  status: normalizeStatus(ticket.status),
+  statusHistory: ticket.statusHistory?.map(entry => ({
+    ...entry,
+    fromStatus: normalizeStatus(entry.fromStatus),
+    toStatus: normalizeStatus(entry.toStatus),
+  })),
+});
+
+/**
+ * Validate a status change and build the resulting patch.
+ * Throws `IllegalTransitionError` when the move is not allowed; otherwise
+ * returns the canonical status plus the history with the new entry appended.
+ */
+export const transitionTicket = (
+  ticket: Ticket,
+  toStatus: TicketStatus,
+  triggeredBy: TransitionTrigger,
+  reason: string | undefined,
+  timestamp: number,
+): Pick<Ticket, 'status' | 'statusHistory'> => {
+  const from = normalizeStatus(ticket.status);
+  const to = normalizeStatus(toStatus);
+  if (!TRANSITIONS[from].includes(to)) {
+    throw new IllegalTransitionError(ticket.id, from, to);
+  }
+
+  const transition: StatusTransition = {
+    ticketId: ticket.id,
+    fromStatus: from,
+    toStatus: to,
+    timestamp,
+    triggeredBy,
+    reason,
+  };
+  // Multi-stage visits record which station each move happened at
+  const stage = ticket.pathway?.[ticket.stageIndex ?? 0];
+  if (stage) transition.stage = stage;
+  return {
+    status: to,
+    statusHistory: [...(ticket.statusHistory || []), transition],
+  };
+};
@@ -0,0 +1,171 @@
+import { Ticket } from '../types';
+import { TicketChangeEvent, TicketRepository } from './ticketRepository';
+
+/**
+ * Write-behind change tracking for tickets.
+ *
+ * The sync layer remembers the last state it loaded or wrote for each ticket
+ * (the baseline). Inserts and updates are merged into a pending set and only
+ * tickets that actually differ from the baseline are upserted, in one batch,
+ * after a short delay. Rows are deleted only through an explicit `remove` —
+ * a device never wipes tickets it simply hasn't seen.
+ */
+export interface TicketSync {
+  load(): Promise<Ticket[]>;
+  insert(ticket: Ticket): Promise<Ticket>;
+  /**
+   * With `expectedVersion` the write is conditional and goes straight through
+   * rather than being batched; it throws `StaleTicketError` if the ticket has
+   * moved on.
+   */
+  update(id: string, patch: Partial<Ticket>, expectedVersion?: number): Promise<Ticket | null>;
+  remove(id: string): Promise<void>;
+  /** Passed straight through — numbers must come from the backend, never a local copy. */
+  allocateQueueNumber(branchId: string, serviceDay: string): Promise<number>;
+  /** Write every pending change now. */
+  flush(): Promise<void>;
+  pendingCount(): number;
+  /**
+   * Fold a change from another device into `tickets`. The incoming rows become
+   * the new baseline; tickets with edits still pending on this device keep
+   * their local version so an in-flight write is never visually reverted.
+   */
+  receive(tickets: Ticket[], event: TicketChangeEvent): Ticket[];
+}
+
+export interface TicketSyncOptions {
+  /** How long to wait for more edits before writing a batch. */
+  flushDelayMs?: number;
+  /** Upper bound on tickets per upsert call. */
+  maxBatchSize?: number;
+}
+
+const sameTicket = (a: Ticket | undefined, b: Ticket): boolean =>
+  !!a && JSON.stringify(a) === JSON.stringify(b);
+
+/** Tickets in `next` that are new or differ from `previous` (by id). */
+export const diffTickets = (previous: Ticket[], next: Ticket[]): Ticket[] => {
+  const byId = new Map(previous.map(t => [t.id, t]));
+  return next.filter(t => !sameTicket(byId.get(t.id), t));
+};
+
+export const createTicketSync = (
+  repository: TicketRepository,
+  { flushDelayMs = 400, maxBatchSize = 100 }: TicketSyncOptions = {},
+): TicketSync => {
+  const baseline = new Map<string, Ticket>();
+  const pending = new Map<string, Ticket>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let inFlight: Promise<void> = Promise.resolve();
+
+  const stage = (ticket: Ticket) => {
+    if (sameTicket(baseline.get(ticket.id), ticket)) {
+      pending.delete(ticket.id);
+    } else {
+      pending.set(ticket.id, ticket);
+    }
+    if (pending.size > 0 && !timer) {
+      timer = setTimeout(() => { timer = null; flush(); }, flushDelayMs);
+    }
+  };
+
+  const writeBatches = async () => {
+    while (pending.size > 0) {
+      const batch = [...pending.values()].slice(0, maxBatchSize);
+      batch.forEach(t => pending.delete(t.id));
+      try {
+        await repository.upsertMany(batch);
+        batch.forEach(t => baseline.set(t.id, t));
+      } catch (error) {
+        console.error('✗ Ticket sync failed, will retry:', error);
+        // Re-queue anything that hasn't been superseded by a newer edit
+        batch.forEach(t => { if (!pending.has(t.id)) pending.set(t.id, t); });
+        if (!timer) timer = setTimeout(() => { timer = null; flush(); }, flushDelayMs * 10);
+        return;
+      }
+    }
+  };
+
+  const flush = (): Promise<void> => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    // Serialize flushes so batches land in the order they were made
+    inFlight = inFlight.then(writeBatches);
+    return inFlight;
+  };
+
+  return {
+    async load() {
+      const tickets = await repository.list();
+      baseline.clear();
+      tickets.forEach(t => baseline.set(t.id, t));
+      return tickets;
+    },
+
+    async insert(ticket) {
+      stage(ticket);
+      return ticket;
+    },
+
+    async update(id, patch, expectedVersion) {
+      const current = pending.get(id) ?? baseline.get(id);
+      if (expectedVersion !== undefined) {
+        // Any edits still waiting here go in the same write
+        const staged = pending.get(id);
+        const updated = await repository.update(id, staged ? { ...staged, ...patch } : patch, expectedVersion);
+        pending.delete(id);
+        if (updated) baseline.set(id, updated);
+        return updated;
+      }
+      if (!current) {
+        // Not seen by this device yet — write straight through
+        const updated = await repository.update(id, patch);
+        if (updated) baseline.set(id, updated);
+        return updated;
+      }
+      const next = { ...current, ...patch };
+      stage(next);
+      return next;
+    },
+
+    async remove(id) {
+      pending.delete(id);
+      await repository.remove(id);
+      baseline.delete(id);
+    },
+
+    allocateQueueNumber: (branchId, day) => repository.allocateQueueNumber(branchId, day),
+
+    flush,
+
+    pendingCount: () => pending.size,
+
+    receive(tickets, event) {
+      if (event.type === 'delete') {
+        pending.delete(event.id);
+        baseline.delete(event.id);
+        return tickets.filter(t => t.id !== event.id);
+      }
+
+      if (event.type === 'upsert') {
+        const { ticket } = event;
+        baseline.set(ticket.id, ticket);
+        const local = pending.get(ticket.id);
+        if (local && sameTicket(ticket, local)) pending.delete(ticket.id);
+        const next = pending.get(ticket.id) ?? ticket;
+        return tickets.some(t => t.id === ticket.id)
+          ? tickets.map(t => (t.id === ticket.id ? next : t))
+          : [...tickets, next];
+      }
+
+      // resync: the server list wins, except where this device has pending edits
+      baseline.clear();
+      event.tickets.forEach(t => baseline.set(t.id, t));
+      const merged = event.tickets.map(t => pending.get(t.id) ?? t);
+      const unsent = [...pending.values()].filter(t => !baseline.has(t.id));
+      return [...merged, ...unsent];
+    },
+  };
+};
@@ -0,0 +1,129 @@
+import { AcuityLevel, PriorityPolicy, ServiceCategory, Ticket } from '../types';
+import { partyCategories } from './party';
+import { isFlagged } from './priorityFlags';
+
+/**
+ * Clinical triage priority.
+ *
+ * Reception grades each patient on a five-level acuity scale (1 = immediate
+ * … 5 = non-urgent, as in the Manchester Triage System). Until they do, a
+ * patient who said they are here for an emergency counts as very urgent and
+ * everyone else as standard.
+ *
+ * Urgency buys a head start, not an absolute right of way: each level moves
+ * a patient up the queue as if they had got in line that many minutes
+ * earlier. Someone who has waited longer than the head start is no longer
+ * overtaken, so low-acuity patients are never starved. Patients with priority
+ * flags (see priorityFlags.ts) then move up the places their branch allows.
+ */
+
+export const ACUITY_LEVELS: AcuityLevel[] = [1, 2, 3, 4, 5];
+
+export const ACUITY_LABELS: Record<AcuityLevel, string> = {
+  1: 'Immediate',
+  2: 'Very urgent',
+  3: 'Urgent',
+  4: 'Standard',
+  5: 'Non-urgent',
+};
+
+// Colours of the triage scale, for badges
+export const ACUITY_COLORS: Record<AcuityLevel, string> = {
+  1: '#FF3B30',
+  2: '#FF9F0A',
+  3: '#FFCC00',
+  4: '#34C759',
+  5: '#0071E3',
+};
+
+/** Minutes of queue credit per level; negative defers non-urgent patients a little. */
+export const ACUITY_HEAD_START_MINUTES: Record<AcuityLevel, number> = {
+  1: 8 * 60,
+  2: 120,
+  3: 45,
+  4: 0,
+  5: -30,
+};
+
+export const DEFAULT_ACUITY: AcuityLevel = 4;
+// Self-reported emergencies wait as very urgent until reception triages them
+const EMERGENCY_ACUITY: AcuityLevel = 2;
+
+/** A ticket's acuity: reception's grading, or the provisional level from its visit reasons. */
+export const acuityOf = (ticket: Pick<Ticket, 'acuity' | 'serviceCategory' | 'dependents'>): AcuityLevel =>
+  ticket.acuity ??
+  (partyCategories(ticket).includes(ServiceCategory.EMERGENCY) ? EMERGENCY_ACUITY : DEFAULT_ACUITY);
+
+const MINUTE = 60 * 1000;
+
+// Move each flagged patient up to `skipPlaces` places, never past another
+// flagged patient or anyone more urgent
+const applyPrioritySkips = <T extends Ticket>(ordered: T[], { skipPlaces }: PriorityPolicy): T[] => {
+  const result: T[] = [];
+  for (const ticket of ordered) {
+    let at = result.length;
+    if (isFlagged(ticket)) {
+      while (
+        at > 0 &&
+        result.length - at < skipPlaces &&
+        !isFlagged(result[at - 1]) &&
+        acuityOf(result[at - 1]) >= acuityOf(ticket)
+      ) at--;
+    }
+    result.splice(at, 0, ticket);
+  }
+  return result;
+};
+
+// When each ticket got in line, in queue-number order: the time it was placed
+// at if it was placed by time, otherwise the latest join time among those
+// holding its queue number or a lower one
+const placesInLine = <T extends Ticket>(tickets: T[]): { ticket: T; inLineAt: number }[] => {
+  let latest = -Infinity;
+  return [...tickets]
+    .sort((a, b) => a.queueNumber - b.queueNumber || a.joinedAt - b.joinedAt)
+    .map(ticket => {
+      if (ticket.inLineAt !== undefined) return { ticket, inLineAt: ticket.inLineAt };
+      latest = Math.max(latest, ticket.joinedAt);
+      return { ticket, inLineAt: latest };
+    });
+};
+
+/**
+ * Tickets in the order they should be seen. A patient "got in line" at the
+ * latest join time among those holding their queue number or a lower one —
+ * so patients re-queued for a later station, or moved to the back, line up
+ * behind everyone already there — unless they were placed in line at a set
+ * time (`inLineAt`), as transferred patients are. Their acuity's head start
+ * is taken off that. Equal priority keeps queue-number order. Pass the
+ * branch's priority policy to let flagged patients skip places.
+ */
+export const priorityOrder = <T extends Ticket>(tickets: T[], policy?: PriorityPolicy): T[] => {
+  const ordered = placesInLine(tickets)
+    .map(({ ticket, inLineAt }) => ({ ticket, key: inLineAt - ACUITY_HEAD_START_MINUTES[acuityOf(ticket)] * MINUTE }))
+    .sort((a, b) => a.key - b.key)
+    .map(({ ticket }) => ticket);
+  return policy ? applyPrioritySkips(ordered, policy) : ordered;
+};
+
+export type QueueMoveReason = 'triage' | 'priority';
+
+/**
+ * Patients seen before `ticket` although they got in line after them, and
+ * why: clinical urgency, or the branch's priority policy. Lets a patient who
+ * slipped back see that it was for a reason.
+ */
+export const movedAheadOf = <T extends Ticket>(
+  ticket: Ticket,
+  ordered: T[],
+): { ticket: T; reason: QueueMoveReason }[] => {
+  const lineOrder = placesInLine(ordered)
+    .sort((a, b) => a.inLineAt - b.inLineAt)
+    .map(({ ticket: t }) => t.id);
+  const place = lineOrder.indexOf(ticket.id);
+  const position = ordered.findIndex(t => t.id === ticket.id);
+  return ordered
+    .slice(0, Math.max(0, position))
+    .filter(t => lineOrder.indexOf(t.id) > place)
+    .map(t => ({ ticket: t, reason: acuityOf(t) < acuityOf(ticket) ? 'triage' : 'priority' }));
+};
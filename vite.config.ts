@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
@@ -24,5 +25,9 @@ export default defineConfig(({ mode }) => {
         outDir: 'dist',
         sourcemap: false,
       },
+      test: {
+        globals: true,
+        environment: 'jsdom',
+      },
     };
 });